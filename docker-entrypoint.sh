@@ -1,24 +1,72 @@
 #!/bin/bash
 set -e
 
-# Build command line from environment variables
-CMD_ARGS=""
+# Build command line from environment variables, one array element per argument so values may contain spaces
+CMD_ARGS=()
 
 # Handle boolean flags
-[[ "$LRCLIB_RECURSIVE" == "true" ]] && CMD_ARGS="$CMD_ARGS --recursive"
-[[ "$LRCLIB_RECURSIVE" == "false" ]] && CMD_ARGS="$CMD_ARGS --no-recursive"
-[[ "$LRCLIB_SKIP_EXISTING" == "false" ]] && CMD_ARGS="$CMD_ARGS --no-skip-existing"
-[[ "$LRCLIB_OVERWRITE" == "true" ]] && CMD_ARGS="$CMD_ARGS --overwrite"
-[[ "$LRCLIB_TITLE_ONLY" == "true" ]] && CMD_ARGS="$CMD_ARGS --allow-title-only"
-[[ "$LRCLIB_PREFER_SYNCED" == "false" ]] && CMD_ARGS="$CMD_ARGS --no-prefer-synced"
+[[ "$LRCLIB_RECURSIVE" == "true" ]] && CMD_ARGS+=(--recursive)
+[[ "$LRCLIB_RECURSIVE" == "false" ]] && CMD_ARGS+=(--no-recursive)
+[[ "$LRCLIB_SKIP_EXISTING" == "false" ]] && CMD_ARGS+=(--no-skip-existing)
+[[ "$LRCLIB_OVERWRITE" == "true" ]] && CMD_ARGS+=(--overwrite)
+[[ "$LRCLIB_TITLE_ONLY" == "true" ]] && CMD_ARGS+=(--allow-title-only)
+[[ "$LRCLIB_FOLLOW_SYMLINKS" == "true" ]] && CMD_ARGS+=(--follow-symlinks)
+[[ "$LRCLIB_IGNORE_FILES" == "false" ]] && CMD_ARGS+=(--no-ignore-files)
+[[ "$LRCLIB_PREFER_SYNCED" == "false" ]] && CMD_ARGS+=(--no-prefer-synced)
+[[ "$LRCLIB_LRC_HEADERS" == "true" ]] && CMD_ARGS+=(--lrc-headers)
+[[ "$LRCLIB_DRY_RUN" == "true" ]] && CMD_ARGS+=(--dry-run)
+[[ "$LRCLIB_CACHED_ONLY" == "true" ]] && CMD_ARGS+=(--cached-only)
+[[ "$LRCLIB_REVIEW" == "true" ]] && CMD_ARGS+=(--review)
+[[ "$LRCLIB_CACHE" == "false" ]] && CMD_ARGS+=(--no-cache)
+[[ "$LRCLIB_INCREMENTAL" == "false" ]] && CMD_ARGS+=(--no-incremental)
+[[ "$LRCLIB_NORMALIZE" == "false" ]] && CMD_ARGS+=(--no-normalize)
+
+# Handle value options
+[[ -n "$LRCLIB_OUTPUT" ]] && CMD_ARGS+=(--output "$LRCLIB_OUTPUT")
+[[ -n "$LRCLIB_FORMAT" ]] && CMD_ARGS+=(--format "$LRCLIB_FORMAT")
+[[ -n "$LRCLIB_PATH_TEMPLATE" ]] && CMD_ARGS+=(--path-template "$LRCLIB_PATH_TEMPLATE")
+[[ -n "$LRCLIB_REPORT" ]] && CMD_ARGS+=(--report "$LRCLIB_REPORT")
+[[ -n "$LRCLIB_REPORT_FORMAT" ]] && CMD_ARGS+=(--report-format "$LRCLIB_REPORT_FORMAT")
+[[ -n "$LRCLIB_PLAN_FILE" ]] && CMD_ARGS+=(--plan-file "$LRCLIB_PLAN_FILE")
+[[ -n "$LRCLIB_LYRICS_ROOT" ]] && CMD_ARGS+=(--lyrics-root "$LRCLIB_LYRICS_ROOT")
+[[ -n "$LRCLIB_API_URL" ]] && CMD_ARGS+=(--lrclib-url "$LRCLIB_API_URL")
+[[ -n "$LRCLIB_PROVIDERS" ]] && CMD_ARGS+=(--providers "$LRCLIB_PROVIDERS")
+[[ -n "$LRCLIB_LOCAL_LYRICS" ]] && CMD_ARGS+=(--local-lyrics "$LRCLIB_LOCAL_LYRICS")
+[[ -n "$LRCLIB_OVERRIDES" ]] && CMD_ARGS+=(--overrides "$LRCLIB_OVERRIDES")
+[[ -n "$LRCLIB_NORMALIZE_STEPS" ]] && CMD_ARGS+=(--normalize-steps "$LRCLIB_NORMALIZE_STEPS")
+[[ -n "$LRCLIB_INCLUDE_EXT" ]] && CMD_ARGS+=(--include-ext "$LRCLIB_INCLUDE_EXT")
+[[ -n "$LRCLIB_EXCLUDE_EXT" ]] && CMD_ARGS+=(--exclude-ext "$LRCLIB_EXCLUDE_EXT")
+# One glob per line, so globs may contain spaces
+if [[ -n "$LRCLIB_INCLUDE" ]]; then
+    mapfile -t INCLUDE_GLOBS <<< "$LRCLIB_INCLUDE"
+    CMD_ARGS+=(--include "${INCLUDE_GLOBS[@]}")
+fi
+if [[ -n "$LRCLIB_EXCLUDE" ]]; then
+    mapfile -t EXCLUDE_GLOBS <<< "$LRCLIB_EXCLUDE"
+    CMD_ARGS+=(--exclude "${EXCLUDE_GLOBS[@]}")
+fi
+[[ -n "$LRCLIB_MAX_DEPTH" ]] && CMD_ARGS+=(--max-depth "$LRCLIB_MAX_DEPTH")
 
 # Handle numeric options
-[[ -n "$LRCLIB_BATCH_SIZE" ]] && CMD_ARGS="$CMD_ARGS --batch-size $LRCLIB_BATCH_SIZE"
-[[ -n "$LRCLIB_DELAY" ]] && CMD_ARGS="$CMD_ARGS --delay $LRCLIB_DELAY"
+[[ -n "$LRCLIB_BATCH_SIZE" ]] && CMD_ARGS+=(--batch-size "$LRCLIB_BATCH_SIZE")
+[[ -n "$LRCLIB_METADATA_WORKERS" ]] && CMD_ARGS+=(--metadata-workers "$LRCLIB_METADATA_WORKERS")
+[[ -n "$LRCLIB_DELAY" ]] && CMD_ARGS+=(--delay "$LRCLIB_DELAY")
+[[ -n "$LRCLIB_REQUESTS_PER_SECOND" ]] && CMD_ARGS+=(--requests-per-second "$LRCLIB_REQUESTS_PER_SECOND")
+[[ -n "$LRCLIB_MAX_CONCURRENT_REQUESTS" ]] && CMD_ARGS+=(--max-concurrent-requests "$LRCLIB_MAX_CONCURRENT_REQUESTS")
+[[ -n "$LRCLIB_TIMEOUT" ]] && CMD_ARGS+=(--timeout "$LRCLIB_TIMEOUT")
+[[ -n "$LRCLIB_MAX_RETRIES" ]] && CMD_ARGS+=(--max-retries "$LRCLIB_MAX_RETRIES")
+[[ -n "$LRCLIB_MIN_CONFIDENCE" ]] && CMD_ARGS+=(--min-confidence "$LRCLIB_MIN_CONFIDENCE")
+[[ -n "$LRCLIB_MAX_DURATION_DELTA" ]] && CMD_ARGS+=(--max-duration-delta "$LRCLIB_MAX_DURATION_DELTA")
+[[ -n "$LRCLIB_DURATION_MISMATCH" ]] && CMD_ARGS+=(--duration-mismatch "$LRCLIB_DURATION_MISMATCH")
+[[ -n "$LRCLIB_REVIEW_THRESHOLD" ]] && CMD_ARGS+=(--review-threshold "$LRCLIB_REVIEW_THRESHOLD")
+
+[[ -n "$LRCLIB_CACHE_PATH" ]] && CMD_ARGS+=(--cache-path "$LRCLIB_CACHE_PATH")
+[[ -n "$LRCLIB_STATE_PATH" ]] && CMD_ARGS+=(--state-path "$LRCLIB_STATE_PATH")
+[[ -n "$LRCLIB_REVIEW_PATH" ]] && CMD_ARGS+=(--review-path "$LRCLIB_REVIEW_PATH")
 
 # Handle logging
-[[ -n "$LRCLIB_LOG_LEVEL" ]] && CMD_ARGS="$CMD_ARGS --log-level $LRCLIB_LOG_LEVEL"
-[[ -n "$LRCLIB_LOG_FILE" ]] && CMD_ARGS="$CMD_ARGS --log-file $LRCLIB_LOG_FILE"
+[[ -n "$LRCLIB_LOG_LEVEL" ]] && CMD_ARGS+=(--log-level "$LRCLIB_LOG_LEVEL")
+[[ -n "$LRCLIB_LOG_FILE" ]] && CMD_ARGS+=(--log-file "$LRCLIB_LOG_FILE")
 
 # Create log directory if needed
 if [[ -n "$LRCLIB_LOG_FILE" ]]; then
@@ -30,7 +78,14 @@ fi
 if [ $# -gt 0 ]; then
     exec "$@"
 else
+    if [[ "$LRCLIB_WATCH" == "true" ]]; then
+        # Long-running mode: keep watching /music for new files
+        [[ -n "$LRCLIB_WATCH_DEBOUNCE" ]] && CMD_ARGS+=(--debounce "$LRCLIB_WATCH_DEBOUNCE")
+        echo "Starting LRCLib Fetcher in watch mode with options: ${CMD_ARGS[*]}"
+        exec node dist/cli.js watch /music "${CMD_ARGS[@]}"
+    fi
+
     # Default command: process the /music directory
-    echo "Starting LRCLib Fetcher with options: $CMD_ARGS"
-    exec node dist/cli.js /music $CMD_ARGS
+    echo "Starting LRCLib Fetcher with options: ${CMD_ARGS[*]}"
+    exec node dist/cli.js /music "${CMD_ARGS[@]}"
 fi
\ No newline at end of file
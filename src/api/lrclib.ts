@@ -1,12 +1,165 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
 import { logger } from '../utils/logger';
-import { TrackMetadata, LyricResult, LyricSearchOptions } from '../types';
-import { LyricsFetchError } from '../utils/errorHandling';
+import {
+  TrackMetadata,
+  LyricResult,
+  LyricSearchOptions,
+  LyricsProvider,
+  MatchScore,
+  MatchStage,
+  RateLimitOptions,
+  NetworkOptions,
+  LrcLibApiOptions
+} from '../types';
+import {
+  scoreCandidate,
+  searchArtists,
+  applyDurationTolerance,
+  DEFAULT_MIN_CONFIDENCE,
+  DEFAULT_MAX_DURATION_DELTA_SECONDS
+} from './matching';
+import { RequestScheduler } from './requestScheduler';
+import { withRetry, isNotFoundError, toFetchError, DEFAULT_NETWORK_OPTIONS } from './retry';
+import { LookupCache } from '../cache/lookupCache';
+import { ConfigurationError, DurationMismatchError } from '../utils/errorHandling';
 import path from 'path';
 import fs from 'fs';
 
 export interface HttpClient {
-  get(url: string, config?: any): Promise<any>;
+  get(url: string, config?: HttpGetConfig): Promise<HttpGetResponse>;
+  /** Only needed for publishing */
+  post?(url: string, data: LrcLibPublishRequest | undefined, config: HttpPostConfig): Promise<HttpPostResponse>;
+}
+
+/**
+ * Query parameters and timeout of a GET request
+ */
+export interface HttpGetConfig {
+  params?: Record<string, string | number>;
+  timeout?: number;
+}
+
+/**
+ * Response to a GET request. The body comes from the server, so it is validated before use.
+ */
+export interface HttpGetResponse {
+  status: number;
+  data: unknown;
+  headers?: Record<string, unknown>;
+}
+
+/**
+ * Headers and timeout of a POST request
+ */
+export interface HttpPostConfig {
+  headers: Record<string, string>;
+  timeout: number;
+}
+
+/**
+ * Response to a POST request: a challenge from /api/request-challenge, nothing from /api/publish.
+ * The body comes from the server, so its fields are checked before use.
+ */
+export interface HttpPostResponse {
+  status: number;
+  data?: Partial<LrcLibChallenge> | null;
+}
+
+/**
+ * Options for the LrcLib API client
+ */
+export interface LrcLibClientOptions {
+  rateLimit?: Partial<RateLimitOptions>;
+  network?: Partial<NetworkOptions>;
+  api?: Partial<LrcLibApiOptions>;
+  cache?: LookupCache;
+}
+
+export const DEFAULT_LRCLIB_API_OPTIONS: LrcLibApiOptions = {
+  baseUrl: 'https://lrclib.net',
+  cachedOnly: false
+};
+
+/**
+ * A lyrics record as returned by the LRCLIB API
+ */
+export interface LrcLibRecord {
+  id: number;
+  trackName: string;
+  artistName: string;
+  albumName: string | null;
+  duration: number | null;
+  instrumental: boolean;
+  plainLyrics: string | null;
+  syncedLyrics: string | null;
+}
+
+/**
+ * The exact track signature looked up by /api/get and /api/get-cached
+ */
+export interface LrcLibSignature {
+  trackName: string;
+  artistName: string;
+  albumName: string;
+  /** Track duration in seconds; LRCLIB matches within ±2 seconds */
+  duration: number;
+}
+
+/**
+ * Parameters of /api/search; either `q` or `trackName` is required
+ */
+export interface LrcLibSearchParams {
+  q?: string;
+  trackName?: string;
+  artistName?: string;
+  albumName?: string;
+}
+
+/**
+ * Proof-of-work challenge from /api/request-challenge
+ */
+export interface LrcLibChallenge {
+  prefix: string;
+  /** Hex-encoded upper bound for the SHA-256 hash of prefix + nonce */
+  target: string;
+}
+
+/**
+ * Body of /api/publish; empty lyrics publish the track as instrumental
+ */
+export interface LrcLibPublishRequest {
+  trackName: string;
+  artistName: string;
+  albumName: string;
+  duration: number;
+  plainLyrics: string;
+  syncedLyrics: string;
+}
+
+const optionalString = (value: unknown): string | null => typeof value === 'string' ? value : null;
+
+/**
+ * Validate a record from an API response, returning null for anything that isn't one
+ */
+export function parseLrcLibRecord(data: unknown): LrcLibRecord | null {
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const record = data as Record<string, unknown>;
+  if (typeof record.id !== 'number' || typeof record.trackName !== 'string' || typeof record.artistName !== 'string') {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    trackName: record.trackName,
+    artistName: record.artistName,
+    albumName: optionalString(record.albumName),
+    duration: typeof record.duration === 'number' ? record.duration : null,
+    instrumental: record.instrumental === true,
+    plainLyrics: optionalString(record.plainLyrics),
+    syncedLyrics: optionalString(record.syncedLyrics)
+  };
 }
 
 /*
@@ -37,15 +190,35 @@ function getPackageInfo() {
   }
 }
 
+/**
+ * A single query against the search endpoint, labelled for logging and match reasons
+ */
+interface SearchQuery {
+  label: string;
+  params: LrcLibSearchParams;
+}
+
+/**
+ * A record paired with the query that found it and its confidence score
+ */
+interface ScoredCandidate {
+  record: LrcLibRecord;
+  query: string;
+  score: MatchScore;
+}
 
 /**
  * LrcLib API client for fetching lyrics
  */
-export class LrcLibClient {
-  private readonly apiUrl = 'https://lrclib.net/api/get';
+export class LrcLibClient implements LyricsProvider {
+  readonly name = 'lrclib';
   private readonly httpClient: HttpClient;
+  private readonly scheduler: RequestScheduler;
+  private network: NetworkOptions;
+  private api: LrcLibApiOptions;
+  private cache?: LookupCache;
 
-  constructor(httpClient?: HttpClient) {
+  constructor(httpClient?: HttpClient, options: LrcLibClientOptions = {}) {
     const { name, version, repoUrl } = getPackageInfo();
     const userAgent = `${name}/${version} (${repoUrl})`;
 
@@ -56,439 +229,404 @@ export class LrcLibClient {
         'User-Agent': userAgent
       }
     });
+    this.scheduler = new RequestScheduler(options.rateLimit);
+    this.network = { ...DEFAULT_NETWORK_OPTIONS, ...options.network };
+    this.api = { ...DEFAULT_LRCLIB_API_OPTIONS, ...options.api };
+    this.cache = options.cache;
   }
 
   /**
- * Search for lyrics using track metadata
- */
+   * Update the request rate limits shared by all searches of this client
+   */
+  configureRateLimit(rateLimit: Partial<RateLimitOptions>): void {
+    this.scheduler.configure(rateLimit);
+  }
+
+  /**
+   * Update the request timeout and retry behaviour
+   */
+  configureNetwork(network: Partial<NetworkOptions>): void {
+    this.network = { ...this.network, ...network };
+  }
+
+  /**
+   * Update the API base URL and whether signature lookups may trigger external lookups
+   */
+  configureApi(api: Partial<LrcLibApiOptions>): void {
+    this.api = { ...this.api, ...api };
+  }
+
+  /**
+   * Set (or remove) the persistent cache consulted before querying the API
+   */
+  useCache(cache: LookupCache | undefined): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Write pending cache entries to disk
+   */
+  async flushCache(): Promise<void> {
+    await this.cache?.flush();
+  }
+
+  /**
+   * Search for lyrics using track metadata, returning the best match
+   */
   async searchLyrics(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult | null> {
+    const [best] = await this.search(metadata, options);
+    return best ?? null;
+  }
+
+  /**
+   * Search for accepted candidates, best first, consulting the lookup cache first
+   */
+  async search(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult[]> {
+    const source = this.cacheSource();
+    if (this.cache) {
+      const cached = await this.cache.get(metadata, options, source);
+      if (cached !== undefined) {
+        logger.debug('LrcLibClient', `Using cached lookup for: "${metadata.artist} - ${metadata.title}"`);
+        return cached;
+      }
+    }
+
+    const results = (await this.searchRemote(metadata, options)).slice(0, options?.maxCandidates);
+    await this.cache?.set(metadata, options, results, source);
+    return results;
+  }
+
+  /**
+   * The API a lookup is cached for: a miss limited to LRCLIB's cache, or on another server, says nothing about this one
+   */
+  private cacheSource(): string {
+    return `${this.baseUrl()}${this.api.cachedOnly ? ' cached-only' : ''}`;
+  }
+
+  /**
+   * Fetch lyrics for one LRCLIB record by id, e.g. a record pinned by an override.
+   * Returns null when the record doesn't exist or has no lyrics.
+   */
+  async getLyricsById(id: number, metadata: TrackMetadata): Promise<LyricResult | null> {
+    try {
+      const record = await this.getRecord(id);
+      const result = record && this.toLyricResult(record);
+      return result && { ...result, matchReasons: [`lrclib id: ${id}`] };
+    } catch (error) {
+      throw toFetchError(error, metadata.artist, metadata.title);
+    }
+  }
+
+  /**
+   * GET /api/get/{id}: a record by id, or null when it doesn't exist
+   */
+  async getRecord(id: number): Promise<LrcLibRecord | null> {
+    return parseLrcLibRecord(await this.request(`/api/get/${id}`, {}, `record ${id}`));
+  }
+
+  /**
+   * GET /api/get or /api/get-cached: the record matching a track signature, or null.
+   * Without `cachedOnly`, LRCLIB may look the track up in external sources first, which is slow.
+   */
+  async getRecordBySignature(
+    signature: LrcLibSignature,
+    options: { cachedOnly?: boolean } = {}
+  ): Promise<LrcLibRecord | null> {
+    const endpoint = (options.cachedOnly ?? this.api.cachedOnly) ? '/api/get-cached' : '/api/get';
+    const data = await this.request(endpoint, {
+      track_name: signature.trackName,
+      artist_name: signature.artistName,
+      album_name: signature.albumName,
+      duration: String(Math.round(signature.duration))
+    }, 'signature lookup');
+    return parseLrcLibRecord(data);
+  }
+
+  /**
+   * GET /api/search: records matching a keyword or track fields, best first as ranked by LRCLIB
+   */
+  async searchRecords(params: LrcLibSearchParams, label = 'search'): Promise<LrcLibRecord[]> {
+    const query: Record<string, string> = {};
+    if (params.q) query.q = params.q;
+    if (params.trackName) query.track_name = params.trackName;
+    if (params.artistName) query.artist_name = params.artistName;
+    if (params.albumName) query.album_name = params.albumName;
+
+    const data = await this.request('/api/search', query, label);
+    if (!Array.isArray(data)) {
+      if (data !== null) {
+        logger.debug('LrcLibClient', `Unexpected ${label} response type: ${typeof data}`);
+      }
+      return [];
+    }
+
+    const records = data.map(parseLrcLibRecord).filter((record): record is LrcLibRecord => record !== null);
+    logger.debug('LrcLibClient', `Found ${records.length} results for ${label}`);
+    return records;
+  }
+
+  /**
+   * Search the LRCLIB API for lyrics using track metadata
+   */
+  private async searchRemote(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult[]> {
     logger.debug('LrcLibClient', `Starting search for: "${metadata.artist} - ${metadata.title}"`);
     logger.debug('LrcLibClient', `Complete metadata: ${JSON.stringify(metadata)}`);
     logger.debug('LrcLibClient', `Search options: ${JSON.stringify(options || {})}`);
 
     const preferSynced = options?.preferSynced !== false; // Default to true if not specified
+    const minConfidence = options?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const maxDurationDelta = options?.maxDurationDeltaSeconds ?? DEFAULT_MAX_DURATION_DELTA_SECONDS;
+    const durationMismatch = options?.durationMismatch ?? 'reject';
 
     try {
-      // Variables to store results for potential fallback use
-      let exactMatch: LyricResult | null = null;
-      let artistTitleMatch: LyricResult | null = null;
-      let titleMatch: LyricResult | null = null;
-
-      // Try exact match first
-      exactMatch = await this.findExactMatch(metadata);
-      if (exactMatch) {
-        if (preferSynced && !exactMatch.syncedLyrics && !exactMatch.instrumental) {
-          logger.debug('LrcLibClient', `Found exact match but no synced lyrics, continuing search...`);
-          // Continue searching if we prefer synced lyrics but didn't find any
-        } else {
-          return exactMatch;
-        }
-      }
-
-      // Try artist and title match
-      artistTitleMatch = await this.findByArtistAndTitle(metadata);
-      if (artistTitleMatch) {
-        if (preferSynced && !artistTitleMatch.syncedLyrics && !artistTitleMatch.instrumental) {
-          logger.debug('LrcLibClient', `Found artist/title match but no synced lyrics, continuing search...`);
-          // Continue searching if we prefer synced lyrics but didn't find any
-        } else {
-          return artistTitleMatch;
-        }
+      const candidates = await this.collectCandidates(metadata, !!options?.allowTitleOnlySearch);
+      if (candidates.length === 0) {
+        logger.debug('LrcLibClient', `No candidates found for: "${metadata.artist} - ${metadata.title}"`);
+        return [];
       }
 
-      // Try title-only search as last resort
-      if (options?.allowTitleOnlySearch) {
-        titleMatch = await this.findByTitleOnly(metadata);
-        if (titleMatch) {
-          if (preferSynced && !titleMatch.syncedLyrics && !titleMatch.instrumental) {
-            logger.debug('LrcLibClient', `Found title-only match but no synced lyrics, will use as fallback`);
-            // For title-only, if we don't have synced lyrics, keep the result as fallback
-          } else {
-            return titleMatch;
-          }
+      const { kept, rejected } = applyDurationTolerance(candidates, maxDurationDelta, durationMismatch);
+      rejected.forEach(candidate =>
+        logger.trace('LrcLibClient', `Rejecting candidate ${candidate.record.id}: duration differs by ${candidate.score.durationDelta!.toFixed(1)}s`)
+      );
+
+      const ranked = this.rankCandidates(kept, preferSynced, minConfidence);
+      if (ranked.length === 0) {
+        const [closestRejected] = this.rankCandidates(rejected, false, minConfidence);
+        if (closestRejected) {
+          throw new DurationMismatchError(
+            metadata.artist,
+            metadata.title,
+            closestRejected.score.durationDelta ?? 0,
+            maxDurationDelta
+          );
         }
-      }
 
-      // If we got here and have a non-synced match that we skipped earlier, return it as last resort
-      if (exactMatch) {
-        logger.debug('LrcLibClient', `Using non-synced exact match as fallback`);
-        return exactMatch;
-      } else if (artistTitleMatch) {
-        logger.debug('LrcLibClient', `Using non-synced artist/title match as fallback`);
-        return artistTitleMatch;
-      } else if (titleMatch) {
-        logger.debug('LrcLibClient', `Using non-synced title-only match as fallback`);
-        return titleMatch;
+        logger.debug('LrcLibClient', `No candidate reached confidence ${minConfidence} for: "${metadata.artist} - ${metadata.title}"`);
+        return [];
       }
 
-      logger.debug('LrcLibClient', `No lyrics found for: "${metadata.artist} - ${metadata.title}" after all search attempts`);
-      return null;
+      const best = ranked[0];
+      logger.debug('LrcLibClient', `Selected candidate ${best.record.id} with score ${best.score.total}: ${best.score.reasons.join('; ')}`);
+      return ranked
+        .map(candidate => this.toLyricResult(candidate.record, candidate))
+        .filter((result): result is LyricResult => result !== null);
     } catch (error) {
-      logger.error('LrcLibClient', `Error searching lyrics: ${error instanceof Error ? error.message : String(error)}`);
-      throw new LyricsFetchError(metadata.artist, metadata.title, error instanceof Error ? error.message : String(error));
+      if (error instanceof DurationMismatchError) {
+        logger.debug('LrcLibClient', error.message);
+        throw error;
+      }
+      const fetchError = toFetchError(error, metadata.artist, metadata.title);
+      logger.error('LrcLibClient', `[${fetchError.code}] Error searching lyrics: ${error instanceof Error ? error.message : String(error)}`);
+      throw fetchError;
     }
   }
 
   /**
-   * Try to find an exact match for the track
+   * Build the ordered list of search queries for a track
    */
-  private async findExactMatch(metadata: TrackMetadata): Promise<LyricResult | null> {
-    try {
-      const params = new URLSearchParams({
-        artist_name: metadata.artist,           // FIXED: was "artist"
-        track_name: metadata.title,             // FIXED: was "track" 
-        album_name: metadata.album || '',       // FIXED: was "album"
-        duration: metadata.duration?.toString() || ''
-      });
+  private buildSearchQueries(metadata: TrackMetadata, allowTitleOnlySearch: boolean): SearchQuery[] {
+    const queries: SearchQuery[] = [
+      { label: 'artist-title', params: { trackName: metadata.title, artistName: metadata.artist, albumName: metadata.album } },
+      { label: 'keyword', params: { q: `${metadata.artist} ${metadata.title}` } }
+    ];
+
+    // Fall back to the album artist, e.g. when the artist tag lists featured artists
+    searchArtists(metadata).slice(1).forEach(albumArtist => queries.push(
+      { label: 'album-artist', params: { trackName: metadata.title, artistName: albumArtist } }
+    ));
+
+    if (allowTitleOnlySearch) {
+      queries.push({ label: 'title-only', params: { trackName: metadata.title } });
+    }
 
-      const requestUrl = `${this.apiUrl}?${params.toString()}`;
-      logger.debug('LrcLibClient', `Making exact match request: ${requestUrl}`);
-      logger.debug('LrcLibClient', `Request parameters: ${JSON.stringify({
-        artist_name: metadata.artist,
-        track_name: metadata.title,
-        album_name: metadata.album || '',
-        duration: metadata.duration?.toString() || ''
-      })}`);
-
-      try {
-        const response = await this.httpClient.get(requestUrl);
-
-        // Log response data
-        logger.debug('LrcLibClient', `Response status: ${response.status}`);
-        logger.debug('LrcLibClient', `Response data type: ${typeof response.data}`);
-        logger.debug('LrcLibClient', `Response data: ${JSON.stringify(response.data)}`);
-
-        // Handle both array and single object responses
-        if (response.data) {
-          if (Array.isArray(response.data)) {
-            // Handle array response
-            if (response.data.length > 0) {
-              logger.debug('LrcLibClient', `Found ${response.data.length} results in array response`);
-              const result = this.processApiResponse(response.data[0], metadata);
-              if (result) {
-                logger.debug('LrcLibClient', `Successfully processed result for: "${metadata.artist} - ${metadata.title}"`);
-                return result;
-              }
-            } else {
-              logger.debug('LrcLibClient', `Empty array response for exact match`);
-            }
-          } else if (typeof response.data === 'object') {
-            // Handle single object response
-            logger.debug('LrcLibClient', `Found single object response`);
-            const result = this.processApiResponse(response.data, metadata);
-            if (result) {
-              logger.debug('LrcLibClient', `Successfully processed single object result for: "${metadata.artist} - ${metadata.title}"`);
-              return result;
-            }
-          } else if (response.data === null) {
-            // Handle null response (might be returned as 200 OK with null data)
-            logger.debug('LrcLibClient', `Received null data in response`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `No data in response for exact match`);
-        }
+    return queries;
+  }
 
-        return null;
-      } catch (error) {
-        // Detailed error logging
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError;
-          logger.debug('LrcLibClient', `Axios error in exact match: ${axiosError.message}`);
-          logger.debug('LrcLibClient', `Request URL: ${requestUrl}`);
-
-          if (axiosError.response) {
-            logger.debug('LrcLibClient', `Response status: ${axiosError.response.status}`);
-            logger.debug('LrcLibClient', `Response headers: ${JSON.stringify(axiosError.response.headers)}`);
-            logger.debug('LrcLibClient', `Response data: ${JSON.stringify(axiosError.response.data)}`);
-          } else if (axiosError.request) {
-            logger.debug('LrcLibClient', `No response received: ${JSON.stringify(axiosError.request)}`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `Non-Axios error in exact match: ${error instanceof Error ? error.message : String(error)}`);
+  /**
+   * Look the track up by its signature, then run every search query, and score the de-duplicated results.
+   * An exact signature match makes the searches unnecessary.
+   */
+  private async collectCandidates(metadata: TrackMetadata, allowTitleOnlySearch: boolean): Promise<ScoredCandidate[]> {
+    const candidates = new Map<number, ScoredCandidate>();
+    const addCandidate = (record: LrcLibRecord, query: string) => {
+      if (candidates.has(record.id)) return;
+      const score = scoreCandidate(record, metadata);
+      logger.trace('LrcLibClient', `Candidate ${record.id} from ${query} scored ${score.total}: ${score.reasons.join('; ')}`);
+      candidates.set(record.id, { record, query, score });
+    };
+
+    // The signature endpoints need every field, so they only apply to fully tagged tracks
+    if (metadata.album && metadata.duration) {
+      const record = await this.getRecordBySignature({
+        trackName: metadata.title,
+        artistName: metadata.artist,
+        albumName: metadata.album,
+        duration: metadata.duration
+      });
+      if (record) {
+        addCandidate(record, 'signature');
+        if (candidates.get(record.id)!.score.exact && this.hasLyricsContent(record)) {
+          logger.debug('LrcLibClient', `Exact signature match ${record.id} for "${metadata.artist} - ${metadata.title}"`);
+          return [...candidates.values()];
         }
-        throw error;
       }
-    } catch (error) {
-      logger.debug('LrcLibClient', `Error in exact match: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
     }
+
+    for (const query of this.buildSearchQueries(metadata, allowTitleOnlySearch)) {
+      const records = await this.searchRecords(query.params, `${query.label} search`);
+      records.forEach(record => addCandidate(record, query.label));
+    }
+
+    logger.debug('LrcLibClient', `Collected ${candidates.size} unique candidates for "${metadata.artist} - ${metadata.title}"`);
+    return [...candidates.values()];
   }
 
   /**
-  * Search by artist and title only
-  */
-  private async findByArtistAndTitle(metadata: TrackMetadata): Promise<LyricResult | null> {
-    try {
-      const params = new URLSearchParams({
-        artist_name: metadata.artist,
-        track_name: metadata.title
-      });
+   * POST /api/request-challenge: a proof-of-work challenge to solve before publishing
+   */
+  async requestChallenge(): Promise<LrcLibChallenge> {
+    const challenge = await withRetry(() => this.post('/api/request-challenge', undefined, {}, 'publish challenge'), this.network, 'publish challenge');
+    if (typeof challenge?.prefix !== 'string' || typeof challenge.target !== 'string' || !/^[0-9a-f]+$/i.test(challenge.target)) {
+      throw new Error(`Unexpected publish challenge response: ${JSON.stringify(challenge)}`);
+    }
+    return { prefix: challenge.prefix, target: challenge.target };
+  }
 
-      const requestUrl = `${this.apiUrl}?${params.toString()}`;
-      logger.debug('LrcLibClient', `Making artist/title request: ${requestUrl}`);
-      logger.debug('LrcLibClient', `Request parameters: ${JSON.stringify({
-        artist_name: metadata.artist,
-        track_name: metadata.title
-      })}`);
-
-      try {
-        const response = await this.httpClient.get(requestUrl);
-
-        // Log response data
-        logger.debug('LrcLibClient', `Response status: ${response.status}`);
-        logger.debug('LrcLibClient', `Response data type: ${typeof response.data}`);
-        logger.debug('LrcLibClient', `Response data: ${JSON.stringify(response.data)}`);
-
-        // Handle both array and single object responses
-        if (response.data) {
-          if (Array.isArray(response.data)) {
-            // Handle array response
-            if (response.data.length > 0) {
-              logger.debug('LrcLibClient', `Found ${response.data.length} results in array response`);
-              const result = this.processApiResponse(response.data[0], metadata);
-              if (result) {
-                logger.debug('LrcLibClient', `Successfully processed result for: "${metadata.artist} - ${metadata.title}"`);
-                return result;
-              }
-            } else {
-              logger.debug('LrcLibClient', `Empty array response for artist/title search`);
-            }
-          } else if (typeof response.data === 'object') {
-            // Handle single object response
-            logger.debug('LrcLibClient', `Found single object response`);
-            const result = this.processApiResponse(response.data, metadata);
-            if (result) {
-              logger.debug('LrcLibClient', `Successfully processed single object result for: "${metadata.artist} - ${metadata.title}"`);
-              return result;
-            }
-          } else if (response.data === null) {
-            // Handle null response (might be returned as 200 OK with null data)
-            logger.debug('LrcLibClient', `Received null data in response`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `No data in response for artist/title search`);
-        }
+  /**
+   * POST /api/publish with the token of a solved challenge ("prefix:nonce").
+   * Not retried, as each token can only be used once.
+   */
+  async publishLyrics(body: LrcLibPublishRequest, publishToken: string): Promise<void> {
+    await this.post('/api/publish', body, { 'X-Publish-Token': publishToken }, 'publish');
+  }
 
-        return null;
-      } catch (error) {
-        // Detailed error logging
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError;
-          logger.debug('LrcLibClient', `Axios error in artist/title search: ${axiosError.message}`);
-          logger.debug('LrcLibClient', `Request URL: ${requestUrl}`);
-
-          if (axiosError.response) {
-            logger.debug('LrcLibClient', `Response status: ${axiosError.response.status}`);
-            logger.debug('LrcLibClient', `Response headers: ${JSON.stringify(axiosError.response.headers)}`);
-            logger.debug('LrcLibClient', `Response data: ${JSON.stringify(axiosError.response.data)}`);
-          } else if (axiosError.request) {
-            logger.debug('LrcLibClient', `No response received: ${JSON.stringify(axiosError.request)}`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `Non-Axios error in artist/title search: ${error instanceof Error ? error.message : String(error)}`);
-        }
-        throw error;
-      }
-    } catch (error) {
-      logger.debug('LrcLibClient', `Error in artist/title search: ${error instanceof Error ? error.message : String(error)}`);
-      throw new LyricsFetchError(metadata.artist, metadata.title, error instanceof Error ? error.message : String(error));
+  private baseUrl(): string {
+    return this.api.baseUrl.replace(/\/+$/, '');
+  }
+
+  private async post(
+    endpoint: string,
+    body: LrcLibPublishRequest | undefined,
+    headers: Record<string, string>,
+    label: string
+  ): Promise<Partial<LrcLibChallenge> | null> {
+    const { httpClient } = this;
+    if (!httpClient.post) {
+      throw new ConfigurationError('The HTTP client of this LrcLibClient cannot send POST requests', { endpoint });
     }
+
+    const requestUrl = `${this.baseUrl()}${endpoint}`;
+    logger.debug('LrcLibClient', `Making ${label} request: POST ${requestUrl}`);
+    const response = await this.scheduler.schedule(() =>
+      httpClient.post!(requestUrl, body, { headers, timeout: this.network.timeoutMs }));
+    logger.debug('LrcLibClient', `Response status: ${response.status}`);
+    return response.data ?? null;
   }
 
   /**
-   * Search by title only as a last resort
+   * GET an API endpoint through the scheduler, returning the response body or null for a 404.
+   * Transient failures are retried; other errors are thrown as they are.
    */
-  private async findByTitleOnly(metadata: TrackMetadata): Promise<LyricResult | null> {
-    try {
-      const params = new URLSearchParams({
-        track_name: metadata.title
-      });
-
-      const requestUrl = `${this.apiUrl}?${params.toString()}`;
-      logger.debug('LrcLibClient', `Making title-only request: ${requestUrl}`);
-      logger.debug('LrcLibClient', `Request parameters: ${JSON.stringify({
-        track_name: metadata.title
-      })}`);
-
-      try {
-        const response = await this.httpClient.get(requestUrl);
-
-        // Log response data
-        logger.debug('LrcLibClient', `Response status: ${response.status}`);
-        logger.debug('LrcLibClient', `Response data type: ${typeof response.data}`);
-        logger.debug('LrcLibClient', `Response data: ${JSON.stringify(response.data)}`);
-
-        // Handle both array and single object responses
-        if (response.data) {
-          if (Array.isArray(response.data)) {
-            // Handle array response
-            if (response.data.length > 0) {
-              // For title-only searches, we should be more careful with the results
-              logger.debug('LrcLibClient', `Found ${response.data.length} results for title-only search: "${metadata.title}"`);
-              const bestMatch = this.findBestMatch(response.data, metadata);
-              if (bestMatch) {
-                logger.debug('LrcLibClient', `Selected best match: ${JSON.stringify({
-                  artist: bestMatch.artistName,
-                  title: bestMatch.trackName,
-                  album: bestMatch.albumName
-                })}`);
-                const result = this.processApiResponse(bestMatch, metadata);
-                if (result) {
-                  logger.debug('LrcLibClient', `Found title-only match for: "${metadata.title}"`);
-                  return result;
-                }
-              } else {
-                logger.debug('LrcLibClient', `No best match found among ${response.data.length} results`);
-              }
-            } else {
-              logger.debug('LrcLibClient', `Empty array response for title-only search`);
-            }
-          } else if (typeof response.data === 'object') {
-            // Handle single object response
-            logger.debug('LrcLibClient', `Found single object response for title-only search`);
-            const result = this.processApiResponse(response.data, metadata);
-            if (result) {
-              logger.debug('LrcLibClient', `Successfully processed single object result for title-only search: "${metadata.title}"`);
-              return result;
-            }
-          } else if (response.data === null) {
-            // Handle null response (might be returned as 200 OK with null data)
-            logger.debug('LrcLibClient', `Received null data in title-only response`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `No data in response for title-only search`);
-        }
+  private async request(endpoint: string, params: Record<string, string>, label: string): Promise<unknown> {
+    const query = new URLSearchParams(params).toString();
+    const requestUrl = `${this.baseUrl()}${endpoint}${query ? `?${query}` : ''}`;
+    logger.debug('LrcLibClient', `Making ${label} request: ${requestUrl}`);
 
+    try {
+      const response = await withRetry(
+        () => this.scheduler.schedule(() => this.httpClient.get(requestUrl, { timeout: this.network.timeoutMs })),
+        this.network,
+        label
+      );
+      logger.debug('LrcLibClient', `Response status: ${response.status}`);
+      return response.data ?? null;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        logger.debug('LrcLibClient', `Nothing found for ${label}`);
         return null;
-      } catch (error) {
-        // Detailed error logging
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError;
-          logger.debug('LrcLibClient', `Axios error in title-only search: ${axiosError.message}`);
-          logger.debug('LrcLibClient', `Request URL: ${requestUrl}`);
-
-          if (axiosError.response) {
-            logger.debug('LrcLibClient', `Response status: ${axiosError.response.status}`);
-            logger.debug('LrcLibClient', `Response headers: ${JSON.stringify(axiosError.response.headers)}`);
-            logger.debug('LrcLibClient', `Response data: ${JSON.stringify(axiosError.response.data)}`);
-          } else if (axiosError.request) {
-            logger.debug('LrcLibClient', `No response received: ${JSON.stringify(axiosError.request)}`);
-          }
-        } else {
-          logger.debug('LrcLibClient', `Non-Axios error in title-only search: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      // Detailed error logging
+      if (axios.isAxiosError(error)) {
+        const axiosError = error as AxiosError;
+        logger.debug('LrcLibClient', `Axios error in ${label}: ${axiosError.message}`);
+        logger.debug('LrcLibClient', `Request URL: ${requestUrl}`);
+
+        if (axiosError.response) {
+          logger.debug('LrcLibClient', `Response status: ${axiosError.response.status}`);
+          logger.debug('LrcLibClient', `Response headers: ${JSON.stringify(axiosError.response.headers)}`);
+          logger.debug('LrcLibClient', `Response data: ${JSON.stringify(axiosError.response.data)}`);
+        } else if (axiosError.request) {
+          logger.debug('LrcLibClient', `No response received for ${label}`);
         }
-        throw error;
+      } else {
+        logger.debug('LrcLibClient', `Non-Axios error in ${label}: ${error instanceof Error ? error.message : String(error)}`);
       }
-    } catch (error) {
-      logger.debug('LrcLibClient', `Error in title-only search: ${error instanceof Error ? error.message : String(error)}`);
-      throw new LyricsFetchError(metadata.artist, metadata.title, error instanceof Error ? error.message : String(error));
+      throw error;
     }
   }
 
   /**
-   * Find the best match from multiple results
+   * Order the candidates above the confidence threshold from best to worst.
+   * When synced lyrics are preferred, synced candidates rank ahead of better plain ones.
    */
-  private findBestMatch(results: any[], metadata: TrackMetadata): any {
-    logger.debug('LrcLibClient', `Finding best match among ${results.length} results for "${metadata.artist} - ${metadata.title}"`);
-
-    // First look for artist name similarity
-    const artistMatches = results.filter(result => {
-      const resultArtist = result.artistName?.toLowerCase() || '';
-      const searchArtist = metadata.artist.toLowerCase();
-      const isMatch = resultArtist.includes(searchArtist) || searchArtist.includes(resultArtist);
-      logger.debug('LrcLibClient', `Artist match check: "${resultArtist}" vs "${searchArtist}" = ${isMatch}`);
-      return isMatch;
-    });
+  private rankCandidates(
+    candidates: ScoredCandidate[],
+    preferSynced: boolean,
+    minConfidence: number
+  ): ScoredCandidate[] {
+    const accepted = candidates
+      .filter(candidate => this.hasLyricsContent(candidate.record))
+      .filter(candidate => candidate.score.total >= minConfidence)
+      .sort((a, b) => b.score.total - a.score.total);
+
+    if (!preferSynced || accepted.length === 0) {
+      return accepted;
+    }
 
-    if (artistMatches.length > 0) {
-      logger.debug('LrcLibClient', `Found ${artistMatches.length} artist matches, selecting first match`);
-      return artistMatches[0];
+    const isSynced = (candidate: ScoredCandidate) => !!(candidate.record.syncedLyrics || candidate.record.instrumental);
+    const synced = accepted.filter(isSynced);
+    if (synced.length === 0) {
+      logger.debug('LrcLibClient', `No synced candidate above threshold, using plain lyrics as fallback`);
     }
 
-    // If no artist matches, just take the first result
-    logger.debug('LrcLibClient', `No artist matches found, falling back to first result`);
-    return results[0];
+    return [...synced, ...accepted.filter(candidate => !isSynced(candidate))];
   }
 
-
   /**
-   * Process API response into standardized LyricResult
+   * How a candidate was matched; candidates only found by the title-only search report that stage
    */
-  private processApiResponse(data: any, metadata: TrackMetadata): LyricResult | null {
-    if (!data) {
-      logger.debug('LrcLibClient', `Cannot process API response: data is null or undefined`);
-      return null;
-    }
+  private matchStage(candidate: ScoredCandidate): MatchStage {
+    if (candidate.query === 'title-only') return 'title-only';
+    return candidate.score.exact ? 'exact' : 'artist-title';
+  }
 
-    // Check if it's an empty object
-    if (typeof data === 'object' && Object.keys(data).length === 0) {
-      logger.debug('LrcLibClient', `Cannot process API response: data is an empty object`);
-      return null;
-    }
+  private hasLyricsContent(record: LrcLibRecord): boolean {
+    return !!(record.syncedLyrics || record.plainLyrics || record.instrumental);
+  }
 
-    // Log raw response data for debugging
-    logger.debug('LrcLibClient', `Processing raw API data: ${JSON.stringify(data)}`);
-
-    // Handle different field name possibilities for artist
-    const artist =
-      data.artistName ||
-      data.artist_name ||
-      data.artist ||
-      metadata.artist;
-
-    // Handle different field name possibilities for title
-    const title =
-      data.trackName ||
-      data.track_name ||
-      data.title ||
-      metadata.title;
-
-    // Handle different field name possibilities for album
-    const album =
-      data.albumName ||
-      data.album_name ||
-      data.album ||
-      metadata.album ||
-      '';
-
-    // Handle different field name possibilities for lyrics
-    const syncedLyrics =
-      data.syncedLyrics ||
-      data.synced_lyrics ||
-      data.lrc ||
-      null;
-
-    const plainLyrics =
-      data.plainLyrics ||
-      data.plain_lyrics ||
-      data.text ||
-      null;
-
-    // Check if we have any lyrics at all
-    if (!syncedLyrics && !plainLyrics && !data.instrumental) {
-      logger.debug('LrcLibClient', `No lyrics content in API response`);
+  /**
+   * Convert a record into a LyricResult, or null when it has no lyrics
+   */
+  private toLyricResult(record: LrcLibRecord, candidate?: ScoredCandidate): LyricResult | null {
+    if (!this.hasLyricsContent(record)) {
+      logger.debug('LrcLibClient', `No lyrics content in record ${record.id}`);
       return null;
     }
 
-    const result = {
-      artist,
-      title,
-      album,
-      syncedLyrics,
-      plainLyrics,
-      source: 'lrclib.net',
-      instrumental: !!data.instrumental
+    return {
+      artist: record.artistName,
+      title: record.trackName,
+      album: record.albumName ?? undefined,
+      syncedLyrics: record.syncedLyrics,
+      plainLyrics: record.plainLyrics,
+      source: this.name,
+      instrumental: record.instrumental,
+      score: candidate?.score.total,
+      matchReasons: candidate ? [`query: ${candidate.query}`, ...candidate.score.reasons] : undefined,
+      matchStage: candidate ? this.matchStage(candidate) : undefined,
+      durationDelta: candidate?.score.durationDelta
     };
-
-    logger.debug('LrcLibClient', `Processed API response: ${JSON.stringify({
-      artist: result.artist,
-      title: result.title,
-      album: result.album,
-      hasSyncedLyrics: !!result.syncedLyrics,
-      hasPlainLyrics: !!result.plainLyrics,
-      instrumental: result.instrumental
-    })}`);
-
-    return result;
   }
-}
\ No newline at end of file
+}
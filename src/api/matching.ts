@@ -0,0 +1,206 @@
+import { TrackMetadata, MatchScore, DurationMismatchPolicy, LyricResult } from '../types';
+
+// Relative weight of each field in the overall confidence score
+const SCORE_WEIGHTS = {
+  TITLE: 0.4,
+  ARTIST: 0.3,
+  ALBUM: 0.1,
+  DURATION: 0.2
+};
+
+// Duration deltas (seconds) considered the same recording, and where the score reaches zero
+const DURATION_EXACT_SECONDS = 2;
+const DURATION_ZERO_SECONDS = 10;
+
+// Minimum confidence score a candidate needs to be accepted when none is configured
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// LRCLIB treats recordings more than ±2 seconds apart as different tracks
+export const DEFAULT_MAX_DURATION_DELTA_SECONDS = 2;
+
+// Score multiplier applied to candidates outside the duration tolerance in 'downrank' mode
+const DURATION_MISMATCH_PENALTY = 0.5;
+
+// Score used for a field when either side is missing, so it neither helps nor sinks a candidate
+const UNKNOWN_FIELD_SCORE = 0.5;
+
+// Album artists that stand for no one in particular, so they are never searched for
+const COMPILATION_ARTISTS = ['various artists', 'various', 'va', 'compilation'];
+
+/**
+ * A candidate record as returned by the LRCLIB search endpoint
+ */
+export interface MatchCandidate {
+  trackName?: string;
+  artistName?: string;
+  albumName?: string | null;
+  duration?: number | null;
+}
+
+/**
+ * Normalize a string for comparison: lowercase, strip accents, punctuation and extra whitespace
+ */
+export function normalizeForMatch(value: string | undefined): string {
+  if (!value) return '';
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Similarity between two strings in the range 0..1
+ */
+export function textSimilarity(a: string | undefined, b: string | undefined): number {
+  const left = normalizeForMatch(a);
+  const right = normalizeForMatch(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.8;
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+  const union = new Set([...leftTokens, ...rightTokens]).size;
+  return union > 0 ? (shared / union) * 0.7 : 0;
+}
+
+/**
+ * The artists a track is searched and matched by: its artist first, then its album artist
+ * when that is different and names an actual artist
+ */
+export function searchArtists(metadata: TrackMetadata): string[] {
+  const artists = [metadata.artist];
+  const albumArtist = normalizeForMatch(metadata.albumArtist);
+  if (albumArtist && albumArtist !== normalizeForMatch(metadata.artist) && !COMPILATION_ARTISTS.includes(albumArtist)) {
+    artists.push(metadata.albumArtist!);
+  }
+  return artists;
+}
+
+/**
+ * Score a duration difference in the range 0..1
+ */
+function durationSimilarity(delta: number): number {
+  if (delta <= DURATION_EXACT_SECONDS) return 1;
+  if (delta >= DURATION_ZERO_SECONDS) return 0;
+  return 1 - (delta - DURATION_EXACT_SECONDS) / (DURATION_ZERO_SECONDS - DURATION_EXACT_SECONDS);
+}
+
+function describeSimilarity(field: string, similarity: number): string {
+  if (similarity === 1) return `${field}: exact match`;
+  if (similarity >= 0.8) return `${field}: partial match (${similarity.toFixed(2)})`;
+  if (similarity > 0) return `${field}: weak match (${similarity.toFixed(2)})`;
+  return `${field}: no match`;
+}
+
+/**
+ * Score a candidate record against local track metadata
+ */
+export function scoreCandidate(candidate: MatchCandidate, metadata: TrackMetadata): MatchScore {
+  const reasons: string[] = [];
+
+  const titleScore = textSimilarity(candidate.trackName, metadata.title);
+  reasons.push(describeSimilarity('title', titleScore));
+
+  // A candidate credited to the album artist, e.g. without the featured artists, matches as well
+  const [artistScore, artistIndex] = searchArtists(metadata)
+    .map((artist, index): [number, number] => [textSimilarity(candidate.artistName, artist), index])
+    .reduce((best, current) => (current[0] > best[0] ? current : best));
+  reasons.push(describeSimilarity(artistIndex === 0 ? 'artist' : 'album artist', artistScore));
+
+  let albumScore = UNKNOWN_FIELD_SCORE;
+  if (metadata.album && candidate.albumName) {
+    albumScore = textSimilarity(candidate.albumName, metadata.album);
+    reasons.push(describeSimilarity('album', albumScore));
+  } else {
+    reasons.push('album: unknown');
+  }
+
+  let durationScore = UNKNOWN_FIELD_SCORE;
+  let durationDelta: number | undefined;
+  if (metadata.duration && candidate.duration) {
+    durationDelta = Math.abs(candidate.duration - metadata.duration);
+    durationScore = durationSimilarity(durationDelta);
+    reasons.push(`duration: ${durationDelta.toFixed(1)}s difference`);
+  } else {
+    reasons.push('duration: unknown');
+  }
+
+  const total =
+    titleScore * SCORE_WEIGHTS.TITLE +
+    artistScore * SCORE_WEIGHTS.ARTIST +
+    albumScore * SCORE_WEIGHTS.ALBUM +
+    durationScore * SCORE_WEIGHTS.DURATION;
+
+  return {
+    total: Math.round(total * 1000) / 1000,
+    durationDelta,
+    exact: titleScore === 1 && artistScore === 1 && (durationDelta === undefined || durationScore === 1),
+    reasons
+  };
+}
+
+/**
+ * Split scored candidates by the duration tolerance. In 'downrank' mode mismatched candidates
+ * are kept with a reduced score instead of being rejected.
+ */
+export function applyDurationTolerance<T extends { score: MatchScore }>(
+  candidates: T[],
+  maxDurationDelta: number,
+  durationMismatch: DurationMismatchPolicy
+): { kept: T[]; rejected: T[] } {
+  const kept: T[] = [];
+  const rejected: T[] = [];
+
+  for (const candidate of candidates) {
+    const delta = candidate.score.durationDelta;
+    if (delta === undefined || delta <= maxDurationDelta) {
+      kept.push(candidate);
+    } else if (durationMismatch === 'downrank') {
+      kept.push({
+        ...candidate,
+        score: {
+          ...candidate.score,
+          total: Math.round(candidate.score.total * DURATION_MISMATCH_PENALTY * 1000) / 1000,
+          reasons: [...candidate.score.reasons, `duration: exceeds ±${maxDurationDelta}s tolerance, down-ranked`]
+        }
+      });
+    } else {
+      rejected.push(candidate);
+    }
+  }
+
+  return { kept, rejected };
+}
+
+/**
+ * Score lyrics found with other search terms, such as a normalized search variant, against the
+ * track's own tags, keeping the score against the search terms as variantScore. Search terms keep
+ * the track's duration, so the duration difference carries over.
+ */
+export function scoreAgainstTrack(
+  lyrics: LyricResult,
+  metadata: TrackMetadata,
+  maxDurationDelta: number = DEFAULT_MAX_DURATION_DELTA_SECONDS
+): LyricResult {
+  const candidate: MatchCandidate = {
+    trackName: lyrics.title,
+    artistName: lyrics.artist,
+    albumName: lyrics.album,
+    duration: metadata.duration && lyrics.durationDelta !== undefined ? metadata.duration + lyrics.durationDelta : undefined
+  };
+  // Lyrics outside the tolerance were only found at all when down-ranking
+  const [{ score }] = applyDurationTolerance([{ score: scoreCandidate(candidate, metadata) }], maxDurationDelta, 'downrank').kept;
+
+  return {
+    ...lyrics,
+    score: score.total,
+    variantScore: lyrics.score,
+    matchStage: lyrics.matchStage === 'title-only' ? 'title-only' : score.exact ? 'exact' : 'artist-title',
+    matchReasons: [...score.reasons, ...(lyrics.matchReasons ?? []).map(reason => `variant ${reason}`)]
+  };
+}
@@ -0,0 +1,106 @@
+import { logger } from '../utils/logger';
+import { RateLimitOptions } from '../types';
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  requestsPerSecond: 5,
+  maxConcurrent: 4,
+  minIntervalMs: 0
+};
+
+/**
+ * Shared scheduler for outgoing API requests.
+ * Combines a token bucket (requests per second), a max in-flight limit and
+ * a minimum spacing between request starts.
+ */
+export class RequestScheduler {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private lastStart = 0;
+  private inFlight = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT, ...options };
+    this.tokens = this.bucketSize();
+  }
+
+  /**
+   * Update the limits; queued requests pick up the new values
+   */
+  configure(options: Partial<RateLimitOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.tokens = Math.min(this.tokens, this.bucketSize());
+    logger.debug('RequestScheduler', `Rate limit configured: ${JSON.stringify(this.options)}`);
+    this.drain();
+  }
+
+  /**
+   * Run a request once the rate limits allow it
+   */
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(() => {
+        // A task that throws synchronously still releases its slot
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            this.inFlight--;
+            this.drain();
+          });
+      });
+      this.drain();
+    });
+  }
+
+  private bucketSize(): number {
+    return Math.max(1, this.options.requestsPerSecond);
+  }
+
+  private refill(now: number): void {
+    if (this.options.requestsPerSecond <= 0) return;
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.bucketSize(), this.tokens + elapsedSeconds * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Milliseconds until the next request may start, 0 if it may start now
+   */
+  private waitTime(now: number): number {
+    const spacingWait = this.lastStart + this.options.minIntervalMs - now;
+    const tokenWait = this.options.requestsPerSecond > 0 && this.tokens < 1
+      ? ((1 - this.tokens) / this.options.requestsPerSecond) * 1000
+      : 0;
+    return Math.max(0, spacingWait, Math.ceil(tokenWait));
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0 && this.inFlight < this.options.maxConcurrent) {
+      const now = Date.now();
+      this.refill(now);
+
+      const wait = this.waitTime(now);
+      if (wait > 0) {
+        logger.trace('RequestScheduler', `Throttling request for ${wait}ms (${this.queue.length} queued)`);
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      if (this.options.requestsPerSecond > 0) {
+        this.tokens -= 1;
+      }
+      this.lastStart = now;
+      this.inFlight++;
+      const next = this.queue.shift()!;
+      next();
+    }
+  }
+}
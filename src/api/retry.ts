@@ -0,0 +1,140 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import { NetworkOptions } from '../types';
+import { LyricsFetchError, NetworkError, PublishError, RateLimitedError } from '../utils/errorHandling';
+
+export const DEFAULT_NETWORK_OPTIONS: NetworkOptions = {
+  timeoutMs: 15000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxBackoffMs: 30000
+};
+
+// Network error codes that indicate a transient failure worth retrying
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ECONNREFUSED'];
+
+/**
+ * True if the error is an HTTP 404, which LRCLIB uses for "track not found"
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+/**
+ * True for rate limiting, server errors and transient network failures
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+
+  const status = error.response?.status;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  return !!error.code && RETRYABLE_ERROR_CODES.includes(error.code);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter, capped at maxBackoffMs
+ */
+function backoffDelay(attempt: number, options: NetworkOptions): number {
+  const exponential = Math.min(options.maxBackoffMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `HTTP ${error.response.status}` : error.code || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying transient failures with backoff.
+ * Honors the Retry-After header of 429/503 responses.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: NetworkOptions,
+  label: string
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= options.maxRetries) {
+        throw error;
+      }
+
+      const retryAfter = axios.isAxiosError(error)
+        ? parseRetryAfter(error.response?.headers?.['retry-after'])
+        : undefined;
+      const delay = retryAfter ?? backoffDelay(attempt, options);
+
+      logger.warn('LrcLibClient', `${label} failed (${describeError(error)}), retry ${attempt + 1}/${options.maxRetries} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Classify a failed search once retries are exhausted: rate limiting, a network failure,
+ * or an error response from the service
+ */
+export function toFetchError(error: unknown, artist: string, title: string): LyricsFetchError {
+  if (error instanceof LyricsFetchError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new LyricsFetchError(artist, title, describeError(error), { retryable: false });
+  }
+
+  const status = error.response?.status;
+  if (status === 429) {
+    return new RateLimitedError(artist, title, parseRetryAfter(error.response?.headers?.['retry-after']));
+  }
+  if (status === undefined) {
+    return new NetworkError(artist, title, describeError(error), error.code);
+  }
+  return new LyricsFetchError(artist, title, describeError(error), { retryable: status >= 500, context: { status } });
+}
+
+/**
+ * Classify a failed publish: rate limiting, network failures and server errors may succeed later
+ */
+export function toPublishError(error: unknown, artist: string, title: string): PublishError {
+  if (error instanceof PublishError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new PublishError(artist, title, describeError(error));
+  }
+
+  const status = error.response?.status;
+  const message = error.response?.data?.message;
+  return new PublishError(artist, title, typeof message === 'string' ? message : describeError(error), {
+    retryable: status === undefined || status === 429 || status >= 500,
+    context: { status, errorCode: error.code }
+  });
+}
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { LyricResult, LyricSearchOptions, TrackMetadata, LookupCacheOptions } from '../types';
+import { normalizeForMatch } from '../api/matching';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+// Version 1 cached only the best result, whatever the search options; version 2 keys left out the API queried
+const CACHE_VERSION = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_PATH = path.join(os.homedir(), '.cache', 'lrclib-fetcher', 'lookup-cache.json');
+
+export const DEFAULT_CACHE_OPTIONS: LookupCacheOptions = {
+  enabled: false,
+  path: DEFAULT_CACHE_PATH,
+  hitTtlDays: 30,
+  missTtlDays: 7
+};
+
+/**
+ * A cached lookup: the ranked candidates, where none records a definitive miss
+ */
+interface CacheEntry {
+  storedAt: number;
+  results: LyricResult[];
+}
+
+interface CacheFile {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Statistics describing the cache contents
+ */
+export interface LookupCacheStats {
+  path: string;
+  hits: number;
+  misses: number;
+  expired: number;
+}
+
+/**
+ * On-disk cache of lyrics lookups keyed on normalized track signature, the search options and
+ * the API queried, so changing the options or the server doesn't return results found with the old ones
+ */
+export class LookupCache {
+  private readonly options: LookupCacheOptions;
+  private entries: Record<string, CacheEntry> = {};
+  private loading?: Promise<void>;
+  private dirty = false;
+
+  constructor(options: Partial<LookupCacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Build the cache key for a track searched with some options. `source` names the API queried,
+   * e.g. its base URL and whether it was limited to LRCLIB's own cache.
+   */
+  static keyFor(metadata: TrackMetadata, options: LyricSearchOptions = {}, source = ''): string {
+    return [
+      source,
+      normalizeForMatch(metadata.artist),
+      normalizeForMatch(metadata.title),
+      normalizeForMatch(metadata.album),
+      metadata.duration ? Math.round(metadata.duration) : '',
+      options.allowTitleOnlySearch ? 'title-only' : '',
+      options.preferSynced === false ? 'any' : 'synced',
+      options.minConfidence ?? '',
+      options.maxDurationDeltaSeconds ?? '',
+      options.durationMismatch ?? '',
+      options.maxCandidates ?? ''
+    ].join('|');
+  }
+
+  /**
+   * Look up a track. Returns undefined when there is no fresh entry, or the cached
+   * candidates, none for a cached miss.
+   */
+  async get(metadata: TrackMetadata, options?: LyricSearchOptions, source?: string): Promise<LyricResult[] | undefined> {
+    await this.load();
+
+    const key = LookupCache.keyFor(metadata, options, source);
+    const entry = this.entries[key];
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry, Date.now())) {
+      logger.trace('LookupCache', `Expired entry for ${key}`);
+      delete this.entries[key];
+      this.dirty = true;
+      return undefined;
+    }
+
+    logger.debug('LookupCache', `Cache ${entry.results.length > 0 ? 'hit' : 'negative hit'} for ${key}`);
+    return entry.results;
+  }
+
+  /**
+   * Store the candidates of a lookup; none records a miss
+   */
+  async set(metadata: TrackMetadata, options: LyricSearchOptions | undefined, results: LyricResult[], source?: string): Promise<void> {
+    await this.load();
+    this.entries[LookupCache.keyFor(metadata, options, source)] = { storedAt: Date.now(), results };
+    this.dirty = true;
+  }
+
+  /**
+   * Remove every entry, on disk as well
+   */
+  async clear(): Promise<void> {
+    this.entries = {};
+    this.loading = Promise.resolve();
+    this.dirty = false;
+    await fs.promises.rm(this.options.path, { force: true });
+    logger.info('LookupCache', `Cleared lookup cache at ${this.options.path}`);
+  }
+
+  async stats(): Promise<LookupCacheStats> {
+    await this.load();
+
+    const now = Date.now();
+    const stats: LookupCacheStats = { path: this.options.path, hits: 0, misses: 0, expired: 0 };
+    for (const entry of Object.values(this.entries)) {
+      if (this.isExpired(entry, now)) {
+        stats.expired++;
+      } else if (entry.results.length > 0) {
+        stats.hits++;
+      } else {
+        stats.misses++;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Write pending changes to disk, dropping expired entries
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    const now = Date.now();
+    const entries: Record<string, CacheEntry> = {};
+    for (const [key, entry] of Object.entries(this.entries)) {
+      if (!this.isExpired(entry, now)) {
+        entries[key] = entry;
+      }
+    }
+
+    const file: CacheFile = { version: CACHE_VERSION, entries };
+
+    try {
+      await writeJsonFileAtomic(this.options.path, file);
+      this.entries = entries;
+      this.dirty = false;
+      logger.debug('LookupCache', `Saved ${Object.keys(entries).length} entries to ${this.options.path}`);
+    } catch (error) {
+      logger.error('LookupCache', `Failed to save lookup cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private isExpired(entry: CacheEntry, now: number): boolean {
+    const ttlDays = entry.results.length > 0 ? this.options.hitTtlDays : this.options.missTtlDays;
+    return now - entry.storedAt > ttlDays * DAY_MS;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromDisk();
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    try {
+      const file = await readJsonFile<CacheFile>(this.options.path);
+      if (!file) return;
+      if (file.version !== CACHE_VERSION) {
+        logger.warn('LookupCache', `Ignoring lookup cache with unsupported version ${file.version}`);
+        return;
+      }
+      this.entries = file.entries || {};
+      logger.debug('LookupCache', `Loaded ${Object.keys(this.entries).length} entries from ${this.options.path}`);
+    } catch (error) {
+      logger.warn('LookupCache', `Failed to read lookup cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
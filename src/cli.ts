@@ -1,7 +1,32 @@
 #!/usr/bin/env node
 
 import { program } from 'commander';
-import { createLyricsFetcher } from './index';
+import {
+  createLyricsFetcher,
+  LookupCache,
+  LibraryWatcher,
+  DEFAULT_CACHE_PATH,
+  DEFAULT_STATE_PATH,
+  DEFAULT_REVIEW_PATH,
+  ReviewQueue,
+  runReviewSession,
+  OrchestratorOptions,
+  LyricsFormat,
+  ProcessResult,
+  PlanAction,
+  ReportFormat,
+  REPORT_FORMATS,
+  buildRunReport,
+  writeRunReport,
+  isLyricsFormat,
+  ErrorCode,
+  ERROR_CODE_DESCRIPTIONS,
+  errorCodeOf,
+  PublishResult,
+  PublishStatus,
+  NormalizationStep,
+  NORMALIZATION_STEPS
+} from './index';
 import chalk from 'chalk';
 import ora from 'ora';
 import path from 'path';
@@ -9,6 +34,251 @@ import fs from 'fs';
 
 const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8'));
 
+/**
+ * Split a comma-separated option value
+ */
+function parseList(value: string): string[] {
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse repeated path template options: a bare template applies to every format,
+ * "format=template" to one format only
+ */
+function parsePathTemplates(values: string[] = []): { pathTemplate?: string; pathTemplates: Partial<Record<LyricsFormat, string>> } {
+  let pathTemplate: string | undefined;
+  const pathTemplates: Partial<Record<LyricsFormat, string>> = {};
+  for (const value of values) {
+    const format = /^(\w+)=/.exec(value);
+    if (format && isLyricsFormat(format[1])) {
+      pathTemplates[format[1]] = value.slice(format[0].length);
+    } else {
+      pathTemplate = value;
+    }
+  }
+  // Leave the default template in place unless one was given
+  return pathTemplate ? { pathTemplate, pathTemplates } : { pathTemplates };
+}
+
+/**
+ * Map parsed CLI options onto orchestrator options
+ */
+function buildFetcherOptions(options: any): Partial<OrchestratorOptions> {
+  return {
+    logging: {
+      level: options.logLevel,
+      logToFile: !!options.logFile,
+      logFilePath: options.logFile
+    },
+    search: {
+      allowTitleOnlySearch: options.allowTitleOnly,
+      preferSynced: options.preferSynced,
+      minConfidence: parseFloat(options.minConfidence),
+      maxDurationDeltaSeconds: parseFloat(options.maxDurationDelta),
+      durationMismatch: options.durationMismatch
+    },
+    file: {
+      skipExisting: options.skipExisting,
+      overwriteExisting: options.overwrite,
+      output: options.output,
+      lrcHeaders: options.lrcHeaders,
+      formats: parseList(options.format) as LyricsFormat[],
+      ...parsePathTemplates(options.pathTemplate),
+      lyricsRoot: options.lyricsRoot
+    },
+    batch: {
+      enabled: true,
+      size: parseInt(options.batchSize),
+      delayMs: parseInt(options.delay)
+    },
+    rateLimit: {
+      requestsPerSecond: parseFloat(options.requestsPerSecond),
+      maxConcurrent: parseInt(options.maxConcurrentRequests)
+    },
+    lrclib: {
+      baseUrl: options.lrclibUrl,
+      cachedOnly: options.cachedOnly
+    },
+    network: {
+      timeoutMs: parseInt(options.timeout),
+      maxRetries: parseInt(options.maxRetries),
+      baseDelayMs: 500,
+      maxBackoffMs: parseInt(options.maxBackoff)
+    },
+    cache: {
+      enabled: options.cache,
+      path: options.cachePath,
+      hitTtlDays: 30,
+      missTtlDays: 7
+    },
+    providers: parseList(options.providers),
+    dryRun: options.dryRun,
+    overrides: options.overrides,
+    local: options.localLyrics ? { directory: options.localLyrics } : undefined,
+    state: {
+      enabled: options.incremental,
+      path: options.statePath,
+      notFoundRetryDays: 7,
+      errorRetryDays: 1
+    },
+    normalization: {
+      enabled: options.normalize,
+      steps: parseList(options.normalizeSteps) as NormalizationStep[]
+    },
+    metadata: {
+      concurrency: parseInt(options.metadataWorkers)
+    },
+    scan: {
+      extensions: parseList(options.includeExt ?? ''),
+      excludeExtensions: parseList(options.excludeExt ?? ''),
+      include: options.include ?? [],
+      exclude: options.exclude ?? [],
+      maxDepth: options.maxDepth !== undefined ? parseInt(options.maxDepth) : undefined,
+      followSymlinks: options.followSymlinks,
+      ignoreFiles: options.ignoreFiles
+    },
+    review: {
+      enabled: options.review,
+      path: options.reviewPath,
+      threshold: parseFloat(options.reviewThreshold),
+      candidates: parseInt(options.reviewCandidates)
+    }
+  };
+}
+
+/**
+ * Print failed files grouped by error code
+ */
+function printErrorSummary(results: ProcessResult[]): void {
+  // Queued tracks are waiting for a decision rather than failed
+  const queued = results.filter(r => errorCodeOf(r.error) === 'REVIEW_PENDING');
+  if (queued.length > 0) {
+    console.log(chalk.cyan(`\n${queued.length} ambiguous matches queued for review, run "lrclib review" to choose their lyrics`));
+  }
+
+  const errors = results.filter(r => !r.success && !queued.includes(r));
+  if (errors.length === 0) return;
+
+  console.log(chalk.yellow(`\n${errors.length} files failed:`));
+
+  // Group errors by code; messages differ per track, codes don't
+  const errorCodes: Partial<Record<ErrorCode, number>> = {};
+  errors.forEach(result => {
+    const code = errorCodeOf(result.error);
+    errorCodes[code] = (errorCodes[code] || 0) + 1;
+  });
+
+  (Object.entries(errorCodes) as Array<[ErrorCode, number]>)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([code, count]) => {
+      console.log(chalk.yellow(`  - ${count} files: ${code} (${ERROR_CODE_DESCRIPTIONS[code]})`));
+    });
+}
+
+/**
+ * Show a path relative to the current directory when it is inside it
+ */
+function displayPath(filePath: string): string {
+  const relative = path.relative(process.cwd(), filePath);
+  return relative && !relative.startsWith('..') ? relative : filePath;
+}
+
+const PLAN_COLORS: Record<PlanAction, (text: string) => string> = {
+  'write-synced': chalk.green,
+  'write-plain': chalk.green,
+  'mark-instrumental': chalk.cyan,
+  'skip-existing': chalk.gray,
+  'overwrite': chalk.yellow,
+  'no-match': chalk.yellow,
+  'queue-review': chalk.cyan,
+  'excluded': chalk.gray,
+  'error': chalk.red
+};
+
+/**
+ * Print what a dry run would do with each file, followed by a count per action
+ */
+function printPlan(results: ProcessResult[]): void {
+  const counts: Partial<Record<PlanAction, number>> = {};
+
+  console.log(chalk.cyan('\nDry run, nothing was written:'));
+  for (const { filePath, plan } of results) {
+    if (!plan) continue;
+    counts[plan.action] = (counts[plan.action] || 0) + 1;
+
+    const action = plan.action === 'overwrite' && plan.lyricsType ? `overwrite (${plan.lyricsType})` : plan.action;
+    console.log(`  ${PLAN_COLORS[plan.action](action.padEnd(22))} ${displayPath(filePath)}`);
+    if (plan.candidate) {
+      const { source, artist, title, score } = plan.candidate;
+      console.log(chalk.gray(`      ${artist} - ${title} from ${source}${score !== undefined ? `, score ${score.toFixed(2)}` : ''}`));
+    }
+    plan.paths.forEach(outputPath => console.log(chalk.gray(`      -> ${displayPath(outputPath)}`)));
+    if (plan.reason) {
+      console.log(chalk.gray(`      ${plan.reason}`));
+    }
+  }
+
+  console.log(chalk.cyan('\nPlanned actions:'));
+  Object.entries(counts).forEach(([action, count]) => console.log(`  ${action}: ${count}`));
+}
+
+/**
+ * Write a dry-run plan as JSON
+ */
+async function exportPlan(planPath: string, directory: string, results: ProcessResult[]): Promise<void> {
+  const plan = {
+    generatedAt: new Date().toISOString(),
+    directory: path.resolve(directory),
+    files: results.map(({ filePath, metadata, plan }) => ({
+      filePath,
+      artist: metadata.artist,
+      title: metadata.title,
+      ...plan
+    }))
+  };
+  await fs.promises.mkdir(path.dirname(path.resolve(planPath)), { recursive: true });
+  await fs.promises.writeFile(planPath, JSON.stringify(plan, null, 2) + '\n', 'utf8');
+  console.log(chalk.green(`Plan written to: ${planPath}`));
+}
+
+const PUBLISH_COLORS: Record<PublishStatus, (text: string) => string> = {
+  'published': chalk.green,
+  'would-publish': chalk.green,
+  'already-published': chalk.gray,
+  'no-lyrics': chalk.gray,
+  'failed': chalk.red
+};
+
+/**
+ * Print what happened to each published file, with the payload in a dry run, followed by a count per status
+ */
+function printPublishResults(results: PublishResult[], dryRun: boolean): void {
+  const counts: Partial<Record<PublishStatus, number>> = {};
+
+  if (dryRun) {
+    console.log(chalk.cyan('\nDry run, nothing was published:'));
+  }
+  for (const { filePath, status, lyricsPath, payload, error } of results) {
+    counts[status] = (counts[status] || 0) + 1;
+    // Tracks without local lyrics are expected in a library and only counted
+    if (status === 'no-lyrics') continue;
+
+    console.log(`  ${PUBLISH_COLORS[status](status.padEnd(18))} ${displayPath(filePath)}`);
+    if (lyricsPath && lyricsPath !== filePath) {
+      console.log(chalk.gray(`      lyrics: ${displayPath(lyricsPath)}`));
+    }
+    if (error) {
+      console.log(chalk.gray(`      [${errorCodeOf(error)}] ${error.message}`));
+    }
+    if (status === 'would-publish' && payload) {
+      console.log(chalk.gray(JSON.stringify(payload, null, 2).replace(/^/gm, '      ')));
+    }
+  }
+
+  console.log(chalk.cyan('\nPublish results:'));
+  Object.entries(counts).forEach(([status, count]) => console.log(`  ${status}: ${count}`));
+}
+
 program
   .name('lrclib')
   .description('Fetch synchronized lyrics for your music files')
@@ -19,10 +289,51 @@ program
   .option('-r, --recursive', 'Scan directories recursively', true)
   .option('--no-skip-existing', 'Don\'t skip files that already have lyrics')
   .option('-o, --overwrite', 'Overwrite existing lyrics files', false)
+  .option('--output <mode>', 'Where to write lyrics (sidecar, embed, both)', 'sidecar')
+  .option('--format <formats>', 'Comma-separated sidecar formats (lrc, srt, vtt, ttml, json)', 'lrc')
+  .option('--path-template <template...>', 'Sidecar path template, optionally for one format, e.g. srt={dir}/{basename}.en.{ext}')
+  .option('--lyrics-root <directory>', 'Root folder for lyrics files, used by the {lyricsRoot} placeholder')
+  .option('--dry-run', 'Search and decide as usual but write nothing; print what would be done', false)
+  .option('--plan-file <path>', 'With --dry-run, also write the plan as JSON to this path')
+  .option('--report <path>', 'Write a report of the run to this path')
+  .option('--report-format <format>', 'Report format (json, csv, junit)', 'json')
+  .option('--lrc-headers', 'Add artist, title, album and length headers to synced lyrics', false)
   .option('-b, --batch-size <number>', 'Number of files to process in parallel', '5')
-  .option('-d, --delay <number>', 'Delay between API requests in milliseconds', '1000')
+  .option('--metadata-workers <number>', 'Number of files whose tags are read in parallel', '4')
+  .option('--include-ext <extensions>', 'Comma-separated audio extensions to process, e.g. flac,opus (default: every supported format)')
+  .option('--exclude-ext <extensions>', 'Comma-separated audio extensions to skip')
+  .option('--include <globs...>', 'Only process files matching one of these globs, relative to the music folder')
+  .option('--exclude <globs...>', 'Skip files and folders matching any of these globs, e.g. "**/Audiobooks/**"')
+  .option('--max-depth <number>', 'How many folder levels below the music folder to scan (default: unlimited)')
+  .option('--follow-symlinks', 'Follow symlinked files and folders; each file is still processed once', false)
+  .option('--no-ignore-files', 'Ignore .lrclibignore files')
+  .option('-d, --delay <number>', 'Minimum delay between API requests in milliseconds, on top of --requests-per-second', '0')
+  .option('--requests-per-second <number>', 'Maximum API requests per second', '5')
+  .option('--max-concurrent-requests <number>', 'Maximum API requests in flight at once', '4')
+  .option('--timeout <ms>', 'API request timeout in milliseconds', '15000')
+  .option('--max-retries <number>', 'Retries for rate-limited, server or network errors', '3')
+  .option('--max-backoff <ms>', 'Maximum delay between retries in milliseconds', '30000')
   .option('--allow-title-only', 'Allow searching by title only if artist search fails', false)
   .option('--prefer-synced', 'Prefer synchronized lyrics over plain text', true)
+  .option('--min-confidence <number>', 'Minimum match confidence (0-1) to accept a result', '0.6')
+  .option('--max-duration-delta <seconds>', 'Maximum duration difference in seconds for a match', '2')
+  .option('--duration-mismatch <policy>', 'How to treat duration mismatches (reject, downrank)', 'reject')
+  .option('--no-normalize', 'Only search with the tags as they are, without normalized variants')
+  .option('--normalize-steps <steps>', 'Comma-separated normalization steps, tried in order', NORMALIZATION_STEPS.join(','))
+  .option('--lrclib-url <url>', 'LRCLIB API root, e.g. a self-hosted mirror', 'https://lrclib.net')
+  .option('--cached-only', 'Only use lyrics LRCLIB already has, without slow lookups in external sources', false)
+  .option('--providers <names>', 'Comma-separated lyrics providers to try in order', 'lrclib')
+  .option('--local-lyrics <directory>', 'Folder of existing .lrc files used by the "local" provider')
+  .option('--no-cache', 'Bypass the persistent lookup cache')
+  .option('--cache-path <path>', 'Path to the lookup cache file', DEFAULT_CACHE_PATH)
+  .option('--clear-cache', 'Clear the lookup cache before processing', false)
+  .option('--no-incremental', 'Reprocess every file, ignoring the scan state from previous runs')
+  .option('--state-path <path>', 'Path to the incremental scan state file', DEFAULT_STATE_PATH)
+  .option('--overrides <path>', 'YAML or JSON file of per-track overrides (pinned records, lyrics files, instrumental, excluded)')
+  .option('--review', 'Queue ambiguous matches for "lrclib review" instead of writing them', false)
+  .option('--review-threshold <number>', 'Matches scoring below this (0-1) are ambiguous; title-only matches always are', '0.8')
+  .option('--review-candidates <number>', 'Candidates kept for each queued track', '5')
+  .option('--review-path <path>', 'Path to the review queue file', DEFAULT_REVIEW_PATH)
   .option('--log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .option('--log-file <path>', 'Path to log file')
   .action(async (directory, options) => {
@@ -33,33 +344,24 @@ program
         process.exit(1);
       }
       
+      if (options.report && !REPORT_FORMATS.includes(options.reportFormat)) {
+        console.error(chalk.red(`Unknown report format: ${options.reportFormat} (expected ${REPORT_FORMATS.join(', ')})`));
+        process.exit(1);
+      }
+
+      if (options.clearCache) {
+        await new LookupCache({ path: options.cachePath }).clear();
+      }
+
       // Setup fetcher
-      const fetcher = createLyricsFetcher({
-        logging: {
-          level: options.logLevel,
-          logToFile: !!options.logFile,
-          logFilePath: options.logFile
-        },
-        search: {
-          allowTitleOnlySearch: options.allowTitleOnly,
-          preferSynced: options.preferSynced
-        },
-        file: {
-          skipExisting: options.skipExisting,
-          overwriteExisting: options.overwrite
-        },
-        batch: {
-          enabled: true,
-          size: parseInt(options.batchSize),
-          delayMs: parseInt(options.delay)
-        }
-      });
+      const fetcher = createLyricsFetcher(buildFetcherOptions(options));
       
       // Setup spinner
       const spinner = ora('Scanning directory...').start();
       let processedCount = 0;
       let totalCount = 0;
       let successCount = 0;
+      const startedAt = Date.now();
       
       // Process directory
       const results = await fetcher.processDirectory(directory, {
@@ -78,26 +380,184 @@ program
       // Final results
       spinner.succeed(`Processed ${results.length} files (${results.filter(r => r.success).length} successful)`);
       
-      // Show error summary if any
-      const errors = results.filter(r => !r.success);
-      if (errors.length > 0) {
-        console.log(chalk.yellow(`\n${errors.length} files failed:`));
-        
-        // Group errors by type
-        const errorTypes = {};
-        errors.forEach(error => {
-          const message = error.error?.message || 'Unknown error';
-          errorTypes[message] = (errorTypes[message] || 0) + 1;
-        });
-        
-        Object.entries(errorTypes).forEach(([message, count]) => {
-          console.log(chalk.yellow(`  - ${count} files: ${message}`));
+      if (options.report) {
+        const report = buildRunReport(results, { directory, durationMs: Date.now() - startedAt });
+        await writeRunReport(options.report, report, options.reportFormat as ReportFormat);
+        console.log(chalk.green(`Report written to: ${options.report}`));
+      }
+
+      if (options.dryRun) {
+        printPlan(results);
+        if (options.planFile) {
+          await exportPlan(options.planFile, directory, results);
+        }
+      } else {
+        printErrorSummary(results);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('watch')
+  .description('Watch a directory and fetch lyrics as new music lands')
+  .argument('<directory>', 'Directory containing music files')
+  .option('--debounce <ms>', 'Quiet period after file changes before processing them', '5000')
+  .option('--no-initial-scan', 'Don\'t process the whole directory before watching')
+  .action(async (directory, _options, command) => {
+    // Fetch options are defined on the root program
+    const options = command.optsWithGlobals();
+
+    try {
+      if (!fs.existsSync(directory)) {
+        console.error(chalk.red(`Directory not found: ${directory}`));
+        process.exit(1);
+      }
+
+      const fetcherOptions = buildFetcherOptions(options);
+      const fetcher = createLyricsFetcher(fetcherOptions);
+
+      if (options.initialScan) {
+        const spinner = ora('Processing existing files...').start();
+        const results = await fetcher.processDirectory(directory, {
+          onProgress: (current, total) => {
+            spinner.text = `Processing existing files: ${current}/${total}`;
+          }
         });
+        spinner.succeed(`Processed ${results.length} existing files (${results.filter(r => r.success).length} successful)`);
+        printErrorSummary(results);
+      }
+
+      const watcher = new LibraryWatcher(fetcher, fetcherOptions, { debounceMs: parseInt(options.debounce) });
+      watcher.start(directory, results => {
+        console.log(chalk.green(`Processed ${results.length} new files (${results.filter(r => r.success).length} successful)`));
+        printErrorSummary(results);
+      });
+      console.log(chalk.cyan(`Watching ${directory} for new music (Ctrl+C to stop)`));
+
+      const shutdown = async () => {
+        await watcher.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('review')
+  .description('Choose the lyrics of queued ambiguous matches, then write them')
+  .action(async (_options, command) => {
+    // Review and output options are defined on the root program
+    const options = command.optsWithGlobals();
+
+    try {
+      const queue = new ReviewQueue({ path: options.reviewPath });
+      const pending = await queue.pending();
+      if (pending.length === 0) {
+        console.log(chalk.green('No tracks waiting for review'));
+        return;
+      }
+
+      console.log(chalk.cyan(`${pending.length} tracks waiting for review`));
+      const summary = await runReviewSession(queue, { input: process.stdin, output: process.stdout });
+
+      if (summary.decided.length > 0) {
+        const fetcher = createLyricsFetcher(buildFetcherOptions(options));
+        const spinner = ora('Writing reviewed lyrics...').start();
+        const results = await fetcher.processFiles(summary.decided);
+        spinner.succeed(`Wrote lyrics for ${results.filter(r => r.success).length} of ${summary.decided.length} reviewed tracks`);
+        printErrorSummary(results);
       }
+      console.log(chalk.cyan(`${summary.skipped} skipped, ${summary.remaining} still waiting for review`));
     } catch (error) {
       console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
 
+program
+  .command('publish')
+  .description('Publish local lyrics to LRCLIB, solving its proof-of-work challenge for each track')
+  .argument('<paths...>', 'Audio files or their .lrc/.txt lyrics files; directories with --batch')
+  .option('--batch', 'Treat the paths as directories and publish the local lyrics of every track LRCLIB has no record for', false)
+  .action(async (paths: string[], _options, command) => {
+    // --dry-run, output and LRCLIB options are defined on the root program
+    const options = command.optsWithGlobals();
+
+    try {
+      const missing = paths.filter(inputPath => !fs.existsSync(inputPath));
+      if (missing.length > 0) {
+        console.error(chalk.red(`Not found: ${missing.join(', ')}`));
+        process.exit(1);
+      }
+
+      const publisher = createLyricsFetcher(buildFetcherOptions(options)).createPublisher();
+      const spinner = ora('Preparing lyrics...').start();
+      const publishOptions = {
+        dryRun: options.dryRun,
+        onSolving: (filePath: string, attempts: number) => {
+          spinner.text = `Solving publish challenge for ${displayPath(filePath)}: ${attempts} attempts`;
+        },
+        onResult: (result: PublishResult) => {
+          spinner.text = `${result.status}: ${displayPath(result.filePath)}`;
+        }
+      };
+
+      const results: PublishResult[] = [];
+      for (const inputPath of paths) {
+        if (options.batch) {
+          spinner.text = `Checking LRCLIB for tracks in ${displayPath(inputPath)}...`;
+          results.push(...await publisher.publishMissing(inputPath, publishOptions));
+        } else {
+          results.push(await publisher.publishFile(inputPath, publishOptions));
+        }
+      }
+
+      const published = results.filter(r => r.status === (options.dryRun ? 'would-publish' : 'published')).length;
+      spinner.succeed(`${options.dryRun ? 'Would publish' : 'Published'} lyrics for ${published} of ${results.length} tracks`);
+      printPublishResults(results, options.dryRun);
+
+      if (results.some(r => r.status === 'failed')) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('cache')
+  .description('Inspect or clear the persistent lookup cache')
+  .argument('<action>', 'Action to perform (stats, clear)')
+  .action(async (action, _options, command) => {
+    // --cache-path is defined on the root program
+    const options = command.optsWithGlobals();
+    const cache = new LookupCache({ path: options.cachePath });
+
+    switch (action) {
+      case 'stats': {
+        const stats = await cache.stats();
+        console.log(chalk.cyan(`Lookup cache: ${stats.path}`));
+        console.log(`  Hits:    ${stats.hits}`);
+        console.log(`  Misses:  ${stats.misses}`);
+        console.log(`  Expired: ${stats.expired}`);
+        break;
+      }
+      case 'clear':
+        await cache.clear();
+        console.log(chalk.green(`Cleared lookup cache: ${options.cachePath}`));
+        break;
+      default:
+        console.error(chalk.red(`Unknown cache action: ${action} (expected stats or clear)`));
+        process.exit(1);
+    }
+  });
+
 program.parse(process.argv);
\ No newline at end of file
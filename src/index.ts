@@ -2,8 +2,27 @@ export * from './types';
 export { LyricsFetcherOrchestrator } from './orchestrator/index';
 export * from './scanner/fileScanner';
 export * from './metadata/extractor';
+export { readNativeTags, NativeTags, TagField } from './metadata/tags';
+export * from './metadata/audioFormats';
+export * from './metadata/normalization';
 export * from './api/lrclib';
+export * from './providers/registry';
+export * from './providers/providerChain';
+export * from './providers/localLyricsProvider';
 export * from './writer/fileWriter';
+export * from './writer/writeIntents';
+export { DEFAULT_PATH_TEMPLATE } from './writer/outputPath';
+export { LYRICS_FORMATS, isLyricsFormat } from './lyrics/formats';
+export * from './cache/lookupCache';
+export * from './state/scanState';
+export * from './review/reviewQueue';
+export * from './review/reviewSession';
+export * from './overrides/trackOverrides';
+export * from './publish/challenge';
+export * from './publish/lyricsPublisher';
+export * from './watcher/libraryWatcher';
+export * from './report/runReport';
+export * from './utils/errorHandling';
 export { Logger, LogLevel } from './utils/logger';
 
 import { Logger, LogLevel } from './utils/logger';
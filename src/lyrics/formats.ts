@@ -0,0 +1,229 @@
+import { LyricResult, LyricsFormat, TrackMetadata } from '../types';
+import { LrcDocument, LrcWord, parseLrc, INSTRUMENTAL_LRC } from './lrc';
+import { escapeXml } from '../utils/xml';
+
+// How long the last line stays on screen when the track duration is unknown
+const LAST_LINE_DURATION_MS = 5000;
+
+const JSON_FORMAT_VERSION = 1;
+
+/**
+ * A rendered lyrics file
+ */
+export interface RenderedLyrics {
+  extension: string;
+  content: string;
+}
+
+/**
+ * Renders lyrics in one output format
+ */
+interface LyricsFormatter {
+  /** Every extension the format can produce, used to find existing files */
+  extensions: string[];
+  /** Render the lyrics, or return null when the format can't represent them */
+  render(lyrics: LyricResult, metadata?: TrackMetadata): RenderedLyrics | null;
+}
+
+/**
+ * A lyric line with its display window, for subtitle formats
+ */
+interface Cue {
+  startMs: number;
+  endMs: number;
+  text: string;
+  words?: LrcWord[];
+}
+
+/**
+ * Turn synced lines into cues. A line ends where the next one starts, and the last
+ * one at the end of the track; empty lines only mark the end of the previous line.
+ */
+function toCues(document: LrcDocument, durationSeconds?: number): Cue[] {
+  const lines = document.lines.map(line => ({ ...line, timeMs: Math.max(0, line.timeMs - document.offsetMs) }));
+  const cues: Cue[] = [];
+
+  lines.forEach((line, index) => {
+    if (!line.text) return;
+
+    const next = lines[index + 1];
+    const trackEndMs = durationSeconds ? durationSeconds * 1000 : 0;
+    const endMs = next
+      ? next.timeMs
+      : trackEndMs > line.timeMs ? trackEndMs : line.timeMs + LAST_LINE_DURATION_MS;
+
+    cues.push({
+      startMs: line.timeMs,
+      endMs: Math.max(endMs, line.timeMs),
+      text: line.text,
+      words: line.words?.map(word => ({ ...word, timeMs: Math.max(0, word.timeMs - document.offsetMs) }))
+    });
+  });
+
+  return cues;
+}
+
+/**
+ * Synced lines of a result as cues, or null when it has no synced lyrics
+ */
+function cuesFor(lyrics: LyricResult, metadata?: TrackMetadata): Cue[] | null {
+  if (!lyrics.syncedLyrics) {
+    return null;
+  }
+  const cues = toCues(parseLrc(lyrics.syncedLyrics), metadata?.duration);
+  return cues.length > 0 ? cues : null;
+}
+
+/**
+ * Format milliseconds as hh:mm:ss.mmm, with a custom fraction separator
+ */
+function formatClockTime(timeMs: number, separator: string): string {
+  const ms = Math.round(timeMs);
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+const LRC_FORMATTER: LyricsFormatter = {
+  extensions: ['lrc', 'txt'],
+  render(lyrics) {
+    if (lyrics.syncedLyrics) return { extension: 'lrc', content: lyrics.syncedLyrics };
+    if (lyrics.plainLyrics) return { extension: 'txt', content: lyrics.plainLyrics };
+    if (lyrics.instrumental) return { extension: 'lrc', content: INSTRUMENTAL_LRC };
+    return null;
+  }
+};
+
+const SRT_FORMATTER: LyricsFormatter = {
+  extensions: ['srt'],
+  render(lyrics, metadata) {
+    const cues = cuesFor(lyrics, metadata);
+    if (!cues) return null;
+
+    const blocks = cues.map((cue, index) =>
+      `${index + 1}\n${formatClockTime(cue.startMs, ',')} --> ${formatClockTime(cue.endMs, ',')}\n${cue.text}\n`
+    );
+    return { extension: 'srt', content: blocks.join('\n') };
+  }
+};
+
+const VTT_FORMATTER: LyricsFormatter = {
+  extensions: ['vtt'],
+  render(lyrics, metadata) {
+    const cues = cuesFor(lyrics, metadata);
+    if (!cues) return null;
+
+    const blocks = cues.map(cue =>
+      `${formatClockTime(cue.startMs, '.')} --> ${formatClockTime(cue.endMs, '.')}\n${cue.text}\n`
+    );
+    return { extension: 'vtt', content: ['WEBVTT\n', ...blocks].join('\n') };
+  }
+};
+
+const TTML_FORMATTER: LyricsFormatter = {
+  extensions: ['ttml'],
+  render(lyrics, metadata) {
+    const cues = cuesFor(lyrics, metadata);
+    if (!cues) return null;
+
+    const time = (ms: number) => formatClockTime(ms, '.');
+    const wordTimed = cues.some(cue => cue.words);
+    const paragraphs = cues.map(cue => {
+      if (!cue.words) {
+        return `      <p begin="${time(cue.startMs)}" end="${time(cue.endMs)}">${escapeXml(cue.text)}</p>`;
+      }
+      const spans = cue.words.map((word, index) => {
+        const end = index + 1 < cue.words!.length ? cue.words![index + 1].timeMs : cue.endMs;
+        return `<span begin="${time(word.timeMs)}" end="${time(end)}">${escapeXml(word.text.trim())}</span>`;
+      });
+      return `      <p begin="${time(cue.startMs)}" end="${time(cue.endMs)}">${spans.join(' ')}</p>`;
+    });
+
+    const title = metadata?.title || lyrics.title;
+    const artist = metadata?.artist || lyrics.artist;
+    const end = cues[cues.length - 1].endMs;
+    const content = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xmlns:itunes="http://music.apple.com/lyric-ttml-internal" itunes:timing="${wordTimed ? 'Word' : 'Line'}">`,
+      '  <head>',
+      '    <metadata>',
+      `      <ttm:title>${escapeXml(title)}</ttm:title>`,
+      `      <ttm:agent type="person" xml:id="v1"><ttm:name type="full">${escapeXml(artist)}</ttm:name></ttm:agent>`,
+      '    </metadata>',
+      '  </head>',
+      `  <body dur="${time(end)}">`,
+      `    <div begin="${time(cues[0].startMs)}" end="${time(end)}">`,
+      ...paragraphs,
+      '    </div>',
+      '  </body>',
+      '</tt>',
+      ''
+    ].join('\n');
+
+    return { extension: 'ttml', content };
+  }
+};
+
+const JSON_FORMATTER: LyricsFormatter = {
+  extensions: ['json'],
+  render(lyrics, metadata) {
+    const cues = cuesFor(lyrics, metadata);
+    const lines = cues
+      ? cues.map(cue => ({
+          startMs: cue.startMs,
+          endMs: cue.endMs,
+          text: cue.text,
+          ...(cue.words ? { words: cue.words.map(word => ({ startMs: word.timeMs, text: word.text.trim() })) } : {})
+        }))
+      : (lyrics.plainLyrics ?? '').split(/\r?\n/).map(text => text.trim()).filter(Boolean).map(text => ({ text }));
+
+    if (lines.length === 0 && !lyrics.instrumental) {
+      return null;
+    }
+
+    const document = {
+      version: JSON_FORMAT_VERSION,
+      source: lyrics.source,
+      metadata: {
+        artist: metadata?.artist || lyrics.artist,
+        title: metadata?.title || lyrics.title,
+        album: metadata?.album || lyrics.album,
+        duration: metadata?.duration
+      },
+      synced: !!cues,
+      instrumental: lyrics.instrumental,
+      lines
+    };
+    return { extension: 'json', content: JSON.stringify(document, null, 2) + '\n' };
+  }
+};
+
+const FORMATTERS: Record<LyricsFormat, LyricsFormatter> = {
+  lrc: LRC_FORMATTER,
+  srt: SRT_FORMATTER,
+  vtt: VTT_FORMATTER,
+  ttml: TTML_FORMATTER,
+  json: JSON_FORMATTER
+};
+
+export const LYRICS_FORMATS = Object.keys(FORMATTERS) as LyricsFormat[];
+
+export function isLyricsFormat(value: string): value is LyricsFormat {
+  return (LYRICS_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Extensions a format can produce
+ */
+export function formatExtensions(format: LyricsFormat): string[] {
+  return FORMATTERS[format].extensions;
+}
+
+/**
+ * Render lyrics in a format, or return null when the format can't represent them
+ */
+export function renderLyrics(format: LyricsFormat, lyrics: LyricResult, metadata?: TrackMetadata): RenderedLyrics | null {
+  return FORMATTERS[format].render(lyrics, metadata);
+}
@@ -0,0 +1,279 @@
+import { TrackMetadata } from '../types';
+
+// Marker written for instrumental tracks
+export const INSTRUMENTAL_LRC = '[00:00.00]Instrumental\n';
+
+/**
+ * A word of an enhanced (word-level) LRC line, with its start time in milliseconds
+ */
+export interface LrcWord {
+  timeMs: number;
+  text: string;
+}
+
+/**
+ * A synced lyric line with its start time in milliseconds
+ */
+export interface LrcLine {
+  timeMs: number;
+  text: string;
+  /** Word timings from enhanced `<mm:ss.xx>` tags */
+  words?: LrcWord[];
+}
+
+/**
+ * An ID tag such as [ar: Artist]
+ */
+export interface LrcTag {
+  key: string;
+  value: string;
+}
+
+/**
+ * A problem found while parsing. Errors make the document unusable, warnings are dropped content.
+ */
+export interface LrcIssue {
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * A parsed LRC document
+ */
+export interface LrcDocument {
+  tags: LrcTag[];
+  /** Timed lines sorted by time; a line with several timestamps appears once per timestamp */
+  lines: LrcLine[];
+  /** Value of the [offset:] tag in milliseconds; positive values make lyrics appear sooner */
+  offsetMs: number;
+  /** Fraction digits used by the source timestamps, kept when serializing */
+  fractionDigits: 2 | 3;
+  issues: LrcIssue[];
+}
+
+/**
+ * Options for serializing an LRC document
+ */
+export interface LrcSerializeOptions {
+  /** Shift the timestamps by the document offset and drop the [offset:] tag (default true) */
+  applyOffset?: boolean;
+  fractionDigits?: 2 | 3;
+}
+
+// Well-known ID tags, in the order they are written
+const TAG_ORDER = ['ar', 'ti', 'al', 'au', 'by', 'length', 're', 've'];
+
+const TIMESTAMP = /^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/;
+const WORD_TIMESTAMP = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const ID_TAG = /^([A-Za-z#]+):(.*)$/;
+const LEADING_GROUP = /^\[([^\]]*)\]/;
+
+/**
+ * Convert timestamp parts to milliseconds; a fraction of one, two or three digits
+ * is tenths, hundredths or thousandths of a second
+ */
+function toMilliseconds(minutes: string, seconds: string, fraction?: string): number {
+  const fractionMs = fraction ? parseInt(fraction.padEnd(3, '0'), 10) : 0;
+  return (parseInt(minutes, 10) * 60 + parseInt(seconds, 10)) * 1000 + fractionMs;
+}
+
+/**
+ * Format milliseconds as mm:ss.xx (or mm:ss.xxx)
+ */
+export function formatLrcTimestamp(timeMs: number, fractionDigits: 2 | 3 = 2): string {
+  const unit = fractionDigits === 3 ? 1 : 10;
+  const units = Math.round(Math.max(0, timeMs) / unit);
+  const perSecond = 1000 / unit;
+  const minutes = Math.floor(units / (60 * perSecond));
+  const seconds = Math.floor(units / perSecond) % 60;
+  const fraction = units % perSecond;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(fraction).padStart(fractionDigits, '0')}`;
+}
+
+/**
+ * Parse an LRC [length:] value (mm:ss or mm:ss.xx) into seconds
+ */
+export function parseLrcLength(value: string): number | undefined {
+  const match = /^(\d+):(\d{1,2}(?:\.\d+)?)$/.exec(value.trim());
+  return match ? parseInt(match[1], 10) * 60 + parseFloat(match[2]) : undefined;
+}
+
+/**
+ * Format a duration in seconds as an LRC [length:] value
+ */
+export function formatLrcLength(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Split the text of a timed line into words at enhanced `<mm:ss.xx>` tags. The word times are
+ * moved by `shiftMs`, for the copies of a line with several timestamps.
+ */
+function parseWords(text: string, lineTimeMs: number, shiftMs = 0): { text: string; words?: LrcWord[] } {
+  const pattern = new RegExp(WORD_TIMESTAMP.source, 'g');
+  const tags: RegExpExecArray[] = [];
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text)) !== null) {
+    tags.push(found);
+  }
+  if (tags.length === 0) {
+    return { text: text.trim() };
+  }
+
+  const words: LrcWord[] = [];
+  const leading = text.slice(0, tags[0].index);
+  if (leading.trim()) {
+    words.push({ timeMs: lineTimeMs, text: leading });
+  }
+  tags.forEach((tag, index) => {
+    const end = index + 1 < tags.length ? tags[index + 1].index : text.length;
+    const wordText = text.slice(tag.index + tag[0].length, end);
+    if (wordText) {
+      words.push({ timeMs: toMilliseconds(tag[1], tag[2], tag[3]) + shiftMs, text: wordText });
+    }
+  });
+
+  return {
+    text: words.map(word => word.text).join('').replace(/\s+/g, ' ').trim(),
+    words
+  };
+}
+
+/**
+ * Parse LRC text into a document. Parsing never throws; problems are reported in `issues`.
+ */
+export function parseLrc(content: string): LrcDocument {
+  const tags: LrcTag[] = [];
+  const lines: LrcLine[] = [];
+  const issues: LrcIssue[] = [];
+  let fractionDigits: 2 | 3 = 2;
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let rest = rawLine.trim();
+    if (!rest) return;
+
+    const timestamps: number[] = [];
+    let tag: LrcTag | undefined;
+    let group: RegExpExecArray | null;
+
+    while ((group = LEADING_GROUP.exec(rest)) !== null) {
+      const timestamp = TIMESTAMP.exec(group[1].trim());
+      if (timestamp) {
+        if (parseInt(timestamp[2], 10) >= 60) {
+          issues.push({ line: lineNumber, severity: 'error', message: `invalid timestamp [${group[1]}]` });
+        } else {
+          timestamps.push(toMilliseconds(timestamp[1], timestamp[2], timestamp[3]));
+          if (timestamp[3]?.length === 3) fractionDigits = 3;
+        }
+      } else if (timestamps.length === 0 && ID_TAG.test(group[1])) {
+        const [, key, value] = ID_TAG.exec(group[1])!;
+        tag = { key: key.toLowerCase(), value: value.trim() };
+      } else if (/^\d/.test(group[1])) {
+        issues.push({ line: lineNumber, severity: 'error', message: `malformed timestamp [${group[1]}]` });
+      } else {
+        break;
+      }
+      rest = rest.slice(group[0].length);
+      if (tag) break;
+    }
+
+    if (tag && !rest.trim()) {
+      tags.push(tag);
+      return;
+    }
+
+    if (timestamps.length === 0) {
+      if (!issues.some(issue => issue.line === lineNumber)) {
+        issues.push({ line: lineNumber, severity: 'warning', message: 'line has no timestamp' });
+      }
+      return;
+    }
+
+    // Word tags are timed for the first timestamp of the line
+    for (const timeMs of timestamps) {
+      lines.push({ timeMs, ...parseWords(rest, timeMs, timeMs - timestamps[0]) });
+    }
+  });
+
+  if (lines.length === 0 && !issues.some(issue => issue.severity === 'error')) {
+    issues.push({ line: 0, severity: 'error', message: 'no timed lines' });
+  }
+
+  const offsetTag = tags.find(tag => tag.key === 'offset');
+  const offsetMs = offsetTag ? parseInt(offsetTag.value, 10) || 0 : 0;
+
+  // Array.prototype.sort is stable, so lines sharing a timestamp keep their order
+  lines.sort((a, b) => a.timeMs - b.timeMs);
+
+  return { tags, lines, offsetMs, fractionDigits, issues };
+}
+
+/**
+ * Problems that make a document unusable as synced lyrics
+ */
+export function lrcErrors(document: LrcDocument): string[] {
+  return document.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => (issue.line > 0 ? `line ${issue.line}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Get the value of an ID tag
+ */
+export function getLrcTag(document: LrcDocument, key: string): string | undefined {
+  return document.tags.find(tag => tag.key === key)?.value;
+}
+
+/**
+ * Add [ar:], [ti:], [al:], [length:] and [by:] tags from track metadata, keeping tags already present
+ */
+export function withMetadataTags(document: LrcDocument, metadata: Partial<TrackMetadata>, by?: string): LrcDocument {
+  const values: Record<string, string | undefined> = {
+    ar: metadata.artist,
+    ti: metadata.title,
+    al: metadata.album,
+    length: metadata.duration ? formatLrcLength(metadata.duration) : undefined,
+    by
+  };
+
+  const tags = [...document.tags];
+  for (const [key, value] of Object.entries(values)) {
+    if (value && !tags.some(tag => tag.key === key)) {
+      tags.push({ key, value });
+    }
+  }
+  return { ...document, tags };
+}
+
+/**
+ * Serialize a document as normalized LRC: known tags first, one timestamp per line, sorted by time
+ */
+export function serializeLrc(document: LrcDocument, options: LrcSerializeOptions = {}): string {
+  const applyOffset = options.applyOffset !== false;
+  const fractionDigits = options.fractionDigits ?? document.fractionDigits;
+  const shift = applyOffset ? -document.offsetMs : 0;
+
+  const rank = (key: string) => {
+    const position = TAG_ORDER.indexOf(key);
+    return position === -1 ? TAG_ORDER.length : position;
+  };
+  const tags = document.tags
+    .filter(tag => !(applyOffset && tag.key === 'offset'))
+    .map((tag, index) => ({ tag, index }))
+    .sort((a, b) => rank(a.tag.key) - rank(b.tag.key) || a.index - b.index)
+    .map(({ tag }) => `[${tag.key}:${tag.value}]`);
+
+  const lines = [...document.lines]
+    .sort((a, b) => a.timeMs - b.timeMs)
+    .map(line => {
+      const text = line.words
+        ? line.words.map(word => `<${formatLrcTimestamp(word.timeMs + shift, fractionDigits)}>${word.text}`).join('')
+        : line.text;
+      return `[${formatLrcTimestamp(line.timeMs + shift, fractionDigits)}]${text}`;
+    });
+
+  return [...tags, ...lines].join('\n') + '\n';
+}
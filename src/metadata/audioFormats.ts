@@ -0,0 +1,137 @@
+import path from 'path';
+import { ConfigurationError } from '../utils/errorHandling';
+import { FileSource } from './tags/fileSource';
+import { ID3V2_HEADER_SIZE, id3v2Size } from './tags/id3';
+
+/**
+ * Container of an audio format, as recognized from a file's first bytes
+ */
+export type AudioContainer =
+  | 'mpeg'
+  | 'adts'
+  | 'flac'
+  | 'ogg'
+  | 'mp4'
+  | 'asf'
+  | 'riff'
+  | 'aiff'
+  | 'ape'
+  | 'wavpack'
+  | 'dsf'
+  | 'matroska';
+
+/**
+ * How tags are read: by the built-in reader for the container, or by ffprobe
+ */
+export type TagStrategy = 'native' | 'ffprobe';
+
+/**
+ * A supported audio format
+ */
+export interface AudioFormat {
+  name: string;
+  container: AudioContainer;
+  /** Extensions without the dot */
+  extensions: string[];
+  tags: TagStrategy;
+}
+
+export const AUDIO_FORMATS: AudioFormat[] = [
+  { name: 'mp3', container: 'mpeg', extensions: ['mp3'], tags: 'native' },
+  { name: 'aac', container: 'adts', extensions: ['aac'], tags: 'ffprobe' },
+  { name: 'flac', container: 'flac', extensions: ['flac'], tags: 'native' },
+  { name: 'ogg', container: 'ogg', extensions: ['ogg', 'oga'], tags: 'native' },
+  { name: 'opus', container: 'ogg', extensions: ['opus'], tags: 'native' },
+  { name: 'mp4', container: 'mp4', extensions: ['m4a', 'alac'], tags: 'native' },
+  { name: 'wma', container: 'asf', extensions: ['wma'], tags: 'native' },
+  { name: 'wav', container: 'riff', extensions: ['wav'], tags: 'native' },
+  { name: 'aiff', container: 'aiff', extensions: ['aiff', 'aif', 'aifc'], tags: 'ffprobe' },
+  { name: 'ape', container: 'ape', extensions: ['ape'], tags: 'ffprobe' },
+  { name: 'wavpack', container: 'wavpack', extensions: ['wv'], tags: 'ffprobe' },
+  { name: 'dsf', container: 'dsf', extensions: ['dsf'], tags: 'ffprobe' },
+  { name: 'matroska', container: 'matroska', extensions: ['mka'], tags: 'ffprobe' }
+];
+
+export const AUDIO_EXTENSIONS = AUDIO_FORMATS.flatMap(format => format.extensions);
+
+// Bytes needed to recognize every container
+const SNIFF_SIZE = 16;
+
+const ASF_HEADER_START = Buffer.from('3026b2758e66cf11', 'hex');
+const MATROSKA_HEADER_START = Buffer.from('1a45dfa3', 'hex');
+
+const SIGNATURES: Array<[AudioContainer, (head: Buffer) => boolean]> = [
+  ['flac', head => head.toString('latin1', 0, 4) === 'fLaC'],
+  ['ogg', head => head.toString('latin1', 0, 4) === 'OggS'],
+  ['mp4', head => head.toString('latin1', 4, 8) === 'ftyp'],
+  ['asf', head => head.subarray(0, 8).equals(ASF_HEADER_START)],
+  ['riff', head => head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WAVE'],
+  ['aiff', head => head.toString('latin1', 0, 4) === 'FORM' && ['AIFF', 'AIFC'].includes(head.toString('latin1', 8, 12))],
+  ['ape', head => head.toString('latin1', 0, 4) === 'MAC '],
+  ['wavpack', head => head.toString('latin1', 0, 4) === 'wvpk'],
+  ['dsf', head => head.toString('latin1', 0, 4) === 'DSD '],
+  ['matroska', head => head.subarray(0, 4).equals(MATROSKA_HEADER_START)],
+  // Frame syncs: ADTS has layer bits 00, MPEG audio doesn't
+  ['adts', head => head[0] === 0xff && (head[1] & 0xf6) === 0xf0],
+  ['mpeg', head => head[0] === 0xff && (head[1] & 0xe0) === 0xe0 && (head[1] & 0x06) !== 0]
+];
+
+function normalizeExtension(extension: string): string {
+  return extension.replace(/^\./, '').toLowerCase();
+}
+
+/**
+ * The format of a file extension, with or without the dot
+ */
+export function audioFormatForExtension(extension: string): AudioFormat | undefined {
+  const normalized = normalizeExtension(extension);
+  return AUDIO_FORMATS.find(format => format.extensions.includes(normalized));
+}
+
+/**
+ * The container a file's first bytes belong to
+ */
+export function detectContainer(head: Buffer): AudioContainer | undefined {
+  return SIGNATURES.find(([, matches]) => head.length >= 4 && matches(head))?.[0];
+}
+
+/**
+ * Recognize the format of a file from its content, whatever its extension. An ID3v2 tag in front
+ * of the stream is skipped; one followed by anything unrecognized is taken as MP3.
+ */
+export async function sniffAudioFormat(filePath: string): Promise<AudioFormat | undefined> {
+  const source = await FileSource.open(filePath);
+  let container: AudioContainer | undefined;
+  try {
+    const head = await source.read(0, SNIFF_SIZE);
+    const tagSize = id3v2Size(head.subarray(0, ID3V2_HEADER_SIZE));
+    container = tagSize > 0
+      ? detectContainer(await source.read(tagSize, SNIFF_SIZE)) ?? 'mpeg'
+      : detectContainer(head);
+  } finally {
+    await source.close();
+  }
+
+  // Prefer the format the extension names when it has the same container, e.g. .opus for Ogg
+  const named = audioFormatForExtension(path.extname(filePath));
+  return named?.container === container ? named : AUDIO_FORMATS.find(format => format.container === container);
+}
+
+/**
+ * The extensions a scan picks up: the included ones, or every supported one, without the excluded ones
+ */
+export function selectExtensions(include: string[] = [], exclude: string[] = []): string[] {
+  const excluded = exclude.map(normalizeExtension);
+  const included = include.length > 0 ? include.map(normalizeExtension) : AUDIO_EXTENSIONS;
+  return included.filter(extension => !excluded.includes(extension));
+}
+
+/**
+ * Reject extensions no supported format uses
+ */
+export function validateExtensions(extensions: string[]): void {
+  const unknown = extensions.filter(extension => !audioFormatForExtension(extension));
+  if (unknown.length > 0) {
+    throw new ConfigurationError(`Unsupported audio extension: ${unknown.join(', ')} (supported: ${AUDIO_EXTENSIONS.join(', ')})`, { extensions: unknown.join(',') });
+  }
+}
@@ -4,17 +4,26 @@ import { promisify } from 'util';
 import ffprobeStatic from 'ffprobe-static';
 import path from 'path';
 import { logger } from '../utils/logger';
-import { TrackMetadata } from '../types';
-import { MetadataExtractionError } from '../utils/errorHandling';
-
-// Audio file extensions - add this constant
-const AUDIO_EXTENSIONS = ['.mp3', '.flac', '.m4a', '.ogg', '.wav', '.wma'];
+import { runWorkerPool } from '../utils/workerPool';
+import { MetadataOptions, TrackMetadata } from '../types';
+import { readNativeTags, NativeTags } from './tags';
+import { AudioFormat, audioFormatForExtension, sniffAudioFormat } from './audioFormats';
+import { ConfigurationError, LrcLibError, MetadataExtractionError, NoAudioStreamError, UnsupportedFormatError } from '../utils/errorHandling';
 
 // Tag name constants to avoid magic strings
 const TAG_NAMES = {
-  ARTIST: ['album_artist', 'ALBUMARTIST', 'albumartist', 'ARTIST', 'artist', 'Artist', 'performer', 'PERFORMER'],
+  // The album artist is a fallback only: on compilations it is "Various Artists"
+  ARTIST: ['ARTIST', 'artist', 'Artist', 'performer', 'PERFORMER'],
   TITLE: ['TITLE', 'title', 'Title'],
   ALBUM: ['ALBUM', 'album', 'Album'],
+  ALBUM_ARTIST: ['album_artist', 'ALBUMARTIST', 'albumartist', 'ALBUM_ARTIST', 'ALBUM ARTIST'],
+  TRACK: ['track', 'TRACK', 'tracknumber', 'TRACKNUMBER', 'Track'],
+  DISC: ['disc', 'DISC', 'discnumber', 'DISCNUMBER', 'Disc'],
+  YEAR: ['date', 'DATE', 'year', 'YEAR', 'Year', 'TDRC', 'TYER'],
+  GENRE: ['genre', 'GENRE', 'Genre'],
+  ISRC: ['ISRC', 'isrc', 'TSRC'],
+  MUSICBRAINZ_RECORDING_ID: ['MUSICBRAINZ_TRACKID', 'musicbrainz_trackid', 'MusicBrainz Track Id'],
+  MUSICBRAINZ_RELEASE_ID: ['MUSICBRAINZ_ALBUMID', 'musicbrainz_albumid', 'MusicBrainz Album Id'],
   DURATION: ['duration', 'DURATION', 'Duration', 'length', 'LENGTH', 'Length'],
 };
 
@@ -27,55 +36,108 @@ export class MetadataExtractor {
    */
   async extractMetadata(filePath: string): Promise<TrackMetadata | null> {
     try {
-      // Add extension check - reject non-audio files
-      const ext = path.extname(filePath).toLowerCase();
-      if (!AUDIO_EXTENSIONS.includes(ext)) {
+      // The content decides the format, so files with a wrong or missing extension are read as what they are
+      const format = await sniffAudioFormat(filePath).catch(() => undefined) ?? audioFormatForExtension(path.extname(filePath));
+      if (!format) {
         logger.debug('MetadataExtractor', `Skipping non-audio file: ${path.basename(filePath)}`);
-        throw new MetadataExtractionError(filePath, 'not an audio file');
+        throw new UnsupportedFormatError(filePath, path.extname(filePath).toLowerCase());
       }
 
-      logger.debug('MetadataExtractor', `Extracting metadata from: ${path.basename(filePath)}`);
-
-      // Run ffprobe directly using child_process
-      const { stdout } = await execFileAsync(ffprobeStatic.path, [
-        '-v', 'quiet',
-        '-print_format', 'json',
-        '-show_format',
-        '-show_streams',
-        filePath
-      ]);
-
-      const data = JSON.parse(stdout);
+      logger.debug('MetadataExtractor', `Extracting ${format.name} metadata from: ${path.basename(filePath)}`);
 
-      // logger.debug('MetadataExtractor', `Raw ffprobe output: ${JSON.stringify(data, null, 2)}`);
-
-      // Verify this is actually an audio file by checking for audio streams
-      const hasAudioStream = data.streams && data.streams.some(stream => stream.codec_type === 'audio');
-      if (!hasAudioStream) {
-        logger.debug('MetadataExtractor', `No audio stream found in file: ${path.basename(filePath)}`);
-        throw new MetadataExtractionError(filePath, 'no audio stream found');
-      }
-
-      // Extract the basic information
-      const basicInfo = this.extractBasicInfo(data, filePath);
-
-      // Extract additional tags if available
-      const tagInfo = this.extractTagInfo(data);
-
-      // Merge and normalize metadata
-      const metadata = this.normalizeMetadata(basicInfo, tagInfo, filePath);
+      // ffprobe is only spawned for formats and files the native tag readers can't handle
+      const native = format.tags === 'native' ? await this.readNativeMetadata(filePath, format) : null;
+      const metadata = native ?? await this.probeMetadata(filePath);
 
       logger.debug('MetadataExtractor', `Extracted metadata: "${metadata.artist} - ${metadata.title}"`);
       return metadata;
     } catch (error) {
       logger.error('MetadataExtractor', `Failed to extract metadata from ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
       // return null; // Return null instead of throwing an error to continue processing other files
+      if (error instanceof LrcLibError) {
+        throw error;
+      }
       throw new MetadataExtractionError(filePath, error instanceof Error ? error.message : String(error));
     }
   }
 
   /**
-   * Extract basic information from ffprobe data
+   * Read metadata with the native tag readers. Returns null when there's no reader for the container,
+   * the file can't be parsed or its duration can't be computed, so ffprobe is used instead.
+   */
+  private async readNativeMetadata(filePath: string, format: AudioFormat): Promise<TrackMetadata | null> {
+    let native: NativeTags | null;
+    try {
+      native = await readNativeTags(filePath, format.container);
+    } catch (error) {
+      logger.debug('MetadataExtractor', `Native tag reader failed for ${path.basename(filePath)}, falling back to ffprobe: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+    if (!native?.duration) {
+      logger.debug('MetadataExtractor', `No native ${native ? 'duration' : 'tag reader'} for ${path.basename(filePath)}, falling back to ffprobe`);
+      return null;
+    }
+
+    logger.debug('MetadataExtractor', `Native ${native.format} tags: ${JSON.stringify(native.tags)}`);
+    return this.normalizeMetadata(this.extractBasicInfo({}, filePath), this.nativeTagInfo(native), filePath);
+  }
+
+  /**
+   * Read metadata with ffprobe
+   */
+  private async probeMetadata(filePath: string): Promise<TrackMetadata> {
+    // Run ffprobe directly using child_process
+    const { stdout } = await execFileAsync(ffprobeStatic.path, [
+      '-v', 'quiet',
+      '-print_format', 'json',
+      '-show_format',
+      '-show_streams',
+      filePath
+    ]);
+
+    const data = JSON.parse(stdout);
+
+    // logger.debug('MetadataExtractor', `Raw ffprobe output: ${JSON.stringify(data, null, 2)}`);
+
+    // Verify this is actually an audio file by checking for audio streams
+    const hasAudioStream = data.streams && data.streams.some(stream => stream.codec_type === 'audio');
+    if (!hasAudioStream) {
+      logger.debug('MetadataExtractor', `No audio stream found in file: ${path.basename(filePath)}`);
+      throw new NoAudioStreamError(filePath);
+    }
+
+    // Extract the basic information
+    const basicInfo = this.extractBasicInfo(data, filePath);
+
+    // Extract additional tags if available
+    const tagInfo = this.extractTagInfo(data);
+
+    // Merge and normalize metadata
+    return this.normalizeMetadata(basicInfo, tagInfo, filePath);
+  }
+
+  /**
+   * Map the fields of the native tag readers
+   */
+  private nativeTagInfo({ tags, duration }: NativeTags): Partial<TrackMetadata> {
+    return {
+      title: tags.title,
+      artist: tags.artist,
+      album: tags.album,
+      albumArtist: tags.albumArtist,
+      trackNumber: this.parsePosition(tags.track),
+      discNumber: this.parsePosition(tags.disc),
+      year: this.parseYear(tags.date),
+      genre: tags.genre,
+      isrc: tags.isrc?.toUpperCase(),
+      musicBrainzRecordingId: tags.musicBrainzRecordingId,
+      musicBrainzReleaseId: tags.musicBrainzReleaseId,
+      duration
+    };
+  }
+
+  /**
+   * Extract basic information from ffprobe data, falling back to the file name
    */
   private extractBasicInfo(data: any, filePath: string): Partial<TrackMetadata> {
     const info: Partial<TrackMetadata> = {};
@@ -191,6 +253,18 @@ export class MetadataExtractor {
       }
     }
 
+    // The remaining tags are used for searching and output path templates
+    const tag = (keys: string[]) => this.findTag(keys, formatTags, streamTags);
+    info.albumArtist = tag(TAG_NAMES.ALBUM_ARTIST);
+    info.trackNumber = this.parsePosition(tag(TAG_NAMES.TRACK));
+    info.discNumber = this.parsePosition(tag(TAG_NAMES.DISC));
+    info.genre = tag(TAG_NAMES.GENRE);
+    info.isrc = tag(TAG_NAMES.ISRC)?.toUpperCase();
+    info.musicBrainzRecordingId = tag(TAG_NAMES.MUSICBRAINZ_RECORDING_ID);
+    info.musicBrainzReleaseId = tag(TAG_NAMES.MUSICBRAINZ_RELEASE_ID);
+
+    info.year = this.parseYear(tag(TAG_NAMES.YEAR));
+
     // Extract duration from format section if available
     if (data.format && data.format.duration) {
       info.duration = parseFloat(data.format.duration);
@@ -200,6 +274,30 @@ export class MetadataExtractor {
   }
 
 
+  /**
+   * The first non-empty value of a tag, preferring format tags over stream tags
+   */
+  private findTag(keys: string[], formatTags: Record<string, string>, streamTags: Record<string, string>): string | undefined {
+    const key = keys.find(name => formatTags[name]?.trim()) ?? keys.find(name => streamTags[name]?.trim());
+    return key ? (formatTags[key]?.trim() || streamTags[key].trim()) : undefined;
+  }
+
+  /**
+   * A track or disc number, which may be written as "3/12"
+   */
+  private parsePosition(value: string | undefined): number | undefined {
+    const position = parseInt(value ?? '', 10);
+    return position > 0 ? position : undefined;
+  }
+
+  /**
+   * The year of a date, which may be full, e.g. "2004-05-17"
+   */
+  private parseYear(value: string | undefined): number | undefined {
+    const year = value?.match(/\d{4}/);
+    return year ? parseInt(year[0], 10) : undefined;
+  }
+
   /**
    * Normalize and merge metadata
    */
@@ -222,9 +320,18 @@ export class MetadataExtractor {
 
     // Create a merged object with tag info taking priority
     const metadata: TrackMetadata = {
-      artist: tagInfo.artist || basicInfo.artist || 'Unknown Artist',
+      // Searches use the track artist, falling back to the album artist and then the file name
+      artist: tagInfo.artist || tagInfo.albumArtist || basicInfo.artist || 'Unknown Artist',
       title: tagInfo.title || basicInfo.title || path.basename(filePath, path.extname(filePath)),
       album: tagInfo.album || basicInfo.album || '',
+      albumArtist: tagInfo.albumArtist,
+      trackNumber: tagInfo.trackNumber,
+      discNumber: tagInfo.discNumber,
+      year: tagInfo.year,
+      genre: tagInfo.genre,
+      isrc: tagInfo.isrc,
+      musicBrainzRecordingId: tagInfo.musicBrainzRecordingId,
+      musicBrainzReleaseId: tagInfo.musicBrainzReleaseId,
       duration: tagInfo.duration || basicInfo.duration || 0,
       filepath: filePath
     };
@@ -249,4 +356,69 @@ export class MetadataExtractor {
 export async function extractMetadata(filePath: string): Promise<TrackMetadata | null> {
   const extractor = new MetadataExtractor();
   return extractor.extractMetadata(filePath);
-}
\ No newline at end of file
+}
+
+export const DEFAULT_METADATA_OPTIONS: MetadataOptions = {
+  concurrency: 4
+};
+
+/**
+ * Reject a metadata concurrency below one
+ */
+export function validateMetadataOptions(options: MetadataOptions): void {
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new ConfigurationError(`Metadata concurrency must be a whole number of at least 1, got ${options.concurrency}`, { concurrency: options.concurrency });
+  }
+}
+
+/**
+ * Extracts the metadata of each file at most once, with at most `concurrency` extractions running.
+ * Failed extractions are remembered too, so a file that can't be read isn't read again.
+ */
+export class MetadataCache {
+  private readonly results = new Map<string, Promise<TrackMetadata | null>>();
+  private readonly waiting: Array<() => void> = [];
+  private active = 0;
+
+  constructor(
+    private readonly concurrency = DEFAULT_METADATA_OPTIONS.concurrency,
+    private readonly extractor = new MetadataExtractor()
+  ) {}
+
+  extract(filePath: string): Promise<TrackMetadata | null> {
+    const key = path.resolve(filePath);
+    let result = this.results.get(key);
+    if (!result) {
+      result = this.schedule(() => this.extractor.extractMetadata(filePath));
+      this.results.set(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Start extracting files in the background, in order, so their metadata is ready when needed
+   */
+  prefetch(filePaths: string[]): void {
+    runWorkerPool(filePaths, this.concurrency, filePath => this.extract(filePath).catch(() => null))
+      .catch(() => undefined);
+  }
+
+  private async schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // A finishing task hands its slot over directly
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { NormalizationOptions, NormalizationStep, TrackMetadata } from '../types';
+import { normalizeForMatch } from '../api/matching';
+import { ConfigurationError } from '../utils/errorHandling';
+
+export const NORMALIZATION_STEPS: NormalizationStep[] = ['move-featuring', 'strip-suffixes', 'split-artists', 'fold-unicode'];
+
+export const DEFAULT_NORMALIZATION_OPTIONS: NormalizationOptions = {
+  enabled: true,
+  steps: [...NORMALIZATION_STEPS]
+};
+
+// Label of the variant that searches with the tags as they are
+export const ORIGINAL_VARIANT = 'original';
+
+// Words marking a title suffix as a release detail rather than part of the name
+const VERSION_SUFFIX = /\b(re-?master(ed)?|live|mono|stereo|deluxe|edition|version|anniversary|bonus( track)?|demo|radio edit|single|explicit|clean)\b/i;
+
+// "Song (Remastered 2011)", "Song [Live]"
+const BRACKETED_SUFFIX = /\s*[([]([^()[\]]*)[)\]]\s*$/;
+
+// "Song - Live at Wembley", "Song - 2011 Remaster"
+const DASHED_SUFFIX = /\s+[-\u2013\u2014]\s+([^-\u2013\u2014]+)$/;
+
+// "Song (feat. X)", "Song [with X]"
+const BRACKETED_FEATURING = /\s*[([]\s*(?:feat\.?|ft\.?|featuring|with)\s+([^()[\]]+)[)\]]/i;
+
+// "Song feat. X"
+const TRAILING_FEATURING = /\s+(?:feat\.?|ft\.?|featuring)\s+(.+)$/i;
+
+// Separators between several artists: "A; B", "A / B", "A & B", "A x B", "A feat. B".
+// A slash without spaces ("AC/DC") and an ampersand ending a list ("Earth, Wind & Fire") are part of a name.
+const ARTIST_SEPARATOR = /\s*(?:;|\s\/\s|(?<!,[^&]*)&|\s+x\s+|\s+(?:feat\.?|ft\.?|featuring|with|vs\.?)\s+)\s*/i;
+
+/**
+ * A set of search terms for a track, derived by normalizing its tags
+ */
+export interface SearchVariant {
+  /** 'original', or the normalization steps applied joined by '+' */
+  label: string;
+  metadata: TrackMetadata;
+}
+
+type SearchTerms = Pick<TrackMetadata, 'artist' | 'title'>;
+
+/**
+ * Remove remaster, live and edition suffixes from a title, e.g. "Song (Remastered 2011)" becomes "Song"
+ */
+export function stripVersionSuffixes(title: string): string {
+  let stripped = title;
+  for (;;) {
+    const suffix = stripped.match(BRACKETED_SUFFIX) ?? stripped.match(DASHED_SUFFIX);
+    if (!suffix || !VERSION_SUFFIX.test(suffix[1]) || suffix.index === 0) {
+      return stripped;
+    }
+    stripped = stripped.slice(0, suffix.index);
+  }
+}
+
+/**
+ * Move a "feat." credit from the title to the artist, e.g. "Song (feat. X)" by "A" becomes "Song" by "A feat. X"
+ */
+export function moveFeaturing({ artist, title }: SearchTerms): SearchTerms {
+  const featuring = title.match(BRACKETED_FEATURING) ?? title.match(TRAILING_FEATURING);
+  if (!featuring || featuring.index === 0) {
+    return { artist, title };
+  }
+
+  const guests = featuring[1].trim();
+  const strippedTitle = (title.slice(0, featuring.index) + title.slice(featuring.index! + featuring[0].length)).trim();
+  // The artist tag often credits the guests already
+  const credited = normalizeForMatch(artist).includes(normalizeForMatch(guests));
+  return { artist: credited ? artist : `${artist} feat. ${guests}`, title: strippedTitle };
+}
+
+/**
+ * The first of several artists, e.g. "A & B" or "A feat. B" becomes "A"
+ */
+export function primaryArtist(artist: string): string {
+  const [first] = artist.split(ARTIST_SEPARATOR);
+  return first.trim() || artist;
+}
+
+/**
+ * Remove diacritics and replace typographic quotes, dashes and ellipses with plain ones
+ */
+export function foldUnicode(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019\u201a\u201b\u2032]/g, '\'')
+    .replace(/[\u201c\u201d\u201e\u201f\u2033]/g, '"')
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/\u2026/g, '...')
+    .normalize('NFC');
+}
+
+const STEPS: Record<NormalizationStep, (terms: SearchTerms) => SearchTerms> = {
+  'move-featuring': moveFeaturing,
+  'strip-suffixes': ({ artist, title }) => ({ artist, title: stripVersionSuffixes(title) }),
+  'split-artists': ({ artist, title }) => ({ artist: primaryArtist(artist), title }),
+  'fold-unicode': ({ artist, title }) => ({ artist: foldUnicode(artist), title: foldUnicode(title) })
+};
+
+/**
+ * Reject normalization steps that don't exist
+ */
+export function validateNormalizationOptions(options: NormalizationOptions): void {
+  const unknown = options.steps.filter(step => !NORMALIZATION_STEPS.includes(step));
+  if (unknown.length > 0) {
+    throw new ConfigurationError(`Unknown normalization step: ${unknown.join(', ')} (available: ${NORMALIZATION_STEPS.join(', ')})`, { steps: unknown.join(',') });
+  }
+}
+
+/**
+ * The search variants of a track in the order they should be tried: the tags as they are,
+ * then the result of each normalization step that changes them, applied cumulatively
+ */
+export function searchVariants(metadata: TrackMetadata, options: NormalizationOptions = DEFAULT_NORMALIZATION_OPTIONS): SearchVariant[] {
+  const variants: SearchVariant[] = [{ label: ORIGINAL_VARIANT, metadata }];
+  if (!options.enabled) {
+    return variants;
+  }
+
+  const applied: NormalizationStep[] = [];
+  let current = metadata;
+  for (const step of options.steps) {
+    const terms = STEPS[step](current);
+    if (!terms.artist || !terms.title || (terms.artist === current.artist && terms.title === current.title)) {
+      continue;
+    }
+    applied.push(step);
+    current = { ...current, ...terms };
+    variants.push({ label: applied.join('+'), metadata: current });
+  }
+  return variants;
+}
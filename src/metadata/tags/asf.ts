@@ -0,0 +1,128 @@
+import { FileSource } from './fileSource';
+import { NativeTags, TagField, addTag } from './nativeTags';
+
+/**
+ * The on-disk bytes of a GUID: the first three groups are little-endian
+ */
+function guid(value: string): Buffer {
+  const bytes = Buffer.from(value.replace(/-/g, ''), 'hex');
+  return Buffer.concat([
+    Buffer.from(bytes.subarray(0, 4)).reverse(),
+    Buffer.from(bytes.subarray(4, 6)).reverse(),
+    Buffer.from(bytes.subarray(6, 8)).reverse(),
+    bytes.subarray(8)
+  ]);
+}
+
+const HEADER_OBJECT = guid('75B22630-668E-11CF-A6D9-00AA0062CE6C');
+const FILE_PROPERTIES_OBJECT = guid('8CABDCA1-A947-11CF-8EE4-00C00C205365');
+const CONTENT_DESCRIPTION_OBJECT = guid('75B22633-668E-11CF-A6D9-00AA0062CE6C');
+const EXTENDED_CONTENT_DESCRIPTION_OBJECT = guid('D2D0A440-E307-11D2-97F0-00A0C95EA850');
+
+const HEADER_OBJECT_SIZE = 30;
+const OBJECT_HEADER_SIZE = 24;
+
+// Extended content descriptor value types
+const TYPE_STRING = 0;
+const TYPE_BOOL = 2;
+const TYPE_DWORD = 3;
+const TYPE_QWORD = 4;
+const TYPE_WORD = 5;
+
+const DESCRIPTOR_FIELDS: Record<string, TagField> = {
+  'WM/AlbumTitle': 'album',
+  'WM/AlbumArtist': 'albumArtist',
+  'WM/TrackNumber': 'track',
+  'WM/PartOfSet': 'disc',
+  'WM/Year': 'date',
+  'WM/Genre': 'genre',
+  'WM/ISRC': 'isrc',
+  'MusicBrainz/Track Id': 'musicBrainzRecordingId',
+  'MusicBrainz/Album Id': 'musicBrainzReleaseId'
+};
+
+function utf16(buffer: Buffer, start: number, length: number): string {
+  return buffer.toString('utf16le', start, start + length).replace(/\0+$/, '');
+}
+
+function descriptorValue(body: Buffer, type: number, start: number, length: number): string | undefined {
+  switch (type) {
+    case TYPE_STRING:
+      return utf16(body, start, length);
+    case TYPE_BOOL:
+    case TYPE_DWORD:
+      return String(body.readUInt32LE(start));
+    case TYPE_QWORD:
+      return String(body.readBigUInt64LE(start));
+    case TYPE_WORD:
+      return String(body.readUInt16LE(start));
+    default:
+      return undefined;
+  }
+}
+
+function readContentDescription(tags: NativeTags['tags'], body: Buffer): void {
+  const titleLength = body.readUInt16LE(0);
+  const authorLength = body.readUInt16LE(2);
+  addTag(tags, 'title', utf16(body, 10, titleLength));
+  addTag(tags, 'artist', utf16(body, 10 + titleLength, authorLength));
+}
+
+function readExtendedContentDescription(tags: NativeTags['tags'], body: Buffer): void {
+  let trackIndex: string | undefined;
+  let position = 2;
+  for (let count = body.readUInt16LE(0); count > 0 && position + 6 <= body.length; count--) {
+    const nameLength = body.readUInt16LE(position);
+    const name = utf16(body, position + 2, nameLength);
+    position += 2 + nameLength;
+    const type = body.readUInt16LE(position);
+    const valueLength = body.readUInt16LE(position + 2);
+    const value = descriptorValue(body, type, position + 4, valueLength);
+    position += 4 + valueLength;
+
+    if (name === 'WM/Track') {
+      trackIndex = value;
+    } else {
+      addTag(tags, DESCRIPTOR_FIELDS[name], value);
+    }
+  }
+
+  // WM/Track is the older, zero-based track number
+  if (!tags.track && trackIndex && /^\d+$/.test(trackIndex)) {
+    addTag(tags, 'track', String(parseInt(trackIndex, 10) + 1));
+  }
+}
+
+/**
+ * Read the content descriptions and duration (from the file properties) of a WMA/ASF file
+ */
+export async function readAsfTags(source: FileSource): Promise<NativeTags> {
+  const start = await source.read(0, HEADER_OBJECT_SIZE);
+  if (start.length < HEADER_OBJECT_SIZE || !start.subarray(0, 16).equals(HEADER_OBJECT)) {
+    throw new Error('not an ASF file');
+  }
+  const header = await source.read(0, Number(start.readBigUInt64LE(16)));
+
+  const tags: NativeTags['tags'] = {};
+  let duration: number | undefined;
+  for (let offset = HEADER_OBJECT_SIZE; offset + OBJECT_HEADER_SIZE <= header.length;) {
+    const id = header.subarray(offset, offset + 16);
+    const size = Number(header.readBigUInt64LE(offset + 16));
+    if (size < OBJECT_HEADER_SIZE) break;
+    const body = header.subarray(offset + OBJECT_HEADER_SIZE, offset + size);
+
+    if (id.equals(FILE_PROPERTIES_OBJECT)) {
+      // Play duration in 100ns units includes the preroll, in milliseconds
+      const playDuration = Number(body.readBigUInt64LE(40)) / 1e7;
+      const preroll = Number(body.readBigUInt64LE(56)) / 1000;
+      duration = Math.max(0, playDuration - preroll);
+    } else if (id.equals(CONTENT_DESCRIPTION_OBJECT)) {
+      readContentDescription(tags, body);
+    } else if (id.equals(EXTENDED_CONTENT_DESCRIPTION_OBJECT)) {
+      readExtendedContentDescription(tags, body);
+    }
+    offset += size;
+  }
+
+  return { format: 'asf', duration, tags };
+}
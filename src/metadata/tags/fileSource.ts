@@ -0,0 +1,38 @@
+import fs from 'fs';
+
+/**
+ * Random access to a file, so tag readers only read the parts of a file they need
+ */
+export class FileSource {
+  private constructor(private readonly handle: fs.promises.FileHandle, readonly size: number) {}
+
+  static async open(filePath: string): Promise<FileSource> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      return new FileSource(handle, size);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Read up to `length` bytes at `position`; fewer are returned at the end of the file
+   */
+  async read(position: number, length: number): Promise<Buffer> {
+    const available = Math.max(0, Math.min(length, this.size - position));
+    const buffer = Buffer.alloc(available);
+    let offset = 0;
+    while (offset < available) {
+      const { bytesRead } = await this.handle.read(buffer, offset, available - offset, position + offset);
+      if (bytesRead === 0) break;
+      offset += bytesRead;
+    }
+    return offset < available ? buffer.subarray(0, offset) : buffer;
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
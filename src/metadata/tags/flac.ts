@@ -0,0 +1,49 @@
+import { FileSource } from './fileSource';
+import { NativeTags } from './nativeTags';
+import { ID3V2_HEADER_SIZE, id3v2Size } from './id3';
+import { addVorbisComments } from './vorbisComment';
+
+const BLOCK_HEADER_SIZE = 4;
+const BLOCK_TYPE_STREAMINFO = 0;
+const BLOCK_TYPE_VORBIS_COMMENT = 4;
+const LAST_BLOCK_FLAG = 0x80;
+
+/**
+ * Read the Vorbis comments and duration (from STREAMINFO) of a FLAC file.
+ * Other metadata blocks, such as pictures, are skipped without being read.
+ */
+export async function readFlacTags(source: FileSource): Promise<NativeTags> {
+  // Some taggers put an ID3v2 tag in front of the stream
+  let offset = id3v2Size(await source.read(0, ID3V2_HEADER_SIZE));
+  if ((await source.read(offset, 4)).toString('latin1') !== 'fLaC') {
+    throw new Error('not a FLAC stream');
+  }
+  offset += 4;
+
+  const tags: NativeTags['tags'] = {};
+  let duration: number | undefined;
+  let last = false;
+  while (!last) {
+    const header = await source.read(offset, BLOCK_HEADER_SIZE);
+    if (header.length < BLOCK_HEADER_SIZE) {
+      throw new Error('truncated FLAC metadata');
+    }
+    last = (header[0] & LAST_BLOCK_FLAG) !== 0;
+    const type = header[0] & 0x7f;
+    const length = header.readUIntBE(1, 3);
+
+    if (type === BLOCK_TYPE_STREAMINFO) {
+      const info = await source.read(offset + BLOCK_HEADER_SIZE, length);
+      const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+      const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+      if (sampleRate > 0 && totalSamples > 0) {
+        duration = totalSamples / sampleRate;
+      }
+    } else if (type === BLOCK_TYPE_VORBIS_COMMENT) {
+      addVorbisComments(tags, await source.read(offset + BLOCK_HEADER_SIZE, length));
+    }
+    offset += BLOCK_HEADER_SIZE + length;
+  }
+
+  return { format: 'flac', duration, tags };
+}
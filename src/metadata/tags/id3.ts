@@ -0,0 +1,191 @@
+import { NativeTags, TagField, addTag, ID3V1_GENRES } from './nativeTags';
+
+export const ID3V2_HEADER_SIZE = 10;
+export const ID3V1_SIZE = 128;
+
+// Tag header flags
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+const FLAG_FOOTER = 0x10;
+
+// Frame format flags; compressed and encrypted frames can't be read
+const V23_UNREADABLE_FRAME = 0xc0;
+const V24_UNREADABLE_FRAME = 0x0c;
+const V24_GROUPING_IDENTITY = 0x40;
+const V24_UNSYNCHRONISATION = 0x02;
+const V24_DATA_LENGTH_INDICATOR = 0x01;
+
+const MUSICBRAINZ_UFID_OWNER = 'http://musicbrainz.org';
+
+// Text frames of ID3v2.3/2.4, and their three-letter ID3v2.2 equivalents
+const FRAME_FIELDS: Record<string, TagField> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TPE2: 'albumArtist', TP2: 'albumArtist',
+  TALB: 'album', TAL: 'album',
+  TRCK: 'track', TRK: 'track',
+  TPOS: 'disc', TPA: 'disc',
+  TDRC: 'date', TYER: 'date', TYE: 'date',
+  TCON: 'genre', TCO: 'genre',
+  TSRC: 'isrc', TRC: 'isrc'
+};
+
+// User-defined text frames (TXXX), by lowercased description
+const USER_TEXT_FIELDS: Record<string, TagField> = {
+  'musicbrainz track id': 'musicBrainzRecordingId',
+  'musicbrainz album id': 'musicBrainzReleaseId',
+  'isrc': 'isrc'
+};
+
+function readSyncsafe(buffer: Buffer, offset: number): number {
+  return (buffer[offset] << 21) | (buffer[offset + 1] << 14) | (buffer[offset + 2] << 7) | buffer[offset + 3];
+}
+
+/**
+ * Undo unsynchronisation: every 0xFF 0x00 pair was written for a single 0xFF
+ */
+function removeUnsynchronisation(data: Buffer): Buffer {
+  const result = Buffer.alloc(data.length);
+  let length = 0;
+  for (let i = 0; i < data.length; i++) {
+    result[length++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return result.subarray(0, length);
+}
+
+function decodeUtf16be(data: Buffer): string {
+  const swapped = Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  return swapped.swap16().toString('utf16le');
+}
+
+/**
+ * Decode frame text in one of the four ID3v2 encodings
+ */
+function decodeText(encoding: number, data: Buffer): string {
+  switch (encoding) {
+    case 0:
+      return data.toString('latin1');
+    case 1:
+      return data[0] === 0xfe && data[1] === 0xff ? decodeUtf16be(data) : data.toString('utf16le');
+    case 2:
+      return decodeUtf16be(data);
+    default:
+      return data.toString('utf8');
+  }
+}
+
+/**
+ * The null-separated strings of a text frame; ID3v2.4 allows several values per frame
+ */
+function frameStrings(data: Buffer): string[] {
+  return decodeText(data[0], data.subarray(1))
+    .split('\0')
+    .map(value => value.replace(/^\ufeff/, ''));
+}
+
+/**
+ * Resolve ID3v1 genre references such as "(17)", "(17)Rock" or "17"
+ */
+function resolveGenre(value: string): string {
+  const reference = value.match(/^\((\d+)\)(.*)$/);
+  if (reference) {
+    return reference[2].trim() || ID3V1_GENRES[parseInt(reference[1], 10)] || value;
+  }
+  return /^\d+$/.test(value) ? ID3V1_GENRES[parseInt(value, 10)] || value : value;
+}
+
+function readFrame(tags: NativeTags['tags'], id: string, data: Buffer): void {
+  if (data.length === 0) return;
+
+  if (id === 'TXXX' || id === 'TXX') {
+    const [description, ...values] = frameStrings(data);
+    values.forEach(value => addTag(tags, USER_TEXT_FIELDS[description.trim().toLowerCase()], value));
+  } else if (id === 'UFID' || id === 'UFI') {
+    const separator = data.indexOf(0);
+    if (separator > 0 && data.toString('latin1', 0, separator) === MUSICBRAINZ_UFID_OWNER) {
+      addTag(tags, 'musicBrainzRecordingId', data.toString('latin1', separator + 1));
+    }
+  } else if (FRAME_FIELDS[id]) {
+    const field = FRAME_FIELDS[id];
+    frameStrings(data).forEach(value => addTag(tags, field, field === 'genre' ? resolveGenre(value.trim()) : value));
+  }
+}
+
+/**
+ * Total size of the ID3v2 tag at the start of a buffer, or 0 when there is none
+ */
+export function id3v2Size(header: Buffer): number {
+  if (header.length < ID3V2_HEADER_SIZE || header.toString('latin1', 0, 3) !== 'ID3') return 0;
+  return ID3V2_HEADER_SIZE + readSyncsafe(header, 6) + (header[5] & FLAG_FOOTER ? ID3V2_HEADER_SIZE : 0);
+}
+
+/**
+ * Read the fields of an ID3v2.2, 2.3 or 2.4 tag. Compressed and encrypted frames are skipped.
+ */
+export function parseId3v2(buffer: Buffer): NativeTags['tags'] {
+  const tags: NativeTags['tags'] = {};
+  const version = buffer[3];
+  const flags = buffer[5];
+  if (version < 2 || version > 4) {
+    throw new Error(`unsupported ID3v2.${version} tag`);
+  }
+
+  let body = buffer.subarray(ID3V2_HEADER_SIZE, ID3V2_HEADER_SIZE + readSyncsafe(buffer, 6));
+  // Up to v2.3 unsynchronisation applies to the whole tag, in v2.4 to each frame
+  if (version < 4 && flags & FLAG_UNSYNCHRONISATION) {
+    body = removeUnsynchronisation(body);
+  }
+
+  let offset = 0;
+  if (version > 2 && flags & FLAG_EXTENDED_HEADER) {
+    offset = version === 4 ? readSyncsafe(body, 0) : body.readUInt32BE(0) + 4;
+  }
+
+  const frameHeaderSize = version === 2 ? 6 : 10;
+  while (offset + frameHeaderSize <= body.length) {
+    const id = body.toString('latin1', offset, offset + (version === 2 ? 3 : 4));
+    // Padding, or garbage after the last frame
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    const size = version === 2
+      ? body.readUIntBE(offset + 3, 3)
+      : version === 4 ? readSyncsafe(body, offset + 4) : body.readUInt32BE(offset + 4);
+    const formatFlags = version === 2 ? 0 : body[offset + 9];
+    let data = body.subarray(offset + frameHeaderSize, offset + frameHeaderSize + size);
+    offset += frameHeaderSize + size;
+
+    if (version === 3 && formatFlags & V23_UNREADABLE_FRAME) continue;
+    if (version === 4) {
+      if (formatFlags & V24_UNREADABLE_FRAME) continue;
+      if (formatFlags & V24_GROUPING_IDENTITY) data = data.subarray(1);
+      if (formatFlags & V24_DATA_LENGTH_INDICATOR) data = data.subarray(4);
+      if (formatFlags & V24_UNSYNCHRONISATION || flags & FLAG_UNSYNCHRONISATION) data = removeUnsynchronisation(data);
+    }
+    readFrame(tags, id, data);
+  }
+
+  return tags;
+}
+
+/**
+ * Read an ID3v1 tag from the last 128 bytes of a file, or null when there is none
+ */
+export function parseId3v1(buffer: Buffer): NativeTags['tags'] | null {
+  if (buffer.length < ID3V1_SIZE) return null;
+  const tag = buffer.subarray(buffer.length - ID3V1_SIZE);
+  if (tag.toString('latin1', 0, 3) !== 'TAG') return null;
+
+  const text = (start: number, length: number) => tag.toString('latin1', start, start + length).replace(/\0[\s\S]*$/, '');
+  const tags: NativeTags['tags'] = {};
+  addTag(tags, 'title', text(3, 30));
+  addTag(tags, 'artist', text(33, 30));
+  addTag(tags, 'album', text(63, 30));
+  addTag(tags, 'date', text(93, 4));
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  if (tag[125] === 0 && tag[126] !== 0) {
+    addTag(tags, 'track', String(tag[126]));
+  }
+  addTag(tags, 'genre', ID3V1_GENRES[tag[127]]);
+  return tags;
+}
@@ -0,0 +1,42 @@
+import { AudioContainer, sniffAudioFormat } from '../audioFormats';
+import { FileSource } from './fileSource';
+import { NativeTags } from './nativeTags';
+import { readMpegTags } from './mpeg';
+import { readFlacTags } from './flac';
+import { readOggTags } from './ogg';
+import { readMp4Tags } from './mp4';
+import { readAsfTags } from './asf';
+import { readWavTags } from './wav';
+
+export { NativeTags, TagField } from './nativeTags';
+
+type TagReader = (source: FileSource) => Promise<NativeTags>;
+
+const READERS: Partial<Record<AudioContainer, TagReader>> = {
+  mpeg: readMpegTags,
+  flac: readFlacTags,
+  ogg: readOggTags,
+  mp4: readMp4Tags,
+  asf: readAsfTags,
+  riff: readWavTags
+};
+
+/**
+ * Read the tags and duration of an audio file without ffprobe. The container is recognized
+ * from the file's content unless given. Returns null for unrecognized files and containers there's
+ * no native reader for; throws when the file can't be parsed.
+ */
+export async function readNativeTags(filePath: string, container?: AudioContainer): Promise<NativeTags | null> {
+  const detected = container ?? (await sniffAudioFormat(filePath))?.container;
+  const reader = detected && READERS[detected];
+  if (!reader) {
+    return null;
+  }
+
+  const source = await FileSource.open(filePath);
+  try {
+    return await reader(source);
+  } finally {
+    await source.close();
+  }
+}
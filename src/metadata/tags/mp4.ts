@@ -0,0 +1,127 @@
+import { FileSource } from './fileSource';
+import { NativeTags, TagField, addTag, ID3V1_GENRES } from './nativeTags';
+
+// Text atoms of the iTunes metadata list
+const ITEM_FIELDS: Record<string, TagField> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  'aART': 'albumArtist',
+  '©alb': 'album',
+  '©day': 'date',
+  '©gen': 'genre'
+};
+
+// Freeform "----" atoms, by name
+const FREEFORM_FIELDS: Record<string, TagField> = {
+  'ISRC': 'isrc',
+  'MusicBrainz Track Id': 'musicBrainzRecordingId',
+  'MusicBrainz Album Id': 'musicBrainzReleaseId'
+};
+
+// A data atom's payload follows 4 bytes of type and 4 of locale
+const DATA_HEADER_SIZE = 8;
+
+interface Atom {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function atomAt(header: Buffer, offset: number, end: number): Atom {
+  let size = header.readUInt32BE(0);
+  const type = header.toString('latin1', 4, 8);
+  let headerSize = 8;
+  if (size === 1) {
+    size = Number(header.readBigUInt64BE(8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (size < headerSize) {
+    throw new Error(`corrupt MP4 atom ${type}`);
+  }
+  return { type, start: offset, headerSize, end: Math.min(offset + size, end) };
+}
+
+function childAtoms(buffer: Buffer, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    const atom = atomAt(buffer.subarray(offset, offset + 16), offset, end);
+    atoms.push(atom);
+    offset = atom.end;
+  }
+  return atoms;
+}
+
+function child(buffer: Buffer, parent: Atom, type: string, skip = 0): Atom | undefined {
+  return childAtoms(buffer, parent.start + parent.headerSize + skip, parent.end).find(atom => atom.type === type);
+}
+
+/**
+ * Find the moov atom among the top-level atoms; it may come after the media data
+ */
+export async function readMoov(source: FileSource): Promise<Buffer> {
+  for (let offset = 0; offset + 8 <= source.size;) {
+    const atom = atomAt(await source.read(offset, 16), offset, source.size);
+    if (atom.type === 'moov') {
+      return source.read(atom.start, atom.end - atom.start);
+    }
+    offset = atom.end;
+  }
+  throw new Error('no moov atom found');
+}
+
+function readItem(tags: NativeTags['tags'], moov: Buffer, item: Atom): void {
+  const children = childAtoms(moov, item.start + item.headerSize, item.end);
+  for (const data of children.filter(atom => atom.type === 'data')) {
+    const value = moov.subarray(data.start + data.headerSize + DATA_HEADER_SIZE, data.end);
+    if (item.type === 'trkn' || item.type === 'disk') {
+      const number = value.length >= 4 ? value.readUInt16BE(2) : 0;
+      addTag(tags, item.type === 'trkn' ? 'track' : 'disc', number > 0 ? String(number) : undefined);
+    } else if (item.type === 'gnre') {
+      addTag(tags, 'genre', value.length >= 2 ? ID3V1_GENRES[value.readUInt16BE(0) - 1] : undefined);
+    } else if (item.type === '----') {
+      // A mean atom, a name atom (both full boxes), then the data
+      const name = children.find(atom => atom.type === 'name');
+      const field = name && FREEFORM_FIELDS[moov.toString('utf8', name.start + name.headerSize + 4, name.end)];
+      addTag(tags, field, value.toString('utf8'));
+    } else {
+      addTag(tags, ITEM_FIELDS[item.type], value.toString('utf8'));
+    }
+  }
+}
+
+/**
+ * Read the iTunes metadata list and duration (from mvhd) of an MP4/M4A file
+ */
+export async function readMp4Tags(source: FileSource): Promise<NativeTags> {
+  const moov = await readMoov(source);
+  const root = atomAt(moov, 0, moov.length);
+  const tags: NativeTags['tags'] = {};
+
+  let duration: number | undefined;
+  const mvhd = child(moov, root, 'mvhd');
+  if (mvhd) {
+    const body = mvhd.start + mvhd.headerSize;
+    const version = moov[body];
+    const timescale = moov.readUInt32BE(body + (version === 1 ? 20 : 12));
+    const length = version === 1 ? Number(moov.readBigUInt64BE(body + 24)) : moov.readUInt32BE(body + 16);
+    if (timescale > 0) {
+      duration = length / timescale;
+    }
+  }
+
+  const udta = child(moov, root, 'udta');
+  const meta = udta && child(moov, udta, 'meta');
+  if (meta) {
+    // iTunes writes meta as a full box; QuickTime files have no version and flags
+    const fullBox = moov.toString('latin1', meta.start + meta.headerSize + 4, meta.start + meta.headerSize + 8) !== 'hdlr';
+    const ilst = child(moov, meta, 'ilst', fullBox ? 4 : 0);
+    if (ilst) {
+      childAtoms(moov, ilst.start + ilst.headerSize, ilst.end).forEach(item => readItem(tags, moov, item));
+    }
+  }
+
+  return { format: 'mp4', duration, tags };
+}
@@ -0,0 +1,120 @@
+import { FileSource } from './fileSource';
+import { NativeTags, mergeMissingTags } from './nativeTags';
+import { ID3V1_SIZE, ID3V2_HEADER_SIZE, id3v2Size, parseId3v1, parseId3v2 } from './id3';
+
+// Enough audio to find the first frame behind padding or junk, and its Xing/VBRI header
+const FRAME_SEARCH_SIZE = 64 * 1024;
+
+// Bitrates in kbps by [MPEG-1, MPEG-2/2.5] and layer
+const BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+};
+
+// Sample rates by version bits (MPEG-2.5, reserved, MPEG-2, MPEG-1)
+const SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+interface FrameHeader {
+  mpeg1: boolean;
+  layer: number;
+  mono: boolean;
+  bitrate: number;
+  sampleRate: number;
+  samplesPerFrame: number;
+  length: number;
+}
+
+function parseFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = BITRATES[`${mpeg1 ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !mpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor(12000 * bitrate / sampleRate) + padding) * 4
+    : Math.floor(samplesPerFrame / 8 * 1000 * bitrate / sampleRate) + padding;
+
+  return { mpeg1, layer, mono: buffer[offset + 3] >> 6 === 3, bitrate, sampleRate, samplesPerFrame, length };
+}
+
+/**
+ * The first frame in a buffer whose successor, if the buffer reaches it, is a frame too
+ */
+function findFirstFrame(buffer: Buffer): { offset: number; header: FrameHeader } | null {
+  for (let offset = buffer.indexOf(0xff); offset >= 0; offset = buffer.indexOf(0xff, offset + 1)) {
+    const header = parseFrameHeader(buffer, offset);
+    if (!header) continue;
+    const next = offset + header.length;
+    if (next + 4 > buffer.length || parseFrameHeader(buffer, next)) {
+      return { offset, header };
+    }
+  }
+  return null;
+}
+
+/**
+ * Duration from the Xing/Info or VBRI header of the first frame, or estimated from the
+ * bitrate for constant bitrate files
+ */
+function mpegDuration(buffer: Buffer, offset: number, header: FrameHeader, audioLength: number): number {
+  const sideInfoSize = header.mpeg1 ? (header.mono ? 17 : 32) : (header.mono ? 9 : 17);
+  const xing = offset + 4 + sideInfoSize;
+  const xingId = buffer.toString('latin1', xing, xing + 4);
+  if ((xingId === 'Xing' || xingId === 'Info') && buffer[xing + 7] & 0x01 && xing + 12 <= buffer.length) {
+    return buffer.readUInt32BE(xing + 8) * header.samplesPerFrame / header.sampleRate;
+  }
+
+  const vbri = offset + 4 + 32;
+  if (buffer.toString('latin1', vbri, vbri + 4) === 'VBRI' && vbri + 18 <= buffer.length) {
+    return buffer.readUInt32BE(vbri + 14) * header.samplesPerFrame / header.sampleRate;
+  }
+
+  return (audioLength - offset) * 8 / (header.bitrate * 1000);
+}
+
+/**
+ * Read the ID3v2 tag (falling back to ID3v1) and duration of an MP3 file
+ */
+export async function readMpegTags(source: FileSource): Promise<NativeTags> {
+  let tags: NativeTags['tags'] = {};
+  const audioStart = id3v2Size(await source.read(0, ID3V2_HEADER_SIZE));
+  if (audioStart > 0) {
+    tags = parseId3v2(await source.read(0, audioStart));
+  }
+
+  let audioEnd = source.size;
+  const id3v1 = parseId3v1(await source.read(Math.max(0, source.size - ID3V1_SIZE), ID3V1_SIZE));
+  if (id3v1) {
+    mergeMissingTags(tags, id3v1);
+    audioEnd -= ID3V1_SIZE;
+  }
+
+  const audio = await source.read(audioStart, FRAME_SEARCH_SIZE);
+  const frame = findFirstFrame(audio);
+  if (!frame) {
+    throw new Error('no MPEG audio frame found');
+  }
+
+  return {
+    format: 'mp3',
+    duration: mpegDuration(audio, frame.offset, frame.header, audioEnd - audioStart),
+    tags
+  };
+}
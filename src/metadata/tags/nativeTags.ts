@@ -0,0 +1,67 @@
+/**
+ * Tag fields the native readers map their format's tags onto
+ */
+export type TagField =
+  | 'artist'
+  | 'albumArtist'
+  | 'title'
+  | 'album'
+  | 'track'
+  | 'disc'
+  | 'date'
+  | 'genre'
+  | 'isrc'
+  | 'musicBrainzRecordingId'
+  | 'musicBrainzReleaseId';
+
+/**
+ * Tags and duration read from an audio file without ffprobe
+ */
+export interface NativeTags {
+  /** Container format, e.g. 'mp3' or 'flac' */
+  format: string;
+  /** Duration in seconds, computed from the stream headers */
+  duration?: number;
+  tags: Partial<Record<TagField, string>>;
+}
+
+// Several values of one field, e.g. two ARTIST comments, are joined like this
+const MULTIPLE_VALUES_SEPARATOR = '; ';
+
+/**
+ * Add a value to a field, appending to values already read. Empty values are ignored.
+ */
+export function addTag(tags: NativeTags['tags'], field: TagField | undefined, value: string | undefined): void {
+  const trimmed = value?.replace(/\0+$/, '').trim();
+  if (!field || !trimmed) return;
+
+  const existing = tags[field];
+  if (!existing) {
+    tags[field] = trimmed;
+  } else if (!existing.split(MULTIPLE_VALUES_SEPARATOR).includes(trimmed)) {
+    tags[field] = `${existing}${MULTIPLE_VALUES_SEPARATOR}${trimmed}`;
+  }
+}
+
+/**
+ * Fill fields missing from `tags` with those of a secondary tag, such as ID3v1 behind ID3v2
+ */
+export function mergeMissingTags(tags: NativeTags['tags'], fallback: NativeTags['tags']): void {
+  for (const [field, value] of Object.entries(fallback) as Array<[TagField, string]>) {
+    if (!tags[field]) {
+      tags[field] = value;
+    }
+  }
+}
+
+// ID3v1 genre numbers, also used by ID3v2 "(17)" references and the MP4 gnre atom
+export const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+  'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+  'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+  'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+  'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+  'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+  'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock'
+];
@@ -0,0 +1,98 @@
+import { FileSource } from './fileSource';
+import { NativeTags } from './nativeTags';
+import { addVorbisComments } from './vorbisComment';
+
+const PAGE_HEADER_SIZE = 27;
+// A page is at most 64KB, so the last one starts within this many bytes of the end
+const LAST_PAGE_SEARCH_SIZE = 65307;
+const OPUS_SAMPLE_RATE = 48000;
+
+const VORBIS_COMMENT_PREFIX = '\x03vorbis';
+const OPUS_COMMENT_PREFIX = 'OpusTags';
+
+/**
+ * Read the identification and comment packets of the first logical stream
+ */
+async function readHeaderPackets(source: FileSource): Promise<{ packets: Buffer[]; serial: number }> {
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let serial: number | undefined;
+  let offset = 0;
+
+  while (packets.length < 2) {
+    const header = await source.read(offset, PAGE_HEADER_SIZE);
+    if (header.length < PAGE_HEADER_SIZE || header.toString('latin1', 0, 4) !== 'OggS') {
+      throw new Error(`invalid Ogg page at offset ${offset}`);
+    }
+    const segments = [...await source.read(offset + PAGE_HEADER_SIZE, header[26])];
+    const dataOffset = offset + PAGE_HEADER_SIZE + segments.length;
+    const dataLength = segments.reduce((sum, size) => sum + size, 0);
+    offset = dataOffset + dataLength;
+
+    // Pages of other multiplexed streams are skipped
+    serial = serial ?? header.readUInt32LE(14);
+    if (header.readUInt32LE(14) !== serial) continue;
+
+    const data = await source.read(dataOffset, dataLength);
+    let position = 0;
+    for (const size of segments) {
+      current.push(data.subarray(position, position + size));
+      position += size;
+      if (size < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+      }
+    }
+  }
+
+  return { packets, serial: serial! };
+}
+
+/**
+ * The granule position of the last page of a stream: its total number of samples
+ */
+async function lastGranule(source: FileSource, serial: number): Promise<number | undefined> {
+  const start = Math.max(0, source.size - LAST_PAGE_SEARCH_SIZE);
+  const tail = await source.read(start, LAST_PAGE_SEARCH_SIZE);
+  for (let offset = tail.lastIndexOf('OggS'); offset >= 0; offset = offset > 0 ? tail.lastIndexOf('OggS', offset - 1) : -1) {
+    if (offset + PAGE_HEADER_SIZE > tail.length || tail.readUInt32LE(offset + 14) !== serial) continue;
+    const granule = tail.readBigInt64LE(offset + 6);
+    if (granule >= 0) {
+      return Number(granule);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the comments and duration of an Ogg Vorbis or Opus file
+ */
+export async function readOggTags(source: FileSource): Promise<NativeTags> {
+  const { packets: [identification, comments], serial } = await readHeaderPackets(source);
+  const tags: NativeTags['tags'] = {};
+  let format: string;
+  let sampleRate: number;
+  let preSkip = 0;
+
+  if (identification.toString('latin1', 0, 7) === '\x01vorbis') {
+    format = 'ogg';
+    sampleRate = identification.readUInt32LE(12);
+    if (comments.toString('latin1', 0, VORBIS_COMMENT_PREFIX.length) === VORBIS_COMMENT_PREFIX) {
+      addVorbisComments(tags, comments, VORBIS_COMMENT_PREFIX.length);
+    }
+  } else if (identification.toString('latin1', 0, 8) === 'OpusHead') {
+    format = 'opus';
+    // Opus granule positions always count 48kHz samples, including the decoder's pre-skip
+    sampleRate = OPUS_SAMPLE_RATE;
+    preSkip = identification.readUInt16LE(10);
+    if (comments.toString('latin1', 0, OPUS_COMMENT_PREFIX.length) === OPUS_COMMENT_PREFIX) {
+      addVorbisComments(tags, comments, OPUS_COMMENT_PREFIX.length);
+    }
+  } else {
+    throw new Error('unsupported Ogg codec');
+  }
+
+  const granule = await lastGranule(source, serial);
+  const duration = granule !== undefined && sampleRate > 0 ? Math.max(0, granule - preSkip) / sampleRate : undefined;
+  return { format, duration, tags };
+}
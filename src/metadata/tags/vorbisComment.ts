@@ -0,0 +1,32 @@
+import { parseVorbisComment } from '../../writer/embed/vorbisComment';
+import { NativeTags, TagField, addTag } from './nativeTags';
+
+// Vorbis comment field names are case-insensitive
+const VORBIS_FIELDS: Record<string, TagField> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUMARTIST: 'albumArtist',
+  'ALBUM ARTIST': 'albumArtist',
+  ALBUM_ARTIST: 'albumArtist',
+  ALBUM: 'album',
+  TRACKNUMBER: 'track',
+  DISCNUMBER: 'disc',
+  DATE: 'date',
+  YEAR: 'date',
+  GENRE: 'genre',
+  ISRC: 'isrc',
+  MUSICBRAINZ_TRACKID: 'musicBrainzRecordingId',
+  MUSICBRAINZ_ALBUMID: 'musicBrainzReleaseId'
+};
+
+/**
+ * Add the fields of a Vorbis comment structure (as found in FLAC, Ogg Vorbis and Opus) starting at offset
+ */
+export function addVorbisComments(tags: NativeTags['tags'], data: Buffer, offset = 0): void {
+  const { comment } = parseVorbisComment(data, offset);
+  for (const entry of comment.comments) {
+    const separator = entry.indexOf(0x3d); // '='
+    if (separator <= 0) continue;
+    addTag(tags, VORBIS_FIELDS[entry.toString('utf8', 0, separator).toUpperCase()], entry.toString('utf8', separator + 1));
+  }
+}
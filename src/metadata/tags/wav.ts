@@ -0,0 +1,67 @@
+import { FileSource } from './fileSource';
+import { NativeTags, TagField, addTag, mergeMissingTags } from './nativeTags';
+import { parseId3v2 } from './id3';
+
+const CHUNK_HEADER_SIZE = 8;
+
+// RIFF INFO list chunks
+const INFO_FIELDS: Record<string, TagField> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  ICRD: 'date',
+  IGNR: 'genre',
+  ITRK: 'track',
+  IPRT: 'track'
+};
+
+function readInfoList(tags: NativeTags['tags'], list: Buffer): void {
+  for (let offset = 4; offset + CHUNK_HEADER_SIZE <= list.length;) {
+    const id = list.toString('latin1', offset, offset + 4);
+    const size = list.readUInt32LE(offset + 4);
+    addTag(tags, INFO_FIELDS[id], list.toString('utf8', offset + CHUNK_HEADER_SIZE, offset + CHUNK_HEADER_SIZE + size));
+    offset += CHUNK_HEADER_SIZE + size + (size % 2);
+  }
+}
+
+/**
+ * Read the ID3 chunk or INFO list and duration of a WAV file
+ */
+export async function readWavTags(source: FileSource): Promise<NativeTags> {
+  const header = await source.read(0, 12);
+  if (header.toString('latin1', 0, 4) !== 'RIFF' || header.toString('latin1', 8, 12) !== 'WAVE') {
+    throw new Error('not a RIFF/WAVE file');
+  }
+
+  let id3Tags: NativeTags['tags'] = {};
+  const infoTags: NativeTags['tags'] = {};
+  let byteRate = 0;
+  let dataSize = 0;
+  for (let offset = 12; offset + CHUNK_HEADER_SIZE <= source.size;) {
+    const chunk = await source.read(offset, CHUNK_HEADER_SIZE);
+    const id = chunk.toString('latin1', 0, 4);
+    const size = chunk.readUInt32LE(4);
+    const dataOffset = offset + CHUNK_HEADER_SIZE;
+
+    if (id === 'fmt ') {
+      byteRate = (await source.read(dataOffset, 16)).readUInt32LE(8);
+    } else if (id === 'data') {
+      // Streamed files may leave the size unset
+      dataSize = Math.min(size, source.size - dataOffset);
+    } else if (id === 'LIST') {
+      const list = await source.read(dataOffset, size);
+      if (list.toString('latin1', 0, 4) === 'INFO') {
+        readInfoList(infoTags, list);
+      }
+    } else if (id.toLowerCase() === 'id3 ') {
+      const tag = await source.read(dataOffset, size);
+      if (tag.toString('latin1', 0, 3) === 'ID3') {
+        id3Tags = parseId3v2(tag);
+      }
+    }
+    offset = dataOffset + size + (size % 2);
+  }
+
+  mergeMissingTags(id3Tags, infoTags);
+  return { format: 'wav', duration: byteRate > 0 && dataSize > 0 ? dataSize / byteRate : undefined, tags: id3Tags };
+}
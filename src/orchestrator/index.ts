@@ -1,21 +1,74 @@
+import fs from 'fs';
+import path from 'path';
 import { Logger, LogLevel, logger } from '../utils/logger';
-import { scanDirectory } from '../scanner/fileScanner';
-import { extractMetadata } from '../metadata/extractor';
-import { LrcLibClient } from '../api/lrclib';
+import { scanDirectory, validateScanOptions, DEFAULT_SCAN_OPTIONS } from '../scanner/fileScanner';
+import { extractMetadata, MetadataCache, validateMetadataOptions, DEFAULT_METADATA_OPTIONS } from '../metadata/extractor';
+import { LrcLibClient, DEFAULT_LRCLIB_API_OPTIONS } from '../api/lrclib';
+import { DEFAULT_NETWORK_OPTIONS } from '../api/retry';
+import { LookupCache, DEFAULT_CACHE_OPTIONS } from '../cache/lookupCache';
+import { ScanStateStore, DEFAULT_STATE_OPTIONS, outcomeOf } from '../state/scanState';
+import { ReviewQueue, DEFAULT_REVIEW_OPTIONS, needsReview } from '../review/reviewQueue';
+import { TrackOverrides, loadTrackOverrides } from '../overrides/trackOverrides';
+import { searchVariants, validateNormalizationOptions, DEFAULT_NORMALIZATION_OPTIONS, ORIGINAL_VARIANT } from '../metadata/normalization';
+import { NOT_FOUND_REASON, DURATION_MISMATCH_REASON, QUEUED_FOR_REVIEW_REASON, EXCLUDED_BY_OVERRIDE_REASON } from './reasons';
+import { ProviderChain } from '../providers/providerChain';
+import { providerRegistry, DEFAULT_PROVIDERS } from '../providers/registry';
+import { parseLyricsFile } from '../providers/localLyricsProvider';
+import { scoreAgainstTrack } from '../api/matching';
 import { LyricsFileWriter } from '../writer/fileWriter';
+import { DEFAULT_PATH_TEMPLATE } from '../writer/outputPath';
+import { LyricsWriteIntents, WriteIntentRecorder } from '../writer/writeIntents';
+import { LyricsPublisher } from '../publish/lyricsPublisher';
+import { runWorkerPool } from '../utils/workerPool';
 import {
   ProcessResult,
   TrackMetadata,
   OrchestratorOptions,
-  ScanOptions
+  ScanOptions,
+  LyricsType,
+  LyricResult,
+  MatchedCandidate,
+  ProcessTimings,
+  AppliedOverride
 } from '../types';
-import {MetadataExtractionError} from "../utils/errorHandling";
+import {
+  MetadataExtractionError,
+  DurationMismatchError,
+  InsufficientMetadataError,
+  LyricsNotFoundError,
+  ReviewPendingError,
+  ConfigurationError
+} from "../utils/errorHandling";
+/**
+ * Summarize the chosen lyrics for a result, leaving out their content
+ */
+function describeMatch(lyrics: LyricResult): MatchedCandidate {
+  return {
+    source: lyrics.source,
+    artist: lyrics.artist,
+    title: lyrics.title,
+    album: lyrics.album,
+    score: lyrics.score,
+    matchStage: lyrics.matchStage,
+    durationDelta: lyrics.durationDelta,
+    searchVariant: lyrics.searchVariant,
+    variantScore: lyrics.variantScore,
+    matchReasons: lyrics.matchReasons
+  };
+}
+
 /**
  * Main orchestrator for the lyrics fetching process
  */
 export class LyricsFetcherOrchestrator {
   private lrcLibClient: LrcLibClient;
+  private providerChain: ProviderChain;
   private fileWriter: LyricsFileWriter;
+  private writeIntents: LyricsWriteIntents;
+  private reviewQueue: ReviewQueue;
+  private overrides?: TrackOverrides;
+  private metadataCache = new MetadataCache();
+  private readonly options: Partial<OrchestratorOptions>;
 
   private mapLogLevel(level?: string): LogLevel {
     switch (level) {
@@ -40,19 +93,257 @@ export class LyricsFetcherOrchestrator {
       });
     }
 
+    this.options = options;
     this.lrcLibClient = new LrcLibClient();
+    this.providerChain = this.createProviderChain(this.resolveOptions({}));
     this.fileWriter = new LyricsFileWriter();
+    this.writeIntents = this.fileWriter;
+    this.reviewQueue = new ReviewQueue(this.resolveOptions({}).review);
 
     logger.info('Orchestrator', 'Initialized LyricsFetcherOrchestrator');
   }
   /**
- * Process a directory of audio files to fetch lyrics
- */
+   * Process a directory of audio files to fetch lyrics
+   */
   async processDirectory(
     directory: string,
     options: Partial<OrchestratorOptions> = {}
   ): Promise<ProcessResult[]> {
-    // Set default options with proper structure
+    const mergedOptions = this.resolveOptions(options);
+    mergedOptions.file.libraryRoot = mergedOptions.file.libraryRoot ?? path.resolve(directory);
+
+    // Convert to scan options format
+    validateScanOptions(mergedOptions.scan!);
+    const scanOptions: ScanOptions = {
+      recursive: true, // Default to true if not specified
+      skipExisting: mergedOptions.file.skipExisting,
+      ...mergedOptions.scan!
+    };
+
+    const audioFiles = await scanDirectory(directory, scanOptions);
+    return this.processFiles(audioFiles, mergedOptions);
+  }
+
+  /**
+   * Fetch lyrics for a list of audio files
+   */
+  async processFiles(
+    audioFiles: string[],
+    options: Partial<OrchestratorOptions> = {}
+  ): Promise<ProcessResult[]> {
+    const mergedOptions = this.resolveOptions(options);
+
+    this.configureClient(mergedOptions);
+    this.lrcLibClient.useCache(mergedOptions.cache!.enabled ? new LookupCache(mergedOptions.cache) : undefined);
+    this.providerChain = this.createProviderChain(mergedOptions);
+    this.configureWriter(mergedOptions);
+
+    // A dry run records the writes instead of making them, and leaves the cache and scan state untouched
+    const recorder = mergedOptions.dryRun ? new WriteIntentRecorder(this.fileWriter) : undefined;
+    this.writeIntents = recorder ?? this.fileWriter;
+
+    // Review decisions are always reused; new ambiguous matches are only queued when review is enabled
+    this.reviewQueue = new ReviewQueue(mergedOptions.review);
+    this.overrides = mergedOptions.overrides ? await loadTrackOverrides(mergedOptions.overrides) : undefined;
+    validateNormalizationOptions(mergedOptions.normalization!);
+    validateMetadataOptions(mergedOptions.metadata!);
+
+    // Metadata is extracted once per run, including for the error path of a file
+    this.metadataCache = new MetadataCache(mergedOptions.metadata!.concurrency);
+
+    // With incremental state, only reprocess files that are new, changed or due for a retry.
+    // Overwrite mode rewrites every file, so it bypasses the state.
+    const state = this.createStateStore(mergedOptions);
+    const output = this.fileWriter.outputFingerprint();
+    const pendingFiles = await this.selectPendingFiles(audioFiles, output, state);
+
+    // Read tags ahead of the processing workers. Files skipped for existing lyrics don't need
+    // their metadata unless path templates use tags, so those are read on demand.
+    if (!(mergedOptions.file.skipExisting && !mergedOptions.file.overwriteExisting) || this.fileWriter.needsMetadata()) {
+      this.metadataCache.prefetch(pendingFiles.filter(file => !file.metadata).map(file => file.filePath));
+    }
+
+    // Process files through a worker pool so one slow file doesn't stall the others
+    const concurrency = mergedOptions.batch.enabled ? mergedOptions.batch.size : 1;
+    logger.debug('Orchestrator', `Processing ${pendingFiles.length} files with ${concurrency} workers`);
+
+    let processed = 0;
+    try {
+      return await runWorkerPool(pendingFiles, concurrency, async ({ filePath, metadata }) => {
+        const result = await this.processAudioFile(filePath, mergedOptions, metadata);
+        if (recorder) {
+          result.plan = recorder.planFor(result);
+        }
+        if (state && !result.skipped && !mergedOptions.dryRun) {
+          await state.record(result, outcomeOf(result), output);
+        }
+        processed++;
+
+        // Report progress if callback is provided
+        if (mergedOptions.onProgress) {
+          mergedOptions.onProgress(processed, pendingFiles.length);
+        }
+
+        return result;
+      });
+    } finally {
+      if (!mergedOptions.dryRun) {
+        await this.lrcLibClient.flushCache();
+        await state?.flush();
+        await this.reviewQueue.flush();
+      }
+    }
+  }
+
+  /**
+   * Move the lyrics of an audio file that was moved or renamed
+   */
+  async moveLyrics(oldAudioPath: string, newAudioPath: string, options: Partial<OrchestratorOptions> = {}): Promise<void> {
+    const mergedOptions = this.resolveOptions(options);
+    this.configureWriter(mergedOptions);
+
+    // Tags don't change with a move, so the new file's metadata also locates the old lyrics
+    let metadata: TrackMetadata | undefined;
+    if (this.fileWriter.needsMetadata()) {
+      metadata = await extractMetadata(newAudioPath).catch(() => null)
+        ?? await this.createStateStore(mergedOptions)?.knownMetadata(oldAudioPath);
+    }
+
+    if (mergedOptions.dryRun) {
+      logger.info('Orchestrator', `Dry run: would move lyrics of ${oldAudioPath} to follow ${newAudioPath}`);
+      return;
+    }
+
+    const moved = await this.fileWriter.moveLyrics(oldAudioPath, newAudioPath, metadata);
+    moved.forEach(lyricPath => logger.info('Orchestrator', `Moved lyrics to: ${lyricPath}`));
+    await this.forgetFile(oldAudioPath, options);
+  }
+
+  /**
+   * Remove the orphaned lyrics of an audio file that was deleted
+   */
+  async removeLyrics(audioPath: string, options: Partial<OrchestratorOptions> = {}): Promise<void> {
+    const mergedOptions = this.resolveOptions(options);
+    this.configureWriter(mergedOptions);
+
+    // A deleted file can't be read, so templates that use tags rely on the metadata from the scan state
+    let metadata: TrackMetadata | undefined;
+    if (this.fileWriter.needsMetadata()) {
+      metadata = await this.createStateStore(mergedOptions)?.knownMetadata(audioPath);
+      if (!metadata) {
+        logger.warn('Orchestrator', `Cannot locate the lyrics of deleted file without its metadata: ${audioPath}`);
+      }
+    }
+
+    if (mergedOptions.dryRun) {
+      this.fileWriter.existingLyricsFiles(audioPath, metadata)
+        .forEach(lyricPath => logger.info('Orchestrator', `Dry run: would remove orphaned lyrics: ${lyricPath}`));
+      return;
+    }
+
+    if (this.fileWriter.lyricsFileExists(audioPath, metadata)) {
+      await this.fileWriter.deleteExistingLyrics(audioPath, metadata);
+      logger.info('Orchestrator', `Removed orphaned lyrics for: ${audioPath}`);
+    }
+    await this.forgetFile(audioPath, options);
+  }
+
+  /**
+   * Create a publisher that uploads local lyrics through this fetcher's LRCLIB client,
+   * finding lyrics files where this fetcher writes them
+   */
+  createPublisher(options: Partial<OrchestratorOptions> = {}): LyricsPublisher {
+    const mergedOptions = this.resolveOptions(options);
+    this.configureClient(mergedOptions);
+    this.configureWriter(mergedOptions);
+    return new LyricsPublisher(this.lrcLibClient, this.fileWriter);
+  }
+
+  private configureClient(options: OrchestratorOptions): void {
+    // Every file shares the client's scheduler, so request load is bounded regardless of concurrency
+    this.lrcLibClient.configureRateLimit({
+      ...options.rateLimit,
+      minIntervalMs: options.batch.delayMs
+    });
+    this.lrcLibClient.configureNetwork(options.network!);
+    this.lrcLibClient.configureApi(options.lrclib!);
+  }
+
+  private configureWriter(options: OrchestratorOptions): void {
+    this.fileWriter.configure({
+      mode: options.file.output,
+      lrcHeaders: options.file.lrcHeaders,
+      formats: options.file.formats,
+      pathTemplate: options.file.pathTemplate,
+      pathTemplates: options.file.pathTemplates,
+      lyricsRoot: options.file.lyricsRoot && path.resolve(options.file.lyricsRoot),
+      libraryRoot: options.file.libraryRoot
+    });
+  }
+
+  private async forgetFile(audioPath: string, options: Partial<OrchestratorOptions>): Promise<void> {
+    const mergedOptions = this.resolveOptions(options);
+    const state = this.createStateStore(mergedOptions);
+    if (state) {
+      await state.remove(audioPath);
+      await state.flush();
+    }
+
+    const reviewQueue = new ReviewQueue(mergedOptions.review);
+    await reviewQueue.remove(audioPath);
+    await reviewQueue.flush();
+  }
+
+  /**
+   * Build the ordered provider chain, resolving provider names through the registry
+   */
+  private createProviderChain(options: OrchestratorOptions): ProviderChain {
+    const providers = options.providers!.map(provider =>
+      typeof provider === 'string'
+        ? providerRegistry.create(provider, { options, lrcLibClient: this.lrcLibClient })
+        : provider
+    );
+    logger.debug('Orchestrator', `Using lyrics providers: ${providers.map(provider => provider.name).join(' -> ')}`);
+    return new ProviderChain(providers);
+  }
+
+  private createStateStore(options: OrchestratorOptions): ScanStateStore | undefined {
+    return options.state!.enabled && !options.file.overwriteExisting
+      ? new ScanStateStore(options.state)
+      : undefined;
+  }
+
+  /**
+   * Filter out files the scan state says are unchanged since the last run, with the same output settings
+   */
+  private async selectPendingFiles(
+    audioFiles: string[],
+    output: string,
+    state?: ScanStateStore
+  ): Promise<Array<{ filePath: string; metadata?: TrackMetadata }>> {
+    if (!state) {
+      return audioFiles.map(filePath => ({ filePath }));
+    }
+
+    const pending: Array<{ filePath: string; metadata?: TrackMetadata }> = [];
+    for (const filePath of audioFiles) {
+      const check = await state.check(filePath, output);
+      if (check.process) {
+        logger.trace('Orchestrator', `Processing ${filePath}: ${check.reason}`);
+        pending.push({ filePath, metadata: check.metadata });
+      } else {
+        logger.trace('Orchestrator', `Skipping ${filePath}: ${check.reason}`);
+      }
+    }
+
+    logger.info('Orchestrator', `Skipping ${audioFiles.length - pending.length} of ${audioFiles.length} files unchanged since the last run`);
+    return pending;
+  }
+
+  /**
+   * Merge defaults, constructor options and per-call options (later ones win)
+   */
+  private resolveOptions(options: Partial<OrchestratorOptions>): OrchestratorOptions {
     const defaultOptions: OrchestratorOptions = {
       logging: {
         level: 'info'
@@ -63,98 +354,216 @@ export class LyricsFetcherOrchestrator {
       },
       file: {
         skipExisting: true,
-        overwriteExisting: false
+        overwriteExisting: false,
+        output: 'sidecar',
+        lrcHeaders: false,
+        formats: ['lrc'],
+        pathTemplate: DEFAULT_PATH_TEMPLATE,
+        pathTemplates: {}
       },
       batch: {
         enabled: true,
         size: 10,
-        delayMs: 1000
-      }
-    };
-
-    // Merge options with defaults
-    const mergedOptions: OrchestratorOptions = {
-      logging: { ...defaultOptions.logging, ...options.logging },
-      search: { ...defaultOptions.search, ...options.search },
-      file: { ...defaultOptions.file, ...options.file },
-      batch: { ...defaultOptions.batch, ...options.batch },
-      onProgress: options.onProgress
+        delayMs: 0
+      },
+      rateLimit: {
+        requestsPerSecond: 5,
+        maxConcurrent: 4
+      },
+      network: { ...DEFAULT_NETWORK_OPTIONS },
+      lrclib: { ...DEFAULT_LRCLIB_API_OPTIONS },
+      cache: { ...DEFAULT_CACHE_OPTIONS },
+      state: { ...DEFAULT_STATE_OPTIONS },
+      review: { ...DEFAULT_REVIEW_OPTIONS },
+      normalization: { ...DEFAULT_NORMALIZATION_OPTIONS },
+      metadata: { ...DEFAULT_METADATA_OPTIONS },
+      scan: { ...DEFAULT_SCAN_OPTIONS },
+      providers: [...DEFAULT_PROVIDERS]
     };
 
-    // Convert to scan options format
-    const scanOptions: ScanOptions = {
-      recursive: true, // Default to true if not specified
-      skipExisting: mergedOptions.file.skipExisting,
-      extensions: ['mp3', 'flac', 'm4a', 'ogg', 'wav', 'wma']
+    const base = this.options;
+    return {
+      logging: { ...defaultOptions.logging, ...base.logging, ...options.logging },
+      search: { ...defaultOptions.search, ...base.search, ...options.search },
+      file: { ...defaultOptions.file, ...base.file, ...options.file },
+      batch: { ...defaultOptions.batch, ...base.batch, ...options.batch },
+      rateLimit: { ...defaultOptions.rateLimit!, ...base.rateLimit, ...options.rateLimit },
+      network: { ...defaultOptions.network!, ...base.network, ...options.network },
+      lrclib: { ...defaultOptions.lrclib!, ...base.lrclib, ...options.lrclib },
+      cache: { ...defaultOptions.cache!, ...base.cache, ...options.cache },
+      state: { ...defaultOptions.state!, ...base.state, ...options.state },
+      review: { ...defaultOptions.review!, ...base.review, ...options.review },
+      normalization: { ...defaultOptions.normalization!, ...base.normalization, ...options.normalization },
+      metadata: { ...defaultOptions.metadata!, ...base.metadata, ...options.metadata },
+      scan: { ...defaultOptions.scan!, ...base.scan, ...options.scan },
+      providers: options.providers ?? base.providers ?? defaultOptions.providers,
+      local: options.local ?? base.local,
+      overrides: options.overrides ?? base.overrides,
+      dryRun: options.dryRun ?? base.dryRun ?? false,
+      onProgress: options.onProgress ?? base.onProgress
     };
+  }
 
-    // 1. Scan directory for audio files
-    const audioFiles = await scanDirectory(directory, scanOptions);
-
-    // 2. Process files in batches
-    const results: ProcessResult[] = [];
-    let processed = 0;
-
-    // Process in batches to avoid overwhelming the API
-    for (let i = 0; i < audioFiles.length; i += mergedOptions.batch.size) {
-      const batch = audioFiles.slice(i, i + mergedOptions.batch.size);
-      const batchPromises = batch.map(filePath => this.processAudioFile(filePath, mergedOptions));
-      const batchResults = await Promise.all(batchPromises);
+  /**
+   * The lyrics an override pins for a track, or null when a pinned LRCLIB record doesn't exist
+   */
+  private async lyricsForOverride(override: AppliedOverride, metadata: TrackMetadata): Promise<LyricResult | null> {
+    const matchReasons = [`override: ${override.match}`];
+    const fromMetadata = { artist: metadata.artist, title: metadata.title, album: metadata.album, source: 'override', matchReasons };
 
-      results.push(...batchResults);
+    switch (override.action) {
+      case 'instrumental':
+        return { ...fromMetadata, syncedLyrics: null, plainLyrics: null, instrumental: true };
+      case 'lyrics-file': {
+        const lyricsFile = override.lyricsFile!;
+        let content: string;
+        try {
+          content = await fs.promises.readFile(lyricsFile, 'utf8');
+        } catch (error) {
+          throw new ConfigurationError(`Cannot read override lyrics file ${lyricsFile}: ${error instanceof Error ? error.message : String(error)}`, { lyricsFile });
+        }
+        const lyrics = parseLyricsFile(content);
+        if (!lyrics) {
+          throw new ConfigurationError(`Override lyrics file is empty: ${lyricsFile}`, { lyricsFile });
+        }
+        return { ...fromMetadata, ...lyrics, matchReasons: [...matchReasons, `file: ${lyricsFile}`] };
+      }
+      case 'lrclib-id': {
+        const lyrics = await this.lrcLibClient.getLyricsById(override.lrclibId!, metadata);
+        return lyrics && { ...lyrics, matchReasons: [...matchReasons, ...(lyrics.matchReasons ?? [])] };
+      }
+      case 'exclude':
+        return null;
+    }
+  }
 
-      processed += batch.length;
+  /**
+   * Search with the track's tags as they are, then with each normalized variant until one finds lyrics.
+   * A duration mismatch is only raised when no variant finds lyrics.
+   */
+  private async searchWithVariants(metadata: TrackMetadata, options: OrchestratorOptions): Promise<LyricResult[]> {
+    let mismatch: DurationMismatchError | undefined;
 
-      // Report progress if callback is provided
-      if (mergedOptions.onProgress) {
-        mergedOptions.onProgress(processed, audioFiles.length);
+    for (const variant of searchVariants(metadata, options.normalization)) {
+      if (variant.label !== ORIGINAL_VARIANT) {
+        logger.debug('Orchestrator', `Searching ${variant.label} variant: ${variant.metadata.artist} - ${variant.metadata.title}`);
+      }
+      try {
+        const candidates = await this.providerChain.searchCandidates(variant.metadata, {
+          allowTitleOnlySearch: options.search.allowTitleOnlySearch,
+          preferSynced: options.search.preferSynced,
+          minConfidence: options.search.minConfidence,
+          maxDurationDeltaSeconds: options.search.maxDurationDeltaSeconds,
+          durationMismatch: options.search.durationMismatch,
+          // Only the best candidate is written; the others are kept for review
+          maxCandidates: options.review!.enabled ? options.review!.candidates : 1
+        });
+        if (candidates.length > 0) {
+          // Confidence and match stage describe the track's own tags, not the normalized ones
+          return candidates.map(candidate => ({
+            ...(variant.label === ORIGINAL_VARIANT
+              ? candidate
+              : scoreAgainstTrack(candidate, metadata, options.search.maxDurationDeltaSeconds)),
+            searchVariant: variant.label
+          }));
+        }
+      } catch (error) {
+        if (!(error instanceof DurationMismatchError)) throw error;
+        mismatch = mismatch ?? error;
       }
     }
 
-    return results;
+    if (mismatch) {
+      throw mismatch;
+    }
+    return [];
   }
 
   /**
-   * Process a single audio file
+   * Process a single audio file.
+   * Metadata known from a previous run can be passed in to avoid extracting it again.
    */
   async processAudioFile(
     filePath: string,
-    options: OrchestratorOptions
+    options: OrchestratorOptions,
+    knownMetadata?: TrackMetadata
   ): Promise<ProcessResult> {
+    const startedAt = Date.now();
+    const timings: Omit<ProcessTimings, 'totalMs'> = {};
+    const finish = () => ({ ...timings, totalMs: Date.now() - startedAt });
+
     try {
+      // Path templates that use tags need the metadata before existing lyrics can be found
+      let templateMetadata = knownMetadata;
+      if (!templateMetadata && this.fileWriter.needsMetadata()) {
+        const metadataStartedAt = Date.now();
+        templateMetadata = await this.metadataCache.extract(filePath) ?? undefined;
+        timings.metadataMs = Date.now() - metadataStartedAt;
+      }
+
       // Check if we should skip this file
-      if (options.file.skipExisting && !options.file.overwriteExisting && this.fileWriter.lyricsFileExists(filePath)) {
+      if (options.file.skipExisting && !options.file.overwriteExisting && await this.fileWriter.lyricsExist(filePath, templateMetadata)) {
         return {
           filePath,
-          metadata: { artist: '', title: '', filepath: filePath }, // We don't extract metadata for skipped files
+          metadata: templateMetadata ?? { artist: '', title: '', filepath: filePath }, // Metadata is only extracted for skipped files when templates need it
           success: true,
-          lyricPath: undefined // No new file was created
+          skipped: true,
+          lyricPath: undefined, // No new file was created
+          timings: finish()
         };
       }
 
       // Extract metadata
-      const metadata = await extractMetadata(filePath);
+      const metadataStartedAt = Date.now();
+      const metadata = templateMetadata ?? await this.metadataCache.extract(filePath);
+      timings.metadataMs = timings.metadataMs ?? Date.now() - metadataStartedAt;
       if (!metadata) {
         logger.debug('Orchestrator', `Skipping file with no metadata: ${filePath}`);
         throw new MetadataExtractionError(filePath, "skipped file with no metadata");
       }
 
-      // Check if we have metadata at all
-      if (!metadata) {
-        throw new Error('Failed to extract metadata');
-      }
-
       // Check if we have enough metadata
       if (!metadata.artist || !metadata.title) {
-        throw new Error('Insufficient metadata to search for lyrics');
+        const missing = [!metadata.artist && 'artist', !metadata.title && 'title'].filter((field): field is string => !!field);
+        throw new InsufficientMetadataError(filePath, missing);
       }
 
-      // Search for lyrics
-      logger.info('Orchestrator', `Searching lyrics for: ${metadata.artist} - ${metadata.title}`);
-      const lyrics = await this.lrcLibClient.searchLyrics(metadata, {
-        allowTitleOnlySearch: options.search.allowTitleOnlySearch,
-        preferSynced: options.search.preferSynced
-      });
+      const override = this.overrides?.find(filePath, metadata, options.file.libraryRoot);
+      if (override?.action === 'exclude') {
+        logger.info('Orchestrator', `Excluded by override (${override.match}): ${filePath}`);
+        return {
+          filePath,
+          metadata,
+          success: true,
+          skipped: true,
+          reason: EXCLUDED_BY_OVERRIDE_REASON,
+          override,
+          timings: finish()
+        };
+      }
+
+      // An override or a decision from an earlier review replaces the search.
+      // A pinned LRCLIB record that no longer exists leaves the track without lyrics.
+      let candidates: LyricResult[] = [];
+      let chosen: LyricResult | null | undefined;
+      if (override) {
+        logger.info('Orchestrator', `Applying override (${override.match}) for: ${metadata.artist} - ${metadata.title}`);
+        chosen = await this.lyricsForOverride(override, metadata);
+      } else {
+        chosen = await this.reviewQueue.decisionFor(filePath, metadata);
+        if (chosen) {
+          logger.info('Orchestrator', `Using reviewed lyrics for: ${metadata.artist} - ${metadata.title}`);
+        }
+      }
+
+      const searched = chosen === undefined;
+      if (searched) {
+        logger.info('Orchestrator', `Searching lyrics for: ${metadata.artist} - ${metadata.title}`);
+        const searchStartedAt = Date.now();
+        candidates = await this.searchWithVariants(metadata, options);
+        timings.searchMs = Date.now() - searchStartedAt;
+      }
+      const lyrics = searched ? candidates[0] : chosen;
 
       if (!lyrics) {
         logger.info('Orchestrator', `No lyrics found for: ${metadata.artist} - ${metadata.title}`);
@@ -162,54 +571,88 @@ export class LyricsFetcherOrchestrator {
           filePath,
           metadata,
           success: false,
-          error: new Error(`No lyrics found for: ${metadata.artist} - ${metadata.title}`)
+          error: new LyricsNotFoundError(metadata.artist, metadata.title),
+          reason: NOT_FOUND_REASON,
+          override,
+          timings: finish()
         };
       }
       
+      // Ambiguous matches wait for a decision instead of being written
+      if (searched && options.review!.enabled && needsReview(lyrics, options.review!)) {
+        const queued = candidates.slice(0, options.review!.candidates);
+        await this.reviewQueue.enqueue(filePath, metadata, queued);
+        logger.info('Orchestrator', `Queued for review: ${metadata.artist} - ${metadata.title} (${lyrics.matchStage ?? 'match'}, score ${lyrics.score ?? 'n/a'})`);
+        const result: ProcessResult = {
+          filePath,
+          metadata,
+          success: false,
+          error: new ReviewPendingError(metadata.artist, metadata.title, queued.length),
+          reason: QUEUED_FOR_REVIEW_REASON,
+          match: describeMatch(lyrics),
+          timings: finish()
+        };
+        if (options.onProgress) {
+          options.onProgress(0, 0, result);
+        }
+        return result;
+      }
+
       // Log successful lyric fetching
-      logger.info('Orchestrator', `Found lyrics for: ${metadata.artist} - ${metadata.title} (${lyrics.syncedLyrics ? 'synchronized' : lyrics.plainLyrics ? 'plain' : 'instrumental'})`);
+      logger.info('Orchestrator', `Found lyrics for: ${metadata.artist} - ${metadata.title} (${lyrics.syncedLyrics ? 'synchronized' : lyrics.plainLyrics ? 'plain' : 'instrumental'} from ${lyrics.source}, score ${lyrics.score ?? 'n/a'})`);
       
 
-      // Delete existing lyrics if overwrite mode is enabled
-      if (options.file.overwriteExisting) {
-        await this.fileWriter.deleteExistingLyrics(filePath);
+      // Delete existing lyrics files if overwrite mode is enabled; embedded tags are replaced in place
+      const writeStartedAt = Date.now();
+      if (options.file.overwriteExisting && options.file.output !== 'embed') {
+        await this.writeIntents.deleteExistingLyrics(filePath, metadata);
       }
 
-      // Write lyrics to file
-      const lyricPath = await this.fileWriter.writeLyrics(filePath, lyrics);
-
-      // Call progress callback if provided
-      if (options.onProgress) {
-        options.onProgress(0, 0, {
-          filePath,
-          metadata,
-          success: !!lyricPath,
-          lyricPath
-        });
-      }
+      // Write lyrics to file; malformed synced lyrics may fall back to plain ones
+      const written = this.fileWriter.prepareLyrics(filePath, lyrics, metadata);
+      const lyricPath = await this.writeIntents.writePreparedLyrics(filePath, written, metadata);
+      const lyricsType: LyricsType = written.syncedLyrics ? 'synced' : written.plainLyrics ? 'plain' : 'instrumental';
+      timings.writeMs = Date.now() - writeStartedAt;
 
-      return {
+      const result: ProcessResult = {
         filePath,
         metadata,
         success: !!lyricPath,
-        lyricPath
+        lyricPath,
+        lyricsType,
+        match: describeMatch(lyrics),
+        override,
+        timings: finish()
       };
+
+      // Call progress callback if provided
+      if (options.onProgress) {
+        options.onProgress(0, 0, result);
+      }
+
+      return result;
     } catch (error) {
       const result: ProcessResult = {
         filePath,
         metadata: { artist: '', title: '', filepath: filePath } as TrackMetadata,
         success: false,
-        error: error as Error
+        error: error as Error,
+        reason: error instanceof DurationMismatchError ? DURATION_MISMATCH_REASON : undefined,
+        timings: finish()
       };
 
       // Try to get metadata even if processing failed
-      try {
-        const metadata = await extractMetadata(filePath);
-        if (metadata) {
-          result.metadata = metadata;
+      if (knownMetadata) {
+        result.metadata = knownMetadata;
+      } else {
+        try {
+          const metadata = await this.metadataCache.extract(filePath);
+          if (metadata) {
+            result.metadata = metadata;
+          }
+        } catch {
+          // Keep default metadata if extraction fails
         }
-      } catch {
-        // Keep default metadata if extraction fails
       }
 
       // Call progress callback if provided
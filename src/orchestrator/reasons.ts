@@ -0,0 +1,7 @@
+/**
+ * Reasons reported in ProcessResult.reason for files that produced no lyrics
+ */
+export const NOT_FOUND_REASON = 'no lyrics found';
+export const DURATION_MISMATCH_REASON = 'rejected: duration mismatch';
+export const QUEUED_FOR_REVIEW_REASON = 'queued for review';
+export const EXCLUDED_BY_OVERRIDE_REASON = 'excluded by override';
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { minimatch } from 'minimatch';
+import { logger } from '../utils/logger';
+import { AppliedOverride, OverrideAction, TrackMetadata } from '../types';
+import { normalizeForMatch } from '../api/matching';
+import { ConfigurationError } from '../utils/errorHandling';
+
+/**
+ * One entry of an overrides file: how to recognise the track, and what to do with it
+ */
+export interface TrackOverride {
+  /** Audio file path, relative to the library root or absolute */
+  path?: string;
+  /** Glob matched against the audio file path relative to the library root, or absolute */
+  glob?: string;
+  /** Artist and title tags, compared after normalization; the artist is optional */
+  artist?: string;
+  title?: string;
+  lrclibId?: number;
+  /** Lyrics file to use, relative to the overrides file or absolute */
+  lyricsFile?: string;
+  instrumental?: boolean;
+  exclude?: boolean;
+}
+
+interface OverridesFile {
+  overrides: TrackOverride[];
+}
+
+// Type of the value of each key, checked because YAML reads e.g. `title: 1999` as a number
+const OVERRIDE_KEY_TYPES: Record<keyof TrackOverride, 'string' | 'number' | 'boolean'> = {
+  path: 'string',
+  glob: 'string',
+  artist: 'string',
+  title: 'string',
+  lrclibId: 'number',
+  lyricsFile: 'string',
+  instrumental: 'boolean',
+  exclude: 'boolean'
+};
+
+/**
+ * The action an entry takes, rejecting entries that take none or several
+ */
+function actionOf(entry: TrackOverride, index: number, filePath: string): OverrideAction {
+  const actions: OverrideAction[] = [];
+  if (entry.lrclibId !== undefined) actions.push('lrclib-id');
+  if (entry.lyricsFile !== undefined) actions.push('lyrics-file');
+  if (entry.instrumental) actions.push('instrumental');
+  if (entry.exclude) actions.push('exclude');
+
+  if (actions.length !== 1) {
+    throw new ConfigurationError(
+      `Override ${index + 1} in ${filePath} must set exactly one of lrclibId, lyricsFile, instrumental or exclude`,
+      { overridesFile: filePath, entry: index + 1 }
+    );
+  }
+  return actions[0];
+}
+
+function validateEntry(entry: unknown, index: number, filePath: string): TrackOverride {
+  const fail = (problem: string) => {
+    throw new ConfigurationError(`Override ${index + 1} in ${filePath} ${problem}`, { overridesFile: filePath, entry: index + 1 });
+  };
+
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return fail('is not an object');
+  }
+  const override = entry as TrackOverride;
+
+  const unknown = Object.keys(override).filter(key => !Object.keys(OVERRIDE_KEY_TYPES).includes(key));
+  if (unknown.length > 0) {
+    fail(`has unknown keys: ${unknown.join(', ')}`);
+  }
+  for (const [key, value] of Object.entries(override)) {
+    const expected = OVERRIDE_KEY_TYPES[key as keyof TrackOverride];
+    if (typeof value !== expected) {
+      fail(`has an invalid ${key}: ${JSON.stringify(value)} (expected a ${expected})`);
+    }
+  }
+  if (!override.path && !override.glob && !override.title) {
+    fail('needs a path, glob or title to match tracks');
+  }
+  if (override.artist && !override.title) {
+    fail('matches an artist without a title');
+  }
+  if (override.lrclibId !== undefined && (!Number.isInteger(override.lrclibId) || override.lrclibId <= 0)) {
+    fail(`has an invalid lrclibId: ${override.lrclibId}`);
+  }
+  actionOf(override, index, filePath);
+  return override;
+}
+
+/**
+ * Per-track overrides loaded from a YAML or JSON file.
+ * A track matches by path first, then by artist and title, then by glob; within each kind
+ * the first matching entry wins.
+ */
+export class TrackOverrides {
+  constructor(private readonly entries: TrackOverride[], private readonly filePath: string) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * The override for an audio file, if any
+   */
+  find(audioFilePath: string, metadata: TrackMetadata, libraryRoot?: string): AppliedOverride | undefined {
+    const absolute = path.resolve(audioFilePath);
+    const root = libraryRoot ? path.resolve(libraryRoot) : process.cwd();
+    const relative = path.relative(root, absolute).split(path.sep).join('/');
+    const artist = normalizeForMatch(metadata.artist);
+    const title = normalizeForMatch(metadata.title);
+
+    const byPath = this.entries.find(entry => entry.path && path.resolve(root, entry.path) === absolute);
+    if (byPath) {
+      return this.apply(byPath, `path: ${byPath.path}`);
+    }
+
+    const byTags = this.entries.find(entry =>
+      entry.title && normalizeForMatch(entry.title) === title && (!entry.artist || normalizeForMatch(entry.artist) === artist));
+    if (byTags) {
+      return this.apply(byTags, `artist/title: ${byTags.artist ? `${byTags.artist} - ` : ''}${byTags.title}`);
+    }
+
+    const byGlob = this.entries.find(entry => entry.glob && minimatch(path.isAbsolute(entry.glob) ? absolute : relative, entry.glob, { dot: true }));
+    if (byGlob) {
+      return this.apply(byGlob, `glob: ${byGlob.glob}`);
+    }
+    return undefined;
+  }
+
+  private apply(entry: TrackOverride, match: string): AppliedOverride {
+    const action = actionOf(entry, this.entries.indexOf(entry), this.filePath);
+    return {
+      action,
+      match,
+      lrclibId: entry.lrclibId,
+      lyricsFile: entry.lyricsFile && path.resolve(path.dirname(this.filePath), entry.lyricsFile)
+    };
+  }
+}
+
+/**
+ * Load an overrides file. Both YAML and JSON are accepted, as a list of entries
+ * or as an object with an `overrides` list.
+ */
+export async function loadTrackOverrides(filePath: string): Promise<TrackOverrides> {
+  const resolved = path.resolve(filePath);
+
+  let parsed: unknown;
+  try {
+    // JSON is valid YAML, so one parser reads both
+    parsed = YAML.parse(await fs.promises.readFile(resolved, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read overrides file ${resolved}: ${error instanceof Error ? error.message : String(error)}`, { overridesFile: resolved });
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as OverridesFile | null)?.overrides ?? [];
+  if (!Array.isArray(entries)) {
+    throw new ConfigurationError(`Overrides file ${resolved} must contain a list of overrides`, { overridesFile: resolved });
+  }
+
+  const overrides = new TrackOverrides(entries.map((entry, index) => validateEntry(entry, index, resolved)), resolved);
+  logger.debug('TrackOverrides', `Loaded ${overrides.size} overrides from ${resolved}`);
+  return overrides;
+}
@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import {
+  LocalLyricsOptions,
+  LyricResult,
+  LyricSearchOptions,
+  LyricsProvider,
+  MatchScore,
+  TrackMetadata
+} from '../types';
+import {
+  scoreCandidate,
+  applyDurationTolerance,
+  normalizeForMatch,
+  searchArtists,
+  DEFAULT_MIN_CONFIDENCE,
+  DEFAULT_MAX_DURATION_DELTA_SECONDS
+} from '../api/matching';
+import { parseLrc, getLrcTag, parseLrcLength } from '../lyrics/lrc';
+
+// A whole-line ID tag such as [ar: Artist]
+const ID_TAG_LINE = /^\[[A-Za-z#]+:.*\]$/;
+
+// Leading track number in file names such as "01. Title" or "1 - Title"
+const TRACK_NUMBER_PATTERN = /^\d{1,3}\s*(?:[.)_-]\s*|\s+)/;
+
+/**
+ * An indexed lyrics file with the track details it describes
+ */
+interface LocalLyricsEntry {
+  filePath: string;
+  trackName?: string;
+  artistName?: string;
+  albumName?: string;
+  duration?: number;
+}
+
+interface ScoredEntry {
+  entry: LocalLyricsEntry;
+  score: MatchScore;
+}
+
+/**
+ * The distinct words of a title or artist name, as indexed
+ */
+function matchTokens(value: string | undefined): string[] {
+  return normalizeForMatch(value).split(' ').filter(Boolean);
+}
+
+/**
+ * Lyrics content of an .lrc or plain text file, or null when it has none.
+ * A file whose only line is "Instrumental" marks an instrumental track.
+ */
+export function parseLyricsFile(content: string): Pick<LyricResult, 'syncedLyrics' | 'plainLyrics' | 'instrumental'> | null {
+  const text = content.replace(/^\uFEFF/, '');
+  const document = parseLrc(text);
+  const synced = document.lines.length > 0;
+  const lines = synced
+    ? document.lines.map(line => line.text).filter(Boolean).join('\n')
+    : text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !ID_TAG_LINE.test(line)).join('\n');
+
+  if (!lines) {
+    return null;
+  }
+
+  const instrumental = lines.toLowerCase() === 'instrumental';
+  return {
+    syncedLyrics: synced ? text : null,
+    plainLyrics: instrumental ? null : lines,
+    instrumental
+  };
+}
+
+/**
+ * Guess track details from a lyrics file's name and folders.
+ * Handles "Artist - Title.lrc" and "01. Title.lrc", taking album and artist
+ * from an Artist/Album/ folder layout when the name doesn't include them.
+ */
+function describeFromPath(filePath: string, rootDir: string): LocalLyricsEntry {
+  const name = path.basename(filePath, path.extname(filePath)).replace(TRACK_NUMBER_PATTERN, '').trim();
+  const folders = path.relative(rootDir, path.dirname(filePath)).split(path.sep).filter(Boolean);
+  const entry: LocalLyricsEntry = { filePath, trackName: name };
+
+  const separator = name.indexOf(' - ');
+  if (separator > 0) {
+    entry.artistName = name.slice(0, separator).trim();
+    // "Artist - 01 - Title"
+    entry.trackName = name.slice(separator + 3).replace(TRACK_NUMBER_PATTERN, '').trim();
+  } else if (folders.length >= 2) {
+    entry.artistName = folders[folders.length - 2];
+  }
+
+  if (folders.length >= 1) {
+    entry.albumName = folders[folders.length - 1];
+  }
+
+  return entry;
+}
+
+function addToIndex(index: Map<string, LocalLyricsEntry[]>, key: string, entry: LocalLyricsEntry): void {
+  const bucket = index.get(key);
+  if (bucket) {
+    bucket.push(entry);
+  } else {
+    index.set(key, [entry]);
+  }
+}
+
+/**
+ * Lyrics provider backed by a folder of existing .lrc files.
+ * The folder is indexed once on first search; nothing is fetched over the network.
+ */
+export class LocalLyricsProvider implements LyricsProvider {
+  readonly name = 'local';
+  private readonly options: LocalLyricsOptions;
+  private entries: LocalLyricsEntry[] = [];
+  private byTitle = new Map<string, LocalLyricsEntry[]>();
+  private byToken = new Map<string, LocalLyricsEntry[]>();
+  private loading?: Promise<void>;
+
+  constructor(options: LocalLyricsOptions) {
+    this.options = options;
+  }
+
+  get directory(): string {
+    return this.options.directory;
+  }
+
+  /**
+   * Find lyrics files matching the track, best first. Files are read in that order,
+   * only until maxCandidates of them hold lyrics.
+   */
+  async search(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult[]> {
+    await this.load();
+
+    const minConfidence = options?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const maxDurationDelta = options?.maxDurationDeltaSeconds ?? DEFAULT_MAX_DURATION_DELTA_SECONDS;
+
+    const pool = this.candidateEntries(metadata);
+    const scored: ScoredEntry[] = pool.map(entry => ({ entry, score: scoreCandidate(entry, metadata) }));
+    const { kept } = applyDurationTolerance(scored, maxDurationDelta, options?.durationMismatch ?? 'reject');
+    const accepted = kept
+      .filter(candidate => candidate.score.total >= minConfidence)
+      .sort((a, b) => b.score.total - a.score.total);
+
+    logger.debug('LocalLyricsProvider', `${accepted.length} of ${pool.length} local lyrics files matched "${metadata.artist} - ${metadata.title}"`);
+
+    const results: LyricResult[] = [];
+    const maxCandidates = options?.maxCandidates ?? accepted.length;
+    for (const candidate of accepted) {
+      if (results.length >= maxCandidates) break;
+      const result = await this.readLyrics(candidate, metadata);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Files worth scoring for a track: those with the same normalized title, or for fuzzy
+   * titles those sharing a word with the title or the artist. Scoring every file would
+   * make each search as slow as the folder is large.
+   */
+  private candidateEntries(metadata: TrackMetadata): LocalLyricsEntry[] {
+    const sameTitle = this.byTitle.get(normalizeForMatch(metadata.title));
+    if (sameTitle) {
+      return sameTitle;
+    }
+
+    const tokens = [metadata.title, ...searchArtists(metadata)].flatMap(matchTokens);
+    const pool = new Set<LocalLyricsEntry>();
+    for (const token of tokens) {
+      this.byToken.get(token)?.forEach(entry => pool.add(entry));
+    }
+    return [...pool];
+  }
+
+  /**
+   * Index the lyrics folder, once
+   */
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.indexDirectory(this.options.directory).then(() => {
+        logger.info('LocalLyricsProvider', `Indexed ${this.entries.length} lyrics files in ${this.options.directory}`);
+      });
+    }
+    return this.loading;
+  }
+
+  private async indexDirectory(dirPath: string): Promise<void> {
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch (error) {
+      logger.warn('LocalLyricsProvider', `Cannot read lyrics folder ${dirPath}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    for (const dirent of dirents) {
+      const filePath = path.join(dirPath, dirent.name);
+      if (dirent.isDirectory()) {
+        await this.indexDirectory(filePath);
+      } else if (path.extname(dirent.name).toLowerCase() === '.lrc') {
+        this.addEntry(await this.describeFile(filePath));
+      }
+    }
+  }
+
+  private addEntry(entry: LocalLyricsEntry): void {
+    this.entries.push(entry);
+    addToIndex(this.byTitle, normalizeForMatch(entry.trackName), entry);
+    const tokens = new Set([...matchTokens(entry.trackName), ...matchTokens(entry.artistName)]);
+    tokens.forEach(token => addToIndex(this.byToken, token, entry));
+  }
+
+  /**
+   * Describe a lyrics file from its ID tags, falling back to its file name for missing ones
+   */
+  private async describeFile(filePath: string): Promise<LocalLyricsEntry> {
+    const entry = describeFromPath(filePath, this.options.directory);
+
+    try {
+      const document = parseLrc(await fs.promises.readFile(filePath, 'utf8'));
+      const length = getLrcTag(document, 'length');
+      entry.artistName = getLrcTag(document, 'ar') || entry.artistName;
+      entry.trackName = getLrcTag(document, 'ti') || entry.trackName;
+      entry.albumName = getLrcTag(document, 'al') || entry.albumName;
+      entry.duration = (length && parseLrcLength(length)) || entry.duration;
+    } catch (error) {
+      logger.warn('LocalLyricsProvider', `Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Load a matched lyrics file as a lyric result
+   */
+  private async readLyrics(candidate: ScoredEntry, metadata: TrackMetadata): Promise<LyricResult | null> {
+    const { entry, score } = candidate;
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(entry.filePath, 'utf8');
+    } catch (error) {
+      logger.warn('LocalLyricsProvider', `Cannot read ${entry.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+
+    const lyrics = parseLyricsFile(content);
+    if (!lyrics) {
+      logger.debug('LocalLyricsProvider', `Skipping empty lyrics file: ${entry.filePath}`);
+      return null;
+    }
+
+    return {
+      artist: entry.artistName || metadata.artist,
+      title: entry.trackName || metadata.title,
+      album: entry.albumName || metadata.album,
+      ...lyrics,
+      source: this.name,
+      score: score.total,
+      matchReasons: [`file: ${entry.filePath}`, ...score.reasons],
+      matchStage: score.exact ? 'exact' : 'artist-title',
+      durationDelta: score.durationDelta
+    };
+  }
+}
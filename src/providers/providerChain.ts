@@ -0,0 +1,56 @@
+import { logger } from '../utils/logger';
+import { DurationMismatchError } from '../utils/errorHandling';
+import { LyricResult, LyricSearchOptions, LyricsProvider, TrackMetadata } from '../types';
+
+/**
+ * Queries lyrics providers in order and returns the first match.
+ * A provider that fails does not stop the chain; its error is only raised
+ * when no later provider finds lyrics either.
+ */
+export class ProviderChain {
+  constructor(private readonly providers: LyricsProvider[]) {}
+
+  get names(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  /**
+   * Search each provider in turn, reporting the answering provider as the source
+   */
+  async searchLyrics(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult | null> {
+    const [best] = await this.searchCandidates(metadata, options);
+    return best ?? null;
+  }
+
+  /**
+   * Search each provider in turn and return every candidate of the first one that answers, best first
+   */
+  async searchCandidates(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult[]> {
+    let firstError: unknown;
+
+    for (const provider of this.providers) {
+      try {
+        const candidates = await provider.search(metadata, options);
+        if (candidates.length > 0) {
+          logger.debug('ProviderChain', `${provider.name} answered for "${metadata.artist} - ${metadata.title}"`);
+          return candidates.map(candidate => ({ ...candidate, source: provider.name }));
+        }
+        logger.debug('ProviderChain', `${provider.name} found no lyrics for "${metadata.artist} - ${metadata.title}"`);
+      } catch (error) {
+        const message = `${provider.name} failed for "${metadata.artist} - ${metadata.title}": ${error instanceof Error ? error.message : String(error)}`;
+        // A duration mismatch is a rejected match rather than a failure
+        if (error instanceof DurationMismatchError) {
+          logger.debug('ProviderChain', message);
+        } else {
+          logger.warn('ProviderChain', message);
+        }
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+    return [];
+  }
+}
@@ -0,0 +1,73 @@
+import path from 'path';
+import { LrcLibClient } from '../api/lrclib';
+import { LocalLyricsProvider } from './localLyricsProvider';
+import { LyricsProvider, OrchestratorOptions } from '../types';
+import { ConfigurationError, UnknownProviderError } from '../utils/errorHandling';
+
+/**
+ * What a provider factory gets to build its provider from
+ */
+export interface ProviderContext {
+  options: OrchestratorOptions;
+  /** The orchestrator's shared LRCLIB client, already configured with rate limits, network options and cache */
+  lrcLibClient: LrcLibClient;
+}
+
+export type ProviderFactory = (context: ProviderContext) => LyricsProvider;
+
+/**
+ * Named lyrics provider factories, so provider chains can be configured by name
+ */
+export class ProviderRegistry {
+  private readonly factories = new Map<string, ProviderFactory>();
+
+  /**
+   * Register a provider factory, replacing any existing one with the same name
+   */
+  register(name: string, factory: ProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  /**
+   * Create the provider registered under a name
+   */
+  create(name: string, context: ProviderContext): LyricsProvider {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new UnknownProviderError(name, this.names());
+    }
+    return factory(context);
+  }
+}
+
+// Provider chain used when none is configured
+export const DEFAULT_PROVIDERS = ['lrclib'];
+
+export const providerRegistry = new ProviderRegistry();
+
+// Indexing a lyrics folder is expensive, so each folder is indexed once per process
+const localProviders = new Map<string, LocalLyricsProvider>();
+
+providerRegistry.register('lrclib', context => context.lrcLibClient);
+
+providerRegistry.register('local', ({ options }) => {
+  if (!options.local?.directory) {
+    throw new ConfigurationError('The "local" lyrics provider needs a lyrics folder (--local-lyrics)', { provider: 'local' });
+  }
+
+  const directory = path.resolve(options.local.directory);
+  let provider = localProviders.get(directory);
+  if (!provider) {
+    provider = new LocalLyricsProvider({ ...options.local, directory });
+    localProviders.set(directory, provider);
+  }
+  return provider;
+});
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { LrcLibChallenge } from '../api/lrclib';
+
+// Nonces tried before yielding to the event loop, so spinners and signals are still handled
+const NONCES_PER_SLICE = 20000;
+
+/**
+ * Find a nonce whose SHA-256 hash of prefix + nonce is at most the challenge target,
+ * comparing the bytes in order as LRCLIB does
+ */
+export async function solveChallenge(
+  challenge: LrcLibChallenge,
+  onProgress?: (attempts: number) => void
+): Promise<string> {
+  const target = Buffer.from(challenge.target, 'hex');
+
+  for (let nonce = 0; ; ) {
+    const sliceEnd = nonce + NONCES_PER_SLICE;
+    for (; nonce < sliceEnd; nonce++) {
+      const hash = crypto.createHash('sha256').update(`${challenge.prefix}${nonce}`).digest();
+      if (Buffer.compare(hash, target) <= 0) {
+        return String(nonce);
+      }
+    }
+    onProgress?.(nonce);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+/**
+ * The X-Publish-Token header value for a solved challenge
+ */
+export function publishToken(challenge: LrcLibChallenge, nonce: string): string {
+  return `${challenge.prefix}:${nonce}`;
+}
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { TrackMetadata } from '../types';
+import { LrcLibClient, LrcLibPublishRequest } from '../api/lrclib';
+import { toPublishError } from '../api/retry';
+import { extractMetadata } from '../metadata/extractor';
+import { isAudioFile, scanDirectory } from '../scanner/fileScanner';
+import { parseLyricsFile } from '../providers/localLyricsProvider';
+import { LyricsFileWriter } from '../writer/fileWriter';
+import { parseLrc, lrcErrors, getLrcTag, parseLrcLength, serializeLrc } from '../lyrics/lrc';
+import { solveChallenge, publishToken } from './challenge';
+import {
+  InsufficientMetadataError,
+  InvalidLyricsError,
+  LrcLibError,
+  LyricsNotFoundError,
+  UnsupportedFormatError
+} from '../utils/errorHandling';
+
+// Lyrics files that can be published: synced .lrc and plain .txt
+const LYRICS_EXTENSIONS = ['.lrc', '.txt'];
+
+/**
+ * A lyrics file ready to publish, with the audio file its signature was read from
+ */
+export interface PublishCandidate {
+  audioPath?: string;
+  lyricsPath: string;
+  payload: LrcLibPublishRequest;
+}
+
+/**
+ * What happened to one file: published, or would be in a dry run; skipped because LRCLIB
+ * already has the track or there are no local lyrics; or failed
+ */
+export type PublishStatus = 'published' | 'would-publish' | 'already-published' | 'no-lyrics' | 'failed';
+
+export interface PublishResult {
+  filePath: string;
+  status: PublishStatus;
+  lyricsPath?: string;
+  payload?: LrcLibPublishRequest;
+  error?: Error;
+}
+
+export interface PublishOptions {
+  /** Validate and build the payload, but don't request a challenge or publish */
+  dryRun?: boolean;
+  /** Called while a challenge is being solved, with the number of nonces tried */
+  onSolving?: (filePath: string, attempts: number) => void;
+  onResult?: (result: PublishResult) => void;
+}
+
+/**
+ * Publishes local lyrics to LRCLIB. The track signature (artist, title, album, duration) comes
+ * from the audio file's tags, or from the .lrc tags when there's no audio file next to it.
+ */
+export class LyricsPublisher {
+  constructor(
+    private readonly client: LrcLibClient,
+    private readonly writer: LyricsFileWriter = new LyricsFileWriter()
+  ) {}
+
+  /**
+   * Read and validate the lyrics for an audio file or of a lyrics file, and build the publish request
+   */
+  async prepare(inputPath: string): Promise<PublishCandidate> {
+    const extension = path.extname(inputPath).toLowerCase();
+    let audioPath: string | undefined;
+    let lyricsPath: string;
+    let metadata: TrackMetadata | null = null;
+
+    if (LYRICS_EXTENSIONS.includes(extension)) {
+      lyricsPath = inputPath;
+      audioPath = this.audioFileFor(lyricsPath);
+      metadata = audioPath ? await extractMetadata(audioPath) : null;
+    } else if (isAudioFile(inputPath)) {
+      audioPath = inputPath;
+      metadata = await extractMetadata(audioPath);
+      const found = this.lyricsFileFor(audioPath, metadata ?? undefined);
+      if (!found) {
+        throw new LyricsNotFoundError(metadata?.artist ?? '', metadata?.title ?? path.basename(audioPath));
+      }
+      lyricsPath = found;
+    } else {
+      throw new UnsupportedFormatError(inputPath, extension);
+    }
+
+    const content = await fs.promises.readFile(lyricsPath, 'utf8');
+    const document = parseLrc(content);
+    const errors = lrcErrors(document);
+    if (lyricsPath.toLowerCase().endsWith('.lrc') && errors.length > 0) {
+      throw new InvalidLyricsError(lyricsPath, errors.join('; '));
+    }
+
+    const lyrics = parseLyricsFile(content);
+    if (!lyrics) {
+      throw new InvalidLyricsError(lyricsPath, 'the file has no lyrics');
+    }
+
+    // Tags in the audio file win over the .lrc's own ID tags
+    const length = getLrcTag(document, 'length');
+    const signature = {
+      artistName: metadata?.artist || getLrcTag(document, 'ar'),
+      trackName: metadata?.title || getLrcTag(document, 'ti'),
+      albumName: metadata?.album || getLrcTag(document, 'al'),
+      duration: metadata?.duration ?? (length ? parseLrcLength(length) : undefined)
+    };
+    const missing = [
+      !signature.artistName && 'artist',
+      !signature.trackName && 'title',
+      !signature.albumName && 'album',
+      !signature.duration && 'duration'
+    ].filter((field): field is string => !!field);
+    if (missing.length > 0) {
+      throw new InsufficientMetadataError(audioPath ?? lyricsPath, missing);
+    }
+
+    // LRCLIB stores bare timed lines, so ID tags are dropped and any offset applied
+    const syncedLyrics = lyrics.syncedLyrics ? serializeLrc({ ...parseLrc(lyrics.syncedLyrics), tags: [] }) : '';
+    return {
+      audioPath,
+      lyricsPath,
+      payload: {
+        trackName: signature.trackName!,
+        artistName: signature.artistName!,
+        albumName: signature.albumName!,
+        duration: Math.round(signature.duration!),
+        plainLyrics: lyrics.plainLyrics ?? '',
+        syncedLyrics: lyrics.instrumental ? '' : syncedLyrics
+      }
+    };
+  }
+
+  /**
+   * Solve a publish challenge and submit the lyrics
+   */
+  async publish(payload: LrcLibPublishRequest, onSolving?: (attempts: number) => void): Promise<void> {
+    try {
+      const challenge = await this.client.requestChallenge();
+      const startedAt = Date.now();
+      const nonce = await solveChallenge(challenge, onSolving);
+      logger.debug('LyricsPublisher', `Solved publish challenge in ${Date.now() - startedAt}ms (nonce ${nonce})`);
+      await this.client.publishLyrics(payload, publishToken(challenge, nonce));
+      logger.info('LyricsPublisher', `Published lyrics for: ${payload.artistName} - ${payload.trackName}`);
+    } catch (error) {
+      throw toPublishError(error, payload.artistName, payload.trackName);
+    }
+  }
+
+  /**
+   * Publish the lyrics for an audio file or of a lyrics file
+   */
+  async publishFile(inputPath: string, options: PublishOptions = {}): Promise<PublishResult> {
+    const result = await this.publishOne(inputPath, options, false);
+    options.onResult?.(result);
+    return result;
+  }
+
+  /**
+   * Publish the local lyrics of every audio file in a directory that LRCLIB has no record for
+   */
+  async publishMissing(directory: string, options: PublishOptions = {}): Promise<PublishResult[]> {
+    const audioFiles = await scanDirectory(directory, { recursive: true, skipExisting: false, extensions: [] });
+    const results: PublishResult[] = [];
+    for (const audioPath of audioFiles) {
+      const result = await this.publishOne(audioPath, options, true);
+      options.onResult?.(result);
+      results.push(result);
+    }
+    return results;
+  }
+
+  private async publishOne(inputPath: string, options: PublishOptions, onlyMissing: boolean): Promise<PublishResult> {
+    let candidate: PublishCandidate;
+    try {
+      candidate = await this.prepare(inputPath);
+    } catch (error) {
+      // In a directory, tracks without local lyrics are expected
+      if (onlyMissing && error instanceof LyricsNotFoundError) {
+        return { filePath: inputPath, status: 'no-lyrics' };
+      }
+      return { filePath: inputPath, status: 'failed', error: error as Error };
+    }
+
+    const { lyricsPath, payload } = candidate;
+    try {
+      if (onlyMissing) {
+        const existing = await this.client.getRecordBySignature(payload, { cachedOnly: false });
+        if (existing) {
+          logger.debug('LyricsPublisher', `LRCLIB already has record ${existing.id} for: ${payload.artistName} - ${payload.trackName}`);
+          return { filePath: inputPath, status: 'already-published', lyricsPath, payload };
+        }
+      }
+
+      if (options.dryRun) {
+        return { filePath: inputPath, status: 'would-publish', lyricsPath, payload };
+      }
+      await this.publish(payload, attempts => options.onSolving?.(inputPath, attempts));
+      return { filePath: inputPath, status: 'published', lyricsPath, payload };
+    } catch (error) {
+      const failure = error instanceof LrcLibError ? error : toPublishError(error, payload.artistName, payload.trackName);
+      return { filePath: inputPath, status: 'failed', lyricsPath, payload, error: failure };
+    }
+  }
+
+  /**
+   * The .lrc file of an audio file, or its .txt file when there's no synced one
+   */
+  private lyricsFileFor(audioPath: string, metadata?: TrackMetadata): string | undefined {
+    const existing = this.writer.existingLyricsFiles(audioPath, metadata);
+    return LYRICS_EXTENSIONS
+      .map(extension => existing.find(lyricsPath => lyricsPath.toLowerCase().endsWith(extension)))
+      .find(Boolean);
+  }
+
+  /**
+   * The audio file next to a lyrics file with the same name, if any
+   */
+  private audioFileFor(lyricsPath: string): string | undefined {
+    const directory = path.dirname(lyricsPath);
+    const name = path.basename(lyricsPath, path.extname(lyricsPath));
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(directory);
+    } catch {
+      return undefined;
+    }
+    const audio = entries.find(entry => path.basename(entry, path.extname(entry)) === name && isAudioFile(entry));
+    return audio && path.join(directory, audio);
+  }
+}
@@ -0,0 +1,243 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AppliedOverride,
+  FileOutcome,
+  LyricsType,
+  MatchStage,
+  PlanAction,
+  ProcessResult,
+  ProcessTimings,
+  TrackMetadata
+} from '../types';
+import { outcomeOf } from '../state/scanState';
+import { ErrorCode, ErrorContext, LrcLibError, errorCodeOf } from '../utils/errorHandling';
+import { escapeXml } from '../utils/xml';
+
+const REPORT_VERSION = 1;
+
+export type ReportFormat = 'json' | 'csv' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'junit'];
+
+export type ReportStatus = FileOutcome | 'skipped';
+
+/**
+ * One processed file in a run report
+ */
+export interface RunReportEntry {
+  filePath: string;
+  status: ReportStatus;
+  metadata: Omit<TrackMetadata, 'filepath'>;
+  source?: string;
+  matchStage?: MatchStage;
+  /** Search variant that found the lyrics: 'original', or the normalization steps applied */
+  searchVariant?: string;
+  score?: number;
+  /** Score against the normalized tags, when a variant other than 'original' found the lyrics */
+  variantScore?: number;
+  lyricsType?: LyricsType;
+  durationDelta?: number;
+  outputPath?: string;
+  /** Set in dry-run mode */
+  plannedAction?: PlanAction;
+  timings?: ProcessTimings;
+  /** Set when an override was applied instead of searching */
+  override?: AppliedOverride;
+  error?: {
+    code: ErrorCode;
+    message: string;
+    retryable: boolean;
+    context?: ErrorContext;
+  };
+}
+
+/**
+ * Machine-readable summary of a run
+ */
+export interface RunReport {
+  version: number;
+  generatedAt: string;
+  directory?: string;
+  durationMs?: number;
+  summary: Record<ReportStatus, number> & { total: number };
+  /** Number of failed files per error code */
+  errors: Partial<Record<ErrorCode, number>>;
+  files: RunReportEntry[];
+}
+
+function describeFailure(result: ProcessResult): RunReportEntry['error'] {
+  if (result.success) return undefined;
+  const { error } = result;
+  return {
+    code: errorCodeOf(error),
+    message: error?.message ?? result.reason ?? 'unknown error',
+    retryable: error instanceof LrcLibError && error.retryable,
+    context: error instanceof LrcLibError ? error.context : undefined
+  };
+}
+
+function toEntry(result: ProcessResult): RunReportEntry {
+  // The file path is reported once, at the top of the entry
+  const { filepath: _, ...metadata } = result.metadata;
+
+  return {
+    filePath: result.filePath,
+    status: result.skipped ? 'skipped' : outcomeOf(result),
+    metadata,
+    source: result.match?.source,
+    matchStage: result.match?.matchStage,
+    searchVariant: result.match?.searchVariant,
+    score: result.match?.score,
+    variantScore: result.match?.variantScore,
+    lyricsType: result.lyricsType,
+    durationDelta: result.match?.durationDelta,
+    outputPath: result.lyricPath,
+    plannedAction: result.plan?.action,
+    timings: result.timings,
+    override: result.override,
+    error: describeFailure(result)
+  };
+}
+
+/**
+ * Build a report from the results of a run
+ */
+export function buildRunReport(
+  results: ProcessResult[],
+  run: { directory?: string; durationMs?: number } = {}
+): RunReport {
+  const files = results.map(toEntry);
+  const summary = { total: files.length, found: 0, instrumental: 0, 'not-found': 0, error: 0, queued: 0, skipped: 0 };
+  const errors: Partial<Record<ErrorCode, number>> = {};
+  files.forEach(file => {
+    summary[file.status]++;
+    if (file.error) {
+      errors[file.error.code] = (errors[file.error.code] ?? 0) + 1;
+    }
+  });
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    directory: run.directory && path.resolve(run.directory),
+    durationMs: run.durationMs,
+    summary,
+    errors,
+    files
+  };
+}
+
+const CSV_COLUMNS: Array<[string, (entry: RunReportEntry) => string | number | undefined]> = [
+  ['path', entry => entry.filePath],
+  ['status', entry => entry.status],
+  ['artist', entry => entry.metadata.artist],
+  ['title', entry => entry.metadata.title],
+  ['album', entry => entry.metadata.album],
+  ['duration', entry => entry.metadata.duration],
+  ['source', entry => entry.source],
+  ['match_stage', entry => entry.matchStage],
+  ['search_variant', entry => entry.searchVariant],
+  ['score', entry => entry.score],
+  ['variant_score', entry => entry.variantScore],
+  ['lyrics_type', entry => entry.lyricsType],
+  ['duration_delta', entry => entry.durationDelta],
+  ['output_path', entry => entry.outputPath],
+  ['planned_action', entry => entry.plannedAction],
+  ['override', entry => entry.override && `${entry.override.action} (${entry.override.match})`],
+  ['metadata_ms', entry => entry.timings?.metadataMs],
+  ['search_ms', entry => entry.timings?.searchMs],
+  ['write_ms', entry => entry.timings?.writeMs],
+  ['total_ms', entry => entry.timings?.totalMs],
+  ['error_code', entry => entry.error?.code],
+  ['error_message', entry => entry.error?.message],
+  ['retryable', entry => entry.error && String(entry.error.retryable)]
+];
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(report: RunReport): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = report.files.map(entry => CSV_COLUMNS.map(([, value]) => csvField(value(entry))).join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+const seconds = (ms?: number) => ((ms ?? 0) / 1000).toFixed(3);
+
+/**
+ * Render a report as JUnit XML: one test case per file, missing lyrics as failures and
+ * processing errors as errors
+ */
+function renderJunit(report: RunReport): string {
+  const root = report.directory;
+  const testCases = report.files.map(entry => {
+    const relative = root ? path.relative(root, entry.filePath) : entry.filePath;
+    const name = escapeXml(relative);
+    const className = escapeXml(path.dirname(relative).split(path.sep).join('.') || '.');
+    const open = `    <testcase classname="${className}" name="${name}" time="${seconds(entry.timings?.totalMs)}"`;
+
+    switch (entry.status) {
+      case 'skipped': {
+        const message = entry.override ? 'excluded by override' : 'lyrics already exist';
+        return `${open}>\n      <skipped message="${message}"/>\n    </testcase>`;
+      }
+      case 'queued':
+        return `${open}>\n      <skipped message="queued for review"/>\n    </testcase>`;
+      case 'not-found':
+      case 'error': {
+        const element = entry.status === 'error' ? 'error' : 'failure';
+        const message = escapeXml(entry.error?.message ?? '');
+        return `${open}>\n      <${element} type="${entry.error?.code}" message="${message}"/>\n    </testcase>`;
+      }
+      default:
+        return `${open}/>`;
+    }
+  });
+
+  const { summary } = report;
+  const attributes = [
+    'name="lrclib"',
+    `tests="${summary.total}"`,
+    `failures="${summary['not-found']}"`,
+    `errors="${summary.error}"`,
+    `skipped="${summary.skipped + summary.queued}"`,
+    `time="${seconds(report.durationMs)}"`,
+    `timestamp="${report.generatedAt}"`
+  ].join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites>',
+    `  <testsuite ${attributes}>`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Render a report in a format
+ */
+export function renderRunReport(report: RunReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    case 'csv':
+      return renderCsv(report);
+    case 'junit':
+      return renderJunit(report);
+  }
+}
+
+/**
+ * Write a report to a file, creating parent directories as needed
+ */
+export async function writeRunReport(filePath: string, report: RunReport, format: ReportFormat): Promise<void> {
+  await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+  await fs.promises.writeFile(filePath, renderRunReport(report, format), 'utf8');
+}
@@ -0,0 +1,177 @@
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { LyricResult, ReviewOptions, TrackMetadata } from '../types';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+
+const QUEUE_VERSION = 1;
+
+export const DEFAULT_REVIEW_PATH = path.join(os.homedir(), '.cache', 'lrclib-fetcher', 'review-queue.json');
+
+export const DEFAULT_REVIEW_OPTIONS: ReviewOptions = {
+  enabled: false,
+  path: DEFAULT_REVIEW_PATH,
+  threshold: 0.8,
+  candidates: 5
+};
+
+/**
+ * What was decided for a queued track: use one of its candidates, or mark it instrumental
+ */
+export type ReviewDecision =
+  | { action: 'accept'; candidate: LyricResult; decidedAt: number }
+  | { action: 'instrumental'; decidedAt: number };
+
+/**
+ * A track whose best match was ambiguous, with the candidates to choose from
+ */
+export interface ReviewEntry {
+  filePath: string;
+  metadata: TrackMetadata;
+  candidates: LyricResult[];
+  queuedAt: number;
+  decision?: ReviewDecision;
+}
+
+interface QueueFile {
+  version: number;
+  entries: Record<string, ReviewEntry>;
+}
+
+const sameTag = (a?: string, b?: string) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+/**
+ * Whether a match should be reviewed before it is written
+ */
+export function needsReview(lyrics: LyricResult, options: Pick<ReviewOptions, 'threshold'>): boolean {
+  return lyrics.matchStage === 'title-only' || (lyrics.score !== undefined && lyrics.score < options.threshold);
+}
+
+/**
+ * Persistent queue of ambiguous matches and the decisions made for them.
+ * Decisions are kept after review so later runs reuse them instead of searching again.
+ */
+export class ReviewQueue {
+  private readonly options: ReviewOptions;
+  private entries: Record<string, ReviewEntry> = {};
+  private loading?: Promise<void>;
+  private dirty = false;
+
+  constructor(options: Partial<ReviewOptions> = {}) {
+    this.options = { ...DEFAULT_REVIEW_OPTIONS, ...options };
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Queue a track for review, replacing the candidates of an earlier, undecided entry
+   */
+  async enqueue(filePath: string, metadata: TrackMetadata, candidates: LyricResult[]): Promise<void> {
+    await this.load();
+    const key = path.resolve(filePath);
+    this.entries[key] = { filePath: key, metadata, candidates, queuedAt: Date.now() };
+    this.dirty = true;
+  }
+
+  /**
+   * Queued tracks still waiting for a decision, oldest first
+   */
+  async pending(): Promise<ReviewEntry[]> {
+    await this.load();
+    return Object.values(this.entries)
+      .filter(entry => !entry.decision)
+      .sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  /**
+   * Record the decision for a queued track
+   */
+  async decide(filePath: string, decision: ReviewDecision): Promise<void> {
+    await this.load();
+    const entry = this.entries[path.resolve(filePath)];
+    if (entry) {
+      entry.decision = decision;
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * The lyrics decided for a track, as long as its artist and title tags haven't changed since
+   */
+  async decisionFor(filePath: string, metadata: TrackMetadata): Promise<LyricResult | undefined> {
+    await this.load();
+    const entry = this.entries[path.resolve(filePath)];
+    if (!entry?.decision) return undefined;
+
+    if (!sameTag(entry.metadata.artist, metadata.artist) || !sameTag(entry.metadata.title, metadata.title)) {
+      logger.debug('ReviewQueue', `Ignoring review decision for ${filePath}: tags changed since it was queued`);
+      return undefined;
+    }
+
+    if (entry.decision.action === 'instrumental') {
+      return {
+        artist: metadata.artist,
+        title: metadata.title,
+        album: metadata.album,
+        syncedLyrics: null,
+        plainLyrics: null,
+        source: 'review',
+        instrumental: true,
+        matchReasons: ['review: marked instrumental']
+      };
+    }
+    const { candidate } = entry.decision;
+    return { ...candidate, matchReasons: ['review: accepted', ...(candidate.matchReasons ?? [])] };
+  }
+
+  /**
+   * Forget a track, e.g. after it was deleted
+   */
+  async remove(filePath: string): Promise<void> {
+    await this.load();
+    const key = path.resolve(filePath);
+    if (this.entries[key]) {
+      delete this.entries[key];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Write pending changes to disk
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    try {
+      await writeJsonFileAtomic(this.options.path, { version: QUEUE_VERSION, entries: this.entries });
+      this.dirty = false;
+      logger.debug('ReviewQueue', `Saved ${Object.keys(this.entries).length} review entries to ${this.options.path}`);
+    } catch (error) {
+      logger.error('ReviewQueue', `Failed to save review queue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromDisk();
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    try {
+      const file = await readJsonFile<QueueFile>(this.options.path);
+      if (!file) return;
+      if (file.version !== QUEUE_VERSION) {
+        logger.warn('ReviewQueue', `Ignoring review queue with unsupported version ${file.version}`);
+        return;
+      }
+      this.entries = file.entries || {};
+      logger.debug('ReviewQueue', `Loaded ${Object.keys(this.entries).length} review entries from ${this.options.path}`);
+    } catch (error) {
+      logger.warn('ReviewQueue', `Failed to read review queue: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
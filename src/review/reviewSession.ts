@@ -0,0 +1,138 @@
+import fs from 'fs';
+import readline from 'readline';
+import chalk from 'chalk';
+import { LyricResult } from '../types';
+import { parseLrc } from '../lyrics/lrc';
+import { ReviewEntry, ReviewQueue } from './reviewQueue';
+
+// Lyric lines shown for each candidate
+const PREVIEW_LINES = 3;
+
+/**
+ * Streams the review prompts are read from and written to
+ */
+export interface ReviewSessionIO {
+  input: NodeJS.ReadableStream;
+  output: NodeJS.WritableStream;
+}
+
+/**
+ * Outcome of a review session
+ */
+export interface ReviewSessionSummary {
+  /** Audio files a decision was made for, to be processed again */
+  decided: string[];
+  skipped: number;
+  /** Tracks left in the queue when the session ended */
+  remaining: number;
+}
+
+function formatDuration(seconds?: number): string {
+  if (seconds === undefined) return '?:??';
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+/**
+ * First lines of a candidate's lyrics, without timestamps
+ */
+function previewLines(lyrics: LyricResult): string[] {
+  const lines = lyrics.syncedLyrics
+    ? parseLrc(lyrics.syncedLyrics).lines.map(line => line.text)
+    : (lyrics.plainLyrics ?? '').split(/\r?\n/);
+  return lines.map(line => line.trim()).filter(Boolean).slice(0, PREVIEW_LINES);
+}
+
+function describeCandidate(candidate: LyricResult, index: number): string[] {
+  const kind = candidate.syncedLyrics ? chalk.green('synced') : candidate.plainLyrics ? chalk.yellow('plain') : chalk.cyan('instrumental');
+  const details = [
+    candidate.album && `(${candidate.album})`,
+    kind,
+    candidate.durationDelta !== undefined && `Δ ${candidate.durationDelta.toFixed(1)}s`,
+    candidate.score !== undefined && `score ${candidate.score.toFixed(2)}`,
+    candidate.matchStage,
+    chalk.gray(candidate.source)
+  ].filter(Boolean);
+
+  return [
+    `  ${chalk.bold(`${index + 1}.`)} ${candidate.artist} - ${candidate.title}  ${details.join('  ')}`,
+    ...previewLines(candidate).map(line => chalk.gray(`       ${line}`))
+  ];
+}
+
+function describeEntry(entry: ReviewEntry, position: number, total: number): string[] {
+  const { metadata } = entry;
+  return [
+    '',
+    chalk.cyan(`[${position}/${total}] ${entry.filePath}`),
+    `  Local: ${metadata.artist} - ${metadata.title}${metadata.album ? ` (${metadata.album})` : ''}, ${formatDuration(metadata.duration)}`,
+    ...entry.candidates.flatMap(describeCandidate)
+  ];
+}
+
+/**
+ * Walk through the queued tracks, asking for each whether to accept the best candidate,
+ * pick another, mark the track instrumental or skip it. Decisions are saved as they are made,
+ * so quitting halfway keeps them.
+ */
+export async function runReviewSession(queue: ReviewQueue, io: ReviewSessionIO): Promise<ReviewSessionSummary> {
+  const pending = await queue.pending();
+  const summary: ReviewSessionSummary = { decided: [], skipped: 0, remaining: pending.length };
+  const write = (lines: string[]) => io.output.write(lines.join('\n') + '\n');
+
+  // Lines are buffered by the iterator, so piped answers aren't lost between prompts
+  const rl = readline.createInterface({ input: io.input, terminal: false });
+  const answers = rl[Symbol.asyncIterator]();
+  const ask = async (prompt: string): Promise<string | null> => {
+    io.output.write(prompt);
+    const next = await answers.next();
+    return next.done ? null : String(next.value).trim().toLowerCase();
+  };
+
+  try {
+    for (const [index, entry] of pending.entries()) {
+      if (!fs.existsSync(entry.filePath)) {
+        write([chalk.gray(`Dropping ${entry.filePath}: file no longer exists`)]);
+        await queue.remove(entry.filePath);
+        summary.remaining--;
+        continue;
+      }
+
+      write(describeEntry(entry, index + 1, pending.length));
+      const count = entry.candidates.length;
+      const choices = count > 1 ? `Enter=accept 1, 1-${count}=pick` : 'Enter=accept';
+
+      let answer: string | null;
+      for (;;) {
+        answer = await ask(`Choice [${choices}, i=instrumental, s=skip, q=quit]: `);
+        if (answer === null || /^(|a|i|s|q)$/.test(answer)) break;
+        const pick = parseInt(answer, 10);
+        if (String(pick) === answer && pick >= 1 && pick <= count) break;
+        write([chalk.yellow(`Unknown choice: ${answer}`)]);
+      }
+
+      if (answer === null || answer === 'q') {
+        break;
+      }
+      if (answer === 's') {
+        summary.skipped++;
+        continue;
+      }
+
+      if (answer === 'i') {
+        await queue.decide(entry.filePath, { action: 'instrumental', decidedAt: Date.now() });
+      } else {
+        const candidate = entry.candidates[answer === '' || answer === 'a' ? 0 : parseInt(answer, 10) - 1];
+        await queue.decide(entry.filePath, { action: 'accept', candidate, decidedAt: Date.now() });
+      }
+      await queue.flush();
+      summary.decided.push(entry.filePath);
+      summary.remaining--;
+    }
+  } finally {
+    rl.close();
+    await queue.flush();
+  }
+
+  return summary;
+}
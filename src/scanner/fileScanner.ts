@@ -1,39 +1,274 @@
 import fs from 'fs';
 import path from 'path';
-import { ScanOptions } from '../types';
+import { minimatch } from 'minimatch';
+import { ScanFilterOptions, ScanOptions } from '../types';
 import { logger } from '../utils/logger';
-// Make sure this is defined and matches the one in metadata extractor
-const AUDIO_EXTENSIONS = ['.mp3', '.flac', '.m4a', '.ogg', '.wav', '.wma'];
+import { ConfigurationError, ScanError } from '../utils/errorHandling';
+import { audioFormatForExtension, selectExtensions, sniffAudioFormat, validateExtensions } from '../metadata/audioFormats';
+import { IgnoreFile, readIgnoreFile, isIgnored } from './ignoreFile';
 
-export async function scanDirectory(dirPath: string, options: ScanOptions): Promise<string[]> {
-  const { recursive = true } = options;
+export const DEFAULT_SCAN_OPTIONS: ScanFilterOptions = {
+  extensions: [],
+  excludeExtensions: [],
+  include: [],
+  exclude: [],
+  followSymlinks: false,
+  ignoreFiles: true
+};
+
+// Files that are never audio, so their content isn't sniffed
+const NON_AUDIO_EXTENSIONS = [
+  '.lrc', '.txt', '.srt', '.vtt', '.ttml', '.json', '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp',
+  '.nfo', '.cue', '.log', '.m3u', '.m3u8', '.pls', '.pdf', '.sfv', '.md5', '.ini', '.db', '.xml', '.yaml', '.yml'
+];
+
+/**
+ * Check whether a path has the extension of a supported audio format that the scan options include
+ */
+export function isAudioFile(filePath: string, options: Partial<ScanFilterOptions> = {}): boolean {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  return !!audioFormatForExtension(extension) && selectExtensions(options.extensions, options.excludeExtensions).includes(extension);
+}
+
+/**
+ * Reject extensions no supported format uses, empty globs and a negative depth
+ */
+export function validateScanOptions(options: Partial<ScanFilterOptions>): void {
+  validateExtensions([...options.extensions ?? [], ...options.excludeExtensions ?? []]);
+  if ([...options.include ?? [], ...options.exclude ?? []].some(pattern => !pattern.trim())) {
+    throw new ConfigurationError('Scan include and exclude globs must not be empty');
+  }
+  if (options.maxDepth !== undefined && !(Number.isInteger(options.maxDepth) && options.maxDepth >= 0)) {
+    throw new ConfigurationError(`Scan depth must be a whole number of at least 0, got ${options.maxDepth}`, { maxDepth: options.maxDepth });
+  }
+}
+
+/**
+ * State shared by the folders of one scan
+ */
+interface ScanContext {
+  root: string;
+  options: ScanOptions;
+  extensions: string[];
+  maxDepth: number;
+  /** Real paths of the folders and files found, so symlinks can't cause loops or duplicates */
+  visited: Set<string>;
+}
+
+function createContext(root: string, options: ScanOptions): ScanContext {
+  return {
+    root,
+    options,
+    extensions: selectExtensions(options.extensions, options.excludeExtensions),
+    maxDepth: options.recursive === false ? 0 : options.maxDepth ?? Infinity,
+    visited: new Set()
+  };
+}
+
+/**
+ * List the audio files in a directory. Fails with a ScanError when the directory itself
+ * can't be read; unreadable subdirectories and entries are logged and skipped.
+ * Globs, ignore files and the depth are relative to the root, which defaults to the directory.
+ */
+export async function scanDirectory(dirPath: string, options: ScanOptions, rootPath = dirPath): Promise<string[]> {
+  try {
+    await fs.promises.access(dirPath, fs.constants.R_OK);
+  } catch (error) {
+    throw new ScanError(dirPath, error instanceof Error ? error.message : String(error));
+  }
+
+  const context = createContext(rootPath, options);
+  const ignoreFiles = await ignoreFilesFor(dirPath, context);
+  if (!ignoreFiles) {
+    logger.debug('FileScanner', `Skipping excluded folder: ${dirPath}`);
+    return [];
+  }
+  if (options.followSymlinks) {
+    context.visited.add(await fs.promises.realpath(dirPath));
+  }
+  return scanFolder(dirPath, folderNames(dirPath, context).length, ignoreFiles, context);
+}
+
+/**
+ * Whether a file below a scan root would be picked up by a scan with these options,
+ * e.g. for files reported by a watcher. Its content isn't sniffed.
+ */
+export async function isScannedFile(rootPath: string, filePath: string, options: ScanOptions): Promise<boolean> {
+  const context = createContext(rootPath, options);
+  if (!isAudioFile(filePath, options)) {
+    return false;
+  }
+  const ignoreFiles = await ignoreFilesFor(path.dirname(filePath), context);
+  return !!ignoreFiles && !isExcludedFile(filePath, ignoreFiles, context);
+}
+
+function folderNames(dirPath: string, context: ScanContext): string[] {
+  return relativePath(dirPath, context).split('/').filter(Boolean);
+}
+
+/**
+ * The ignore files that apply in a folder below the root, checking the ignore files and excludes
+ * of every folder on the way down as a scan would. Null when the folder is excluded or too deep.
+ */
+async function ignoreFilesFor(dirPath: string, context: ScanContext): Promise<IgnoreFile[] | null> {
+  const folders = folderNames(dirPath, context);
+  if (folders[0] === '..' || folders.length > context.maxDepth) {
+    return null;
+  }
+
+  let ignoreFiles = await withIgnoreFile([], context.root, context);
+  let folder = context.root;
+  for (const name of folders) {
+    folder = path.join(folder, name);
+    if (isExcludedFolder(folder, ignoreFiles, context)) {
+      return null;
+    }
+    ignoreFiles = await withIgnoreFile(ignoreFiles, folder, context);
+  }
+  return ignoreFiles;
+}
+
+/**
+ * Scan a folder at a depth below the root, with the ignore files that apply in it
+ */
+async function scanFolder(dirPath: string, depth: number, ignoreFiles: IgnoreFile[], context: ScanContext): Promise<string[]> {
   const results: string[] = [];
-  
+
+  let entries: fs.Dirent[];
   try {
-    const files = await fs.promises.readdir(dirPath);
-    
-    for (const file of files) {
-      const filePath = path.join(dirPath, file);
-      const stat = await fs.promises.stat(filePath);
-      
-      if (stat.isDirectory()) {
-        if (recursive) {
-          const nestedFiles = await scanDirectory(filePath, options);
-          results.push(...nestedFiles);
+    entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+  } catch (error) {
+    const scanError = new ScanError(dirPath, error instanceof Error ? error.message : String(error));
+    logger.error('FileScanner', `[${scanError.code}] ${scanError.message}`);
+    return results;
+  }
+
+  for (const entry of entries) {
+    const filePath = path.join(dirPath, entry.name);
+    try {
+      const kind = await entryKind(entry, filePath, context);
+      if (kind === 'directory') {
+        if (depth >= context.maxDepth) {
+          logger.debug('FileScanner', `Not descending below the maximum depth: ${filePath}`);
+        } else if (isExcludedFolder(filePath, ignoreFiles, context)) {
+          logger.debug('FileScanner', `Skipping excluded folder: ${filePath}`);
+        } else {
+          results.push(...await scanFolder(filePath, depth + 1, await withIgnoreFile(ignoreFiles, filePath, context), context));
         }
-      } else {
-        // Only include audio files in the results
-        const ext = path.extname(file).toLowerCase();
-        if (AUDIO_EXTENSIONS.includes(ext)) {
+      } else if (kind === 'file') {
+        if (isExcludedFile(filePath, ignoreFiles, context)) {
+          logger.debug('FileScanner', `Skipping excluded file: ${entry.name}`);
+        } else if (await isAudio(filePath, context)) {
           results.push(filePath);
-        } else {
-          logger.debug('FileScanner', `Skipping non-audio file: ${file}`);
         }
       }
+    } catch (error) {
+      // A broken symlink or an unreadable entry doesn't stop the rest of the folder
+      logger.warn('FileScanner', `Skipping ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
     }
-  } catch (error) {
-    logger.error('FileScanner', `Error scanning directory ${dirPath}: ${error instanceof Error ? error.message : String(error)}`);
   }
-  
+
   return results;
-}
\ No newline at end of file
+}
+
+/**
+ * What an entry is for the scan. Symlinks are only followed when enabled, and a folder or
+ * file reached a second time through a symlink is skipped.
+ */
+async function entryKind(entry: fs.Dirent, filePath: string, context: ScanContext): Promise<'directory' | 'file' | undefined> {
+  let isDirectory = entry.isDirectory();
+  let isFile = entry.isFile();
+  if (entry.isSymbolicLink()) {
+    if (!context.options.followSymlinks) {
+      logger.debug('FileScanner', `Skipping symlink: ${filePath}`);
+      return undefined;
+    }
+    // Throws for a broken symlink
+    const stat = await fs.promises.stat(filePath);
+    isDirectory = stat.isDirectory();
+    isFile = stat.isFile();
+  }
+
+  // Files are checked once they turn out to be audio, see isAudio
+  if (isDirectory && context.options.followSymlinks) {
+    const realPath = await fs.promises.realpath(filePath);
+    if (context.visited.has(realPath)) {
+      logger.debug('FileScanner', `Skipping folder that was already scanned: ${filePath} -> ${realPath}`);
+      return undefined;
+    }
+    context.visited.add(realPath);
+  }
+  return isDirectory ? 'directory' : isFile ? 'file' : undefined;
+}
+
+function relativePath(filePath: string, context: ScanContext): string {
+  return path.relative(context.root, filePath).split(path.sep).join('/');
+}
+
+function matchesAny(relative: string, patterns: string[] = []): boolean {
+  return patterns.some(pattern => minimatch(relative, pattern, { dot: true }));
+}
+
+function isExcludedFolder(dirPath: string, ignoreFiles: IgnoreFile[], context: ScanContext): boolean {
+  const relative = relativePath(dirPath, context);
+  // "**/Audiobooks/**" matches what's inside a folder, so the folder is tested with a trailing slash too
+  return matchesAny(relative, context.options.exclude)
+    || matchesAny(`${relative}/`, context.options.exclude)
+    || isIgnored(ignoreFiles, dirPath, true);
+}
+
+function isExcludedFile(filePath: string, ignoreFiles: IgnoreFile[], context: ScanContext): boolean {
+  const relative = relativePath(filePath, context);
+  const { include = [], exclude } = context.options;
+  return matchesAny(relative, exclude)
+    || (include.length > 0 && !matchesAny(relative, include))
+    || isIgnored(ignoreFiles, filePath, false);
+}
+
+async function withIgnoreFile(ignoreFiles: IgnoreFile[], dirPath: string, context: ScanContext): Promise<IgnoreFile[]> {
+  if (context.options.ignoreFiles === false) {
+    return ignoreFiles;
+  }
+  const ignoreFile = await readIgnoreFile(dirPath);
+  return ignoreFile ? [...ignoreFiles, ignoreFile] : ignoreFiles;
+}
+
+/**
+ * Whether a file is audio of an included extension, recognizing audio files with a missing
+ * or wrong extension by their content. When following symlinks, a file already found
+ * under another path isn't picked up again.
+ */
+async function isAudio(filePath: string, context: ScanContext): Promise<boolean> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (audioFormatForExtension(ext)) {
+    if (!context.extensions.includes(ext.slice(1))) {
+      logger.debug('FileScanner', `Skipping excluded audio file: ${path.basename(filePath)}`);
+      return false;
+    }
+  } else if (NON_AUDIO_EXTENSIONS.includes(ext) || !await isSniffedAudio(filePath, context.extensions)) {
+    logger.debug('FileScanner', `Skipping non-audio file: ${path.basename(filePath)}`);
+    return false;
+  }
+
+  if (context.options.followSymlinks) {
+    const realPath = await fs.promises.realpath(filePath);
+    if (context.visited.has(realPath)) {
+      logger.debug('FileScanner', `Skipping file that was already found: ${filePath} -> ${realPath}`);
+      return false;
+    }
+    context.visited.add(realPath);
+  }
+  return true;
+}
+
+/**
+ * Recognize audio files with a missing or wrong extension by their content
+ */
+async function isSniffedAudio(filePath: string, extensions: string[]): Promise<boolean> {
+  const format = await sniffAudioFormat(filePath).catch(() => undefined);
+  if (!format || !format.extensions.some(extension => extensions.includes(extension))) {
+    return false;
+  }
+  logger.debug('FileScanner', `Detected ${format.name} audio by content: ${path.basename(filePath)}`);
+  return true;
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { minimatch } from 'minimatch';
+import { logger } from '../utils/logger';
+
+export const IGNORE_FILE_NAME = '.lrclibignore';
+
+/**
+ * One line of an ignore file
+ */
+interface IgnoreRule {
+  /** Glob relative to the ignore file's folder */
+  pattern: string;
+  /** "!pattern": include again what an earlier rule excluded */
+  negated: boolean;
+  /** "pattern/": only matches folders */
+  directoryOnly: boolean;
+}
+
+/**
+ * The rules of an ignore file, which apply to the folder it's in and everything below
+ */
+export interface IgnoreFile {
+  directory: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Parse ignore file lines with gitignore semantics: a pattern without a slash matches a name at
+ * any depth, one with a slash is relative to the ignore file's folder
+ */
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    // "\#" and "\!" stand for a literal first character
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    if (!line) continue;
+
+    const anchored = line.includes('/');
+    const pattern = anchored ? line.replace(/^\//, '') : `**/${line}`;
+    rules.push({ pattern, negated, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * Read the ignore file of a folder, if it has one
+ */
+export async function readIgnoreFile(directory: string): Promise<IgnoreFile | undefined> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(directory, IGNORE_FILE_NAME), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn('FileScanner', `Cannot read ${path.join(directory, IGNORE_FILE_NAME)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return undefined;
+  }
+  return { directory, rules: parseIgnoreRules(content) };
+}
+
+/**
+ * Whether the ignore files of a path's folders exclude it. Ignore files are given from the
+ * outermost folder in; the last matching rule wins, so deeper files override shallower ones.
+ */
+export function isIgnored(ignoreFiles: IgnoreFile[], filePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const { directory, rules } of ignoreFiles) {
+    const relative = path.relative(directory, filePath).split(path.sep).join('/');
+    for (const rule of rules) {
+      if ((!rule.directoryOnly || isDirectory) && minimatch(relative, rule.pattern, { dot: true })) {
+        ignored = !rule.negated;
+      }
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { FileOutcome, ProcessResult, ScanStateOptions, TrackMetadata } from '../types';
+import { readJsonFile, writeJsonFileAtomic } from '../utils/jsonFile';
+import { NOT_FOUND_REASON, DURATION_MISMATCH_REASON, QUEUED_FOR_REVIEW_REASON } from '../orchestrator/reasons';
+
+const STATE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STATE_PATH = path.join(os.homedir(), '.cache', 'lrclib-fetcher', 'scan-state.json');
+
+export const DEFAULT_STATE_OPTIONS: ScanStateOptions = {
+  enabled: false,
+  path: DEFAULT_STATE_PATH,
+  notFoundRetryDays: 7,
+  errorRetryDays: 1
+};
+
+/**
+ * What was known about an audio file after it was last processed
+ */
+export interface FileStateEntry {
+  size: number;
+  mtimeMs: number;
+  metadata?: TrackMetadata;
+  outcome: FileOutcome;
+  lyricPath?: string;
+  /** Fingerprint of the output settings the lyrics were written with */
+  output?: string;
+  processedAt: number;
+}
+
+interface StateFile {
+  version: number;
+  files: Record<string, FileStateEntry>;
+}
+
+/**
+ * Decision for a single file: whether it needs processing, and any metadata that can be reused
+ */
+export interface FileStateCheck {
+  process: boolean;
+  reason: string;
+  metadata?: TrackMetadata;
+}
+
+/**
+ * Persistent record of each audio file's last processing outcome,
+ * used to skip files that are unchanged since the last run.
+ * Files are keyed by absolute path, so a library given as a relative path is recognized too.
+ */
+export class ScanStateStore {
+  private readonly options: ScanStateOptions;
+  private files: Record<string, FileStateEntry> = {};
+  private loading?: Promise<void>;
+  private dirty = false;
+
+  constructor(options: Partial<ScanStateOptions> = {}) {
+    this.options = { ...DEFAULT_STATE_OPTIONS, ...options };
+  }
+
+  /**
+   * Decide whether a file is new, changed or due for a retry. Lyrics found with other output
+   * settings than `output` are written again.
+   */
+  async check(filePath: string, output?: string): Promise<FileStateCheck> {
+    await this.load();
+
+    const entry = this.files[path.resolve(filePath)];
+    if (!entry) {
+      return { process: true, reason: 'new' };
+    }
+
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch {
+      return { process: true, reason: 'unreadable' };
+    }
+
+    if (stat.size !== entry.size || stat.mtimeMs !== entry.mtimeMs) {
+      return { process: true, reason: 'changed' };
+    }
+
+    // Unchanged files keep their metadata so it doesn't have to be extracted again
+    const metadata = entry.metadata;
+    const age = Date.now() - entry.processedAt;
+
+    switch (entry.outcome) {
+      case 'found':
+      case 'instrumental':
+        if (entry.lyricPath && !fs.existsSync(entry.lyricPath)) {
+          return { process: true, reason: 'lyrics missing', metadata };
+        }
+        if (output !== undefined && entry.output !== output) {
+          return { process: true, reason: 'output settings changed', metadata };
+        }
+        return { process: false, reason: `unchanged (${entry.outcome})` };
+      case 'not-found':
+        return age >= this.options.notFoundRetryDays * DAY_MS
+          ? { process: true, reason: 'not-found retry due', metadata }
+          : { process: false, reason: 'unchanged (not-found)' };
+      case 'error':
+        return age >= this.options.errorRetryDays * DAY_MS
+          ? { process: true, reason: 'error retry due', metadata }
+          : { process: false, reason: 'unchanged (error)' };
+      case 'queued':
+        // Reprocessing applies a review decision as soon as one is made
+        return { process: true, reason: 'queued for review', metadata };
+    }
+  }
+
+  /**
+   * Metadata recorded for a file by an earlier run, e.g. to locate the lyrics of a deleted file
+   */
+  async knownMetadata(filePath: string): Promise<TrackMetadata | undefined> {
+    await this.load();
+    return this.files[path.resolve(filePath)]?.metadata;
+  }
+
+  /**
+   * Record the outcome of processing a file
+   */
+  async record(result: ProcessResult, outcome: FileOutcome, output?: string): Promise<void> {
+    await this.load();
+
+    try {
+      const stat = await fs.promises.stat(result.filePath);
+      this.files[path.resolve(result.filePath)] = {
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        metadata: result.metadata.artist || result.metadata.title ? result.metadata : undefined,
+        outcome,
+        lyricPath: result.lyricPath && path.resolve(result.lyricPath),
+        output,
+        processedAt: Date.now()
+      };
+      this.dirty = true;
+    } catch (error) {
+      logger.debug('ScanState', `Could not record state for ${result.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Forget a file, e.g. after it was deleted
+   */
+  async remove(filePath: string): Promise<void> {
+    await this.load();
+    const key = path.resolve(filePath);
+    if (this.files[key]) {
+      delete this.files[key];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Write pending changes to disk
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+
+    try {
+      await writeJsonFileAtomic(this.options.path, { version: STATE_VERSION, files: this.files });
+      this.dirty = false;
+      logger.debug('ScanState', `Saved state for ${Object.keys(this.files).length} files to ${this.options.path}`);
+    } catch (error) {
+      logger.error('ScanState', `Failed to save scan state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFromDisk();
+    }
+    return this.loading;
+  }
+
+  private async readFromDisk(): Promise<void> {
+    try {
+      const file = await readJsonFile<StateFile>(this.options.path);
+      if (!file) return;
+      if (file.version !== STATE_VERSION) {
+        logger.warn('ScanState', `Ignoring scan state with unsupported version ${file.version}`);
+        return;
+      }
+      this.files = file.files || {};
+      logger.debug('ScanState', `Loaded state for ${Object.keys(this.files).length} files from ${this.options.path}`);
+    } catch (error) {
+      logger.warn('ScanState', `Failed to read scan state: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Classify a processing result for the scan state
+ */
+export function outcomeOf(result: ProcessResult): FileOutcome {
+  if (result.success) {
+    return result.lyricsType === 'instrumental' ? 'instrumental' : 'found';
+  }
+  if (result.reason === QUEUED_FOR_REVIEW_REASON) {
+    return 'queued';
+  }
+  return result.reason === NOT_FOUND_REASON || result.reason === DURATION_MISMATCH_REASON ? 'not-found' : 'error';
+}
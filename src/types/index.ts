@@ -22,16 +22,54 @@ export interface OrchestratorOptions {
   search: {
     allowTitleOnlySearch: boolean;
     preferSynced: boolean;
+    minConfidence?: number;
+    maxDurationDeltaSeconds?: number;
+    durationMismatch?: DurationMismatchPolicy;
   };
   file: {
     skipExisting: boolean;
     overwriteExisting: boolean;
+    output?: LyricsOutputMode;
+    /** Add [ar:], [ti:], [al:], [length:] and [by:] headers to .lrc output */
+    lrcHeaders?: boolean;
+    /** Sidecar formats to write for each track */
+    formats?: LyricsFormat[];
+    /** Path template for sidecar files, e.g. '{lyricsRoot}/{albumartist}/{album}/{track:02} {title}.{ext}' */
+    pathTemplate?: string;
+    /** Path template per format, overriding pathTemplate */
+    pathTemplates?: Partial<Record<LyricsFormat, string>>;
+    /** Root of a separate lyrics tree, for the {lyricsRoot} placeholder */
+    lyricsRoot?: string;
+    /** Root of the music library, for the {reldir} placeholder; defaults to the processed directory */
+    libraryRoot?: string;
   };
   batch: {
     enabled: boolean;
+    /** Number of files processed in parallel */
     size: number;
+    /** Minimum spacing between API requests, on top of the rate limit; 0 leaves pacing to the rate limit */
     delayMs: number;
   };
+  rateLimit?: {
+    requestsPerSecond: number;
+    maxConcurrent: number;
+  };
+  network?: NetworkOptions;
+  lrclib?: LrcLibApiOptions;
+  cache?: LookupCacheOptions;
+  state?: ScanStateOptions;
+  review?: ReviewOptions;
+  normalization?: NormalizationOptions;
+  metadata?: MetadataOptions;
+  /** Which files directory scans pick up */
+  scan?: ScanFilterOptions;
+  /** Providers to query in order, by registered name or as instances; the first to find lyrics wins */
+  providers?: Array<string | LyricsProvider>;
+  local?: LocalLyricsOptions;
+  /** Path to a YAML or JSON file of per-track overrides */
+  overrides?: string;
+  /** Search and decide as usual but write nothing; each result gets a `plan` instead */
+  dryRun?: boolean;
   onProgress?: (current: number, total: number, result?: ProcessResult) => void;
 }
 
@@ -39,9 +77,18 @@ export interface OrchestratorOptions {
  * Track metadata extracted from audio files
  */
 export interface TrackMetadata {
+  /** Track artist, or the album artist when the track has no artist tag */
   artist: string;
   title: string;
   album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  discNumber?: number;
+  year?: number;
+  genre?: string;
+  isrc?: string;
+  musicBrainzRecordingId?: string;
+  musicBrainzReleaseId?: string;
   duration?: number;
   filepath: string;
 }
@@ -57,6 +104,53 @@ export interface LyricResult {
   plainLyrics: string | null;
   source: string;
   instrumental: boolean;
+  score?: number;
+  matchReasons?: string[];
+  /** How the lyrics were matched to the track */
+  matchStage?: MatchStage;
+  /** Difference between the lyrics' and the track's duration, in seconds */
+  durationDelta?: number;
+  /** Search variant that found the lyrics: 'original', or the normalization steps applied */
+  searchVariant?: string;
+  /** Score against the normalized tags of the variant that found the lyrics; score is against the track's own tags */
+  variantScore?: number;
+}
+
+/**
+ * How a lyrics candidate was matched: title and artist identical with an agreeing duration,
+ * found by artist and title, or found by title alone
+ */
+export type MatchStage = 'exact' | 'artist-title' | 'title-only';
+
+/**
+ * A source of lyrics that can be searched by track metadata
+ */
+export interface LyricsProvider {
+  /** Name reported as the source of the lyrics this provider returns */
+  readonly name: string;
+  /**
+   * Search for lyrics, returning the accepted candidates best first with their confidence in `score`.
+   * Candidates below `options.minConfidence` should not be returned.
+   */
+  search(metadata: TrackMetadata, options?: LyricSearchOptions): Promise<LyricResult[]>;
+}
+
+/**
+ * Settings for the provider that matches tracks against a folder of existing .lrc files
+ */
+export interface LocalLyricsOptions {
+  directory: string;
+}
+
+/**
+ * Confidence score of a candidate record against local metadata
+ */
+export interface MatchScore {
+  total: number;
+  durationDelta?: number;
+  /** Title and artist match exactly and the duration agrees or is unknown */
+  exact: boolean;
+  reasons: string[];
 }
 
 export interface ProcessResult {
@@ -64,15 +158,233 @@ export interface ProcessResult {
   metadata: TrackMetadata;
   success: boolean;
   lyricPath?: string;
+  lyricsType?: LyricsType;
+  skipped?: boolean;
   error?: Error;
+  reason?: string;
+  /** The lyrics chosen for the file */
+  match?: MatchedCandidate;
+  timings?: ProcessTimings;
+  /** What would have been written, set in dry-run mode */
+  plan?: FilePlan;
+  /** The override applied instead of searching */
+  override?: AppliedOverride;
+}
+
+/**
+ * What an override does to a track: use a specific LRCLIB record or lyrics file,
+ * mark the track instrumental, or leave it alone
+ */
+export type OverrideAction = 'lrclib-id' | 'lyrics-file' | 'instrumental' | 'exclude';
+
+/**
+ * An override that matched a track
+ */
+export interface AppliedOverride {
+  action: OverrideAction;
+  /** How the override matched, e.g. 'path: Artist/Album/01 Song.flac' */
+  match: string;
+  lrclibId?: number;
+  /** Absolute path of the lyrics file to use */
+  lyricsFile?: string;
+}
+
+/**
+ * Time spent on each step of processing a file, in milliseconds
+ */
+export interface ProcessTimings {
+  metadataMs?: number;
+  searchMs?: number;
+  writeMs?: number;
+  totalMs: number;
+}
+
+/**
+ * What a dry run decided to do with a file
+ */
+export type PlanAction =
+  | 'write-synced'
+  | 'write-plain'
+  | 'mark-instrumental'
+  | 'skip-existing'
+  | 'overwrite'
+  | 'no-match'
+  | 'queue-review'
+  | 'excluded'
+  | 'error';
+
+/**
+ * The lyrics chosen for a file, without their content
+ */
+export interface MatchedCandidate {
+  source: string;
+  artist: string;
+  title: string;
+  album?: string;
+  score?: number;
+  matchStage?: MatchStage;
+  durationDelta?: number;
+  searchVariant?: string;
+  variantScore?: number;
+  matchReasons?: string[];
+}
+
+/**
+ * Planned outcome for one file in a dry run
+ */
+export interface FilePlan {
+  action: PlanAction;
+  lyricsType?: LyricsType;
+  /** Files that would be written; the audio file itself when lyrics would be embedded */
+  paths: string[];
+  /** Existing lyrics that would be replaced */
+  replaces: string[];
+  candidate?: MatchedCandidate;
+  reason?: string;
+}
+
+/**
+ * Where lyrics are written: sidecar .lrc/.txt files, audio file tags, or both
+ */
+export type LyricsOutputMode = 'sidecar' | 'embed' | 'both';
+
+/**
+ * Sidecar file format. 'lrc' writes .lrc for synced lyrics and .txt for plain ones;
+ * the subtitle formats need synced lyrics.
+ */
+export type LyricsFormat = 'lrc' | 'srt' | 'vtt' | 'ttml' | 'json';
+
+/**
+ * Kind of lyrics written for a track
+ */
+export type LyricsType = 'synced' | 'plain' | 'instrumental';
+
+/**
+ * Last processing outcome of an audio file, recorded in the scan state
+ */
+export type FileOutcome = 'found' | 'not-found' | 'error' | 'instrumental' | 'queued';
+
+/**
+ * Limits applied to outgoing API requests
+ */
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  maxConcurrent: number;
+  minIntervalMs: number;
+}
+
+/**
+ * Timeout and retry behaviour for API requests
+ */
+export interface NetworkOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxBackoffMs: number;
+}
+
+/**
+ * LRCLIB API endpoint settings
+ */
+export interface LrcLibApiOptions {
+  /** API root, e.g. a self-hosted mirror; endpoints are appended as /api/... */
+  baseUrl: string;
+  /** Look tracks up with /api/get-cached, so LRCLIB never queries external sources */
+  cachedOnly: boolean;
+}
+
+/**
+ * Persistent lookup cache settings
+ */
+export interface LookupCacheOptions {
+  enabled: boolean;
+  path: string;
+  hitTtlDays: number;
+  missTtlDays: number;
+}
+
+/**
+ * Incremental scan state settings
+ */
+export interface ScanStateOptions {
+  enabled: boolean;
+  path: string;
+  notFoundRetryDays: number;
+  errorRetryDays: number;
+}
+
+/**
+ * Review queue settings for ambiguous matches
+ */
+export interface ReviewOptions {
+  /** Queue ambiguous matches for review instead of writing them */
+  enabled: boolean;
+  path: string;
+  /** Matches scoring below this are ambiguous; title-only matches always are */
+  threshold: number;
+  /** Number of candidates kept for each queued track */
+  candidates: number;
+}
+
+/**
+ * A normalization step that derives alternative search terms from a track's tags:
+ * - `move-featuring`: move "feat." credits from the title to the artist
+ * - `strip-suffixes`: drop remaster, live and edition suffixes from the title
+ * - `split-artists`: keep only the first of several artists
+ * - `fold-unicode`: remove diacritics and fold typographic quotes and dashes
+ */
+export type NormalizationStep = 'move-featuring' | 'strip-suffixes' | 'split-artists' | 'fold-unicode';
+
+/**
+ * Search term normalization settings
+ */
+export interface NormalizationOptions {
+  /** Search with normalized variants when the tags as they are find nothing */
+  enabled: boolean;
+  /** Steps applied one after another; each one that changes the terms adds a variant, tried in this order */
+  steps: NormalizationStep[];
+}
+
+/**
+ * Metadata extraction settings
+ */
+export interface MetadataOptions {
+  /** Number of files whose tags are read in parallel, ahead of the files being processed */
+  concurrency: number;
+}
+
+/**
+ * Watch mode settings
+ */
+export interface WatchOptions {
+  /** Quiet period after the last filesystem event before changes are processed */
+  debounceMs: number;
 }
 
 export interface ScanOptions {
   recursive: boolean;
   skipExisting: boolean;
+  /** Audio extensions to pick up, without the dot; empty for every supported format */
   extensions: string[];
+  /** Audio extensions to leave out */
+  excludeExtensions?: string[];
+  /** Globs relative to the scanned folder; when given, only files matching one are picked up */
+  include?: string[];
+  /** Globs relative to the scanned folder for files and folders to leave out */
+  exclude?: string[];
+  /** How many folder levels below the scanned folder to descend; unlimited when unset */
+  maxDepth?: number;
+  /** Follow symlinked files and folders; each real file is still picked up only once */
+  followSymlinks?: boolean;
+  /** Respect .lrclibignore files */
+  ignoreFiles?: boolean;
 }
 
+/**
+ * Which files a directory scan picks up
+ */
+export type ScanFilterOptions = Omit<ScanOptions, 'recursive' | 'skipExisting'>;
+
 export interface FetchOptions {
   overrideExisting: boolean;
   batchSize: number;
@@ -85,8 +397,18 @@ export interface FetchOptions {
 export interface LyricSearchOptions {
   allowTitleOnlySearch?: boolean;
   preferSynced?: boolean;
+  minConfidence?: number;
+  maxDurationDeltaSeconds?: number;
+  durationMismatch?: DurationMismatchPolicy;
+  /** Most candidates returned, best first; all of them when unset */
+  maxCandidates?: number;
 }
 
+/**
+ * How candidates outside the duration tolerance are treated
+ */
+export type DurationMismatchPolicy = 'reject' | 'downrank';
+
 
 /**
  * Processing result for a single file
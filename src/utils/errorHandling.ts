@@ -1,27 +1,243 @@
+/**
+ * Stable code of a failure. Codes never change once published, so reports, dashboards
+ * and scripts can group and match on them instead of messages.
+ */
+export type ErrorCode =
+  | 'SCAN_FAILED'
+  | 'METADATA_EXTRACTION_FAILED'
+  | 'UNSUPPORTED_FORMAT'
+  | 'NO_AUDIO_STREAM'
+  | 'INSUFFICIENT_METADATA'
+  | 'NETWORK_ERROR'
+  | 'RATE_LIMITED'
+  | 'FETCH_FAILED'
+  | 'NOT_FOUND'
+  | 'DURATION_MISMATCH'
+  | 'REVIEW_PENDING'
+  | 'INVALID_LYRICS'
+  | 'WRITE_PERMISSION_DENIED'
+  | 'WRITE_FAILED'
+  | 'PUBLISH_FAILED'
+  | 'UNKNOWN_PROVIDER'
+  | 'INVALID_CONFIGURATION'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * One-line description of each error code, for summaries
+ */
+export const ERROR_CODE_DESCRIPTIONS: Record<ErrorCode, string> = {
+  SCAN_FAILED: 'directory could not be scanned',
+  METADATA_EXTRACTION_FAILED: 'ffprobe could not read the file',
+  UNSUPPORTED_FORMAT: 'not a supported audio format',
+  NO_AUDIO_STREAM: 'file has no audio stream',
+  INSUFFICIENT_METADATA: 'artist or title tag missing',
+  NETWORK_ERROR: 'network error',
+  RATE_LIMITED: 'rate limited by the lyrics service',
+  FETCH_FAILED: 'lyrics service error',
+  NOT_FOUND: 'no lyrics found',
+  DURATION_MISMATCH: 'lyrics rejected: duration mismatch',
+  REVIEW_PENDING: 'ambiguous match queued for review',
+  INVALID_LYRICS: 'malformed synced lyrics',
+  WRITE_PERMISSION_DENIED: 'no permission to write lyrics',
+  WRITE_FAILED: 'lyrics could not be written',
+  PUBLISH_FAILED: 'lyrics could not be published',
+  UNKNOWN_PROVIDER: 'unknown lyrics provider',
+  INVALID_CONFIGURATION: 'invalid configuration',
+  UNKNOWN_ERROR: 'unexpected error'
+};
+
+/**
+ * Structured details of a failure, such as the file path or HTTP status
+ */
+export type ErrorContext = Record<string, string | number | boolean | undefined>;
+
+export interface LrcLibErrorOptions {
+  code?: ErrorCode;
+  /** Whether the same operation may succeed later without changes, e.g. after a network error */
+  retryable?: boolean;
+  context?: ErrorContext;
+}
+
 export class LrcLibError extends Error {
-  constructor(message: string) {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly context: ErrorContext;
+
+  constructor(message: string, options: LrcLibErrorOptions = {}) {
     super(message);
     this.name = 'LrcLibError';
+    this.code = options.code ?? 'UNKNOWN_ERROR';
+    this.retryable = options.retryable ?? false;
+    this.context = options.context ?? {};
+  }
+
+  toJSON() {
+    return { name: this.name, code: this.code, message: this.message, retryable: this.retryable, context: this.context };
+  }
+}
+
+export class ConfigurationError extends LrcLibError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, { code: 'INVALID_CONFIGURATION', context });
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class ScanError extends LrcLibError {
+  constructor(directory: string, reason: string) {
+    super(`Failed to scan ${directory}: ${reason}`, { code: 'SCAN_FAILED', retryable: true, context: { directory } });
+    this.name = 'ScanError';
   }
 }
 
 export class MetadataExtractionError extends LrcLibError {
-  constructor(filePath: string, reason: string) {
-    super(`Failed to extract metadata from ${filePath}: ${reason}`);
+  constructor(filePath: string, reason: string, options: LrcLibErrorOptions = {}) {
+    super(`Failed to extract metadata from ${filePath}: ${reason}`, {
+      code: 'METADATA_EXTRACTION_FAILED',
+      retryable: true,
+      ...options,
+      context: { filePath, ...options.context }
+    });
     this.name = 'MetadataExtractionError';
   }
 }
 
+export class UnsupportedFormatError extends MetadataExtractionError {
+  constructor(filePath: string, extension: string) {
+    super(filePath, `unsupported format ${extension || '(no extension)'}`, {
+      code: 'UNSUPPORTED_FORMAT',
+      retryable: false,
+      context: { extension }
+    });
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+export class NoAudioStreamError extends MetadataExtractionError {
+  constructor(filePath: string) {
+    super(filePath, 'no audio stream found', { code: 'NO_AUDIO_STREAM', retryable: false });
+    this.name = 'NoAudioStreamError';
+  }
+}
+
+export class InsufficientMetadataError extends LrcLibError {
+  constructor(filePath: string, missing: string[]) {
+    super(`Insufficient metadata to search for lyrics in ${filePath}: missing ${missing.join(' and ')}`, {
+      code: 'INSUFFICIENT_METADATA',
+      context: { filePath, missing: missing.join(',') }
+    });
+    this.name = 'InsufficientMetadataError';
+  }
+}
+
 export class LyricsFetchError extends LrcLibError {
-  constructor(artist: string, title: string, reason: string) {
-    super(`Failed to fetch lyrics for "${artist} - ${title}": ${reason}`);
+  constructor(artist: string, title: string, reason: string, options: LrcLibErrorOptions = {}) {
+    super(`Failed to fetch lyrics for "${artist} - ${title}": ${reason}`, {
+      code: 'FETCH_FAILED',
+      retryable: true,
+      ...options,
+      context: { artist, title, ...options.context }
+    });
     this.name = 'LyricsFetchError';
   }
 }
 
+export class NetworkError extends LyricsFetchError {
+  constructor(artist: string, title: string, reason: string, errorCode?: string) {
+    super(artist, title, reason, { code: 'NETWORK_ERROR', context: { errorCode } });
+    this.name = 'NetworkError';
+  }
+}
+
+export class RateLimitedError extends LyricsFetchError {
+  constructor(artist: string, title: string, retryAfterMs?: number) {
+    super(artist, title, 'rate limited (HTTP 429)', { code: 'RATE_LIMITED', context: { status: 429, retryAfterMs } });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class LyricsNotFoundError extends LrcLibError {
+  constructor(artist: string, title: string) {
+    super(`No lyrics found for: ${artist} - ${title}`, { code: 'NOT_FOUND', context: { artist, title } });
+    this.name = 'LyricsNotFoundError';
+  }
+}
+
+export class DurationMismatchError extends LrcLibError {
+  constructor(artist: string, title: string, durationDelta: number, maxDurationDelta: number) {
+    super(`Rejected lyrics for "${artist} - ${title}": duration differs by ${durationDelta.toFixed(1)}s (max ±${maxDurationDelta}s)`, {
+      code: 'DURATION_MISMATCH',
+      context: { artist, title, durationDelta: Math.round(durationDelta * 10) / 10, maxDurationDelta }
+    });
+    this.name = 'DurationMismatchError';
+  }
+}
+
+export class ReviewPendingError extends LrcLibError {
+  constructor(artist: string, title: string, candidates: number) {
+    super(`Ambiguous match for "${artist} - ${title}" queued for review with ${candidates} candidates`, {
+      code: 'REVIEW_PENDING',
+      context: { artist, title, candidates }
+    });
+    this.name = 'ReviewPendingError';
+  }
+}
+
+// Filesystem error codes meaning the lyrics location isn't writable
+const PERMISSION_ERROR_CODES = ['EACCES', 'EPERM', 'EROFS'];
+
 export class FileWriteError extends LrcLibError {
-  constructor(filePath: string, reason: string) {
-    super(`Failed to write lyrics to ${filePath}: ${reason}`);
+  constructor(filePath: string, reason: string, errno?: string) {
+    const permission = !!errno && PERMISSION_ERROR_CODES.includes(errno);
+    super(`Failed to write lyrics to ${filePath}: ${reason}`, {
+      code: permission ? 'WRITE_PERMISSION_DENIED' : 'WRITE_FAILED',
+      // Filesystem errors such as a full disk can clear up; corrupt audio files won't
+      retryable: !!errno && !permission,
+      context: { filePath, errno }
+    });
     this.name = 'FileWriteError';
   }
-}
\ No newline at end of file
+}
+
+export class PublishError extends LrcLibError {
+  constructor(artist: string, title: string, reason: string, options: LrcLibErrorOptions = {}) {
+    super(`Failed to publish lyrics for "${artist} - ${title}": ${reason}`, {
+      code: 'PUBLISH_FAILED',
+      ...options,
+      context: { artist, title, ...options.context }
+    });
+    this.name = 'PublishError';
+  }
+}
+
+export class InvalidLyricsError extends LrcLibError {
+  constructor(filePath: string, reason: string) {
+    super(`Invalid synced lyrics for ${filePath}: ${reason}`, { code: 'INVALID_LYRICS', context: { filePath } });
+    this.name = 'InvalidLyricsError';
+  }
+}
+
+export class UnknownProviderError extends LrcLibError {
+  constructor(name: string, available: string[]) {
+    super(`Unknown lyrics provider "${name}" (available: ${available.join(', ')})`, {
+      code: 'UNKNOWN_PROVIDER',
+      context: { provider: name, available: available.join(',') }
+    });
+    this.name = 'UnknownProviderError';
+  }
+}
+
+/**
+ * Stable code of any error; errors not raised by this library are UNKNOWN_ERROR
+ */
+export function errorCodeOf(error: unknown): ErrorCode {
+  return error instanceof LrcLibError ? error.code : 'UNKNOWN_ERROR';
+}
+
+/**
+ * Filesystem error code (e.g. EACCES) of a Node.js error
+ */
+export function errnoOf(error: unknown): string | undefined {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Read and parse a JSON file, returning undefined if it doesn't exist
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically, creating parent directories as needed
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+  await fs.promises.rename(tempPath, filePath);
+}
@@ -0,0 +1,235 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { isAudioFile, isScannedFile, scanDirectory } from '../scanner/fileScanner';
+import { LyricsFetcherOrchestrator } from '../orchestrator/index';
+import { OrchestratorOptions, ProcessResult, WatchOptions } from '../types';
+
+export const DEFAULT_WATCH_OPTIONS: WatchOptions = {
+  debounceMs: 5000
+};
+
+/**
+ * Changes collected during one quiet period
+ */
+interface ChangeSet {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Size and modification time of a file, to tell whether it changed
+ */
+function fileVersion(stat: fs.Stats): string {
+  return `${stat.size}:${stat.mtimeMs}`;
+}
+
+/**
+ * Watches a music library and fetches lyrics as new audio files land.
+ * Bursts of filesystem events (e.g. an album copy) are debounced into a single pass.
+ */
+export class LibraryWatcher {
+  private readonly options: WatchOptions;
+  private watcher?: fs.FSWatcher;
+  private directory = '';
+  private readonly pendingPaths = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private processing: Promise<void> = Promise.resolve();
+  // Audio files as the last pass left them, so the events of lyrics embedded by the pass itself are ignored
+  private readonly processedVersions = new Map<string, string>();
+
+  constructor(
+    private readonly orchestrator: LyricsFetcherOrchestrator,
+    private readonly orchestratorOptions: Partial<OrchestratorOptions> = {},
+    options: Partial<WatchOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_WATCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Start watching a directory tree
+   */
+  start(directory: string, onBatch?: (results: ProcessResult[]) => void): void {
+    this.directory = path.resolve(directory);
+    this.watcher = fs.watch(this.directory, { recursive: true }, (_eventType, filename) => {
+      if (!filename) return;
+      this.pendingPaths.add(path.join(this.directory, filename.toString()));
+      this.schedule(onBatch);
+    });
+
+    this.watcher.on('error', error => {
+      logger.error('LibraryWatcher', `Watcher error: ${error.message}`);
+    });
+
+    logger.info('LibraryWatcher', `Watching ${this.directory} for new music`);
+  }
+
+  /**
+   * Stop watching and wait for the pass in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.processing;
+    logger.info('LibraryWatcher', `Stopped watching ${this.directory}`);
+  }
+
+  private schedule(onBatch?: (results: ProcessResult[]) => void): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    // Wait for a quiet period so in-progress copies are complete before processing
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      const paths = [...this.pendingPaths];
+      this.pendingPaths.clear();
+      this.processing = this.processing
+        .then(() => this.processChanges(paths, onBatch))
+        .catch(error => {
+          logger.error('LibraryWatcher', `Failed to process changes: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }, this.options.debounceMs);
+  }
+
+  /**
+   * Orchestrator options for a pass, with the watched folder as library root for {reldir}
+   */
+  private passOptions(): Partial<OrchestratorOptions> {
+    const file = this.orchestratorOptions.file;
+    if (!file || file.libraryRoot) {
+      return this.orchestratorOptions;
+    }
+    return { ...this.orchestratorOptions, file: { ...file, libraryRoot: this.directory } };
+  }
+
+  private async processChanges(paths: string[], onBatch?: (results: ProcessResult[]) => void): Promise<void> {
+    const changes = await this.classifyChanges(paths);
+    logger.debug('LibraryWatcher', `Changes: ${changes.added.length} added, ${changes.removed.length} removed`);
+
+    const added = new Set(changes.added);
+    const moves = this.pairMoves(changes);
+    const options = this.passOptions();
+
+    for (const removedPath of changes.removed) {
+      const movedTo = moves.get(removedPath);
+      if (movedTo) {
+        logger.info('LibraryWatcher', `Detected move: ${removedPath} -> ${movedTo}`);
+        await this.orchestrator.moveLyrics(removedPath, movedTo, options);
+      } else {
+        logger.info('LibraryWatcher', `Detected deletion: ${removedPath}`);
+        await this.orchestrator.removeLyrics(removedPath, options);
+      }
+    }
+
+    if (added.size > 0) {
+      logger.info('LibraryWatcher', `Fetching lyrics for ${added.size} new or changed files`);
+      const results = await this.orchestrator.processFiles([...added], options);
+      await this.rememberVersions([...added]);
+      onBatch?.(results);
+    }
+  }
+
+  /**
+   * Record the files of a pass as they are now, including any lyrics the pass embedded in them
+   */
+  private async rememberVersions(filePaths: string[]): Promise<void> {
+    for (const filePath of filePaths) {
+      try {
+        this.processedVersions.set(filePath, fileVersion(await fs.promises.stat(filePath)));
+      } catch {
+        this.processedVersions.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Whether a file changed since the last pass processed it; files it didn't process count as changed
+   */
+  private async changedSinceProcessed(filePath: string, stat?: fs.Stats): Promise<boolean> {
+    const processed = this.processedVersions.get(filePath);
+    if (processed === undefined) return true;
+    try {
+      return fileVersion(stat ?? await fs.promises.stat(filePath)) !== processed;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Sort raw event paths into audio files that now exist and ones that are gone.
+   * Files left unchanged since the last pass processed them are neither.
+   */
+  private async classifyChanges(paths: string[]): Promise<ChangeSet> {
+    const changes: ChangeSet = { added: [], removed: [] };
+    const scan = this.orchestratorOptions.scan;
+    const scanOptions = { recursive: true, skipExisting: false, extensions: [], ...scan };
+
+    for (const changedPath of paths) {
+      let stat: fs.Stats;
+      try {
+        stat = await fs.promises.stat(changedPath);
+      } catch {
+        this.processedVersions.delete(changedPath);
+        if (isAudioFile(changedPath, scan)) {
+          changes.removed.push(changedPath);
+        }
+        continue;
+      }
+
+      if (stat.isDirectory()) {
+        // A copied or moved folder may not produce events for every file inside it
+        for (const nestedFile of await scanDirectory(changedPath, scanOptions, this.directory)) {
+          if (await this.changedSinceProcessed(nestedFile)) {
+            changes.added.push(nestedFile);
+          }
+        }
+      } else if (await isScannedFile(this.directory, changedPath, scanOptions)) {
+        if (await this.changedSinceProcessed(changedPath, stat)) {
+          changes.added.push(changedPath);
+        } else {
+          logger.debug('LibraryWatcher', `Ignoring unchanged file: ${changedPath}`);
+        }
+      }
+    }
+
+    changes.added = [...new Set(changes.added)];
+    return changes;
+  }
+
+  /**
+   * Pair removed files with added ones that are likely the same file.
+   * A file with the same name elsewhere was moved; a lone removal and addition
+   * in the same folder was renamed.
+   */
+  private pairMoves(changes: ChangeSet): Map<string, string> {
+    const moves = new Map<string, string>();
+    const unmatchedAdded = new Set(changes.added);
+
+    for (const removedPath of changes.removed) {
+      const name = path.basename(removedPath);
+      const target = [...unmatchedAdded].find(addedPath => path.basename(addedPath) === name);
+      if (target) {
+        moves.set(removedPath, target);
+        unmatchedAdded.delete(target);
+      }
+    }
+
+    const unmatchedRemoved = changes.removed.filter(removedPath => !moves.has(removedPath));
+    for (const removedPath of unmatchedRemoved) {
+      const folder = path.dirname(removedPath);
+      const removedInFolder = unmatchedRemoved.filter(other => path.dirname(other) === folder);
+      const addedInFolder = [...unmatchedAdded].filter(addedPath => path.dirname(addedPath) === folder);
+      if (removedInFolder.length === 1 && addedInFolder.length === 1) {
+        moves.set(removedPath, addedInFolder[0]);
+        unmatchedAdded.delete(addedInFolder[0]);
+      }
+    }
+
+    return moves;
+  }
+}
@@ -0,0 +1,91 @@
+import { EmbeddedLyrics } from './lyricsText';
+import { FileSource } from '../../metadata/tags/fileSource';
+import { parseVorbisComment, serializeVorbisComment, withVorbisLyrics, hasVorbisLyrics, VorbisComment } from './vorbisComment';
+
+const BLOCK_TYPE_VORBIS_COMMENT = 4;
+const LAST_BLOCK_FLAG = 0x80;
+const MAX_BLOCK_SIZE = 0xffffff;
+const BLOCK_HEADER_SIZE = 4;
+
+interface MetadataBlock {
+  type: number;
+  data: Buffer;
+}
+
+function readBlocks(buffer: Buffer): { blocks: MetadataBlock[]; audioStart: number } {
+  if (buffer.toString('latin1', 0, 4) !== 'fLaC') {
+    throw new Error('not a FLAC stream');
+  }
+
+  const blocks: MetadataBlock[] = [];
+  let offset = 4;
+  let last = false;
+
+  while (!last) {
+    const header = buffer[offset];
+    last = (header & LAST_BLOCK_FLAG) !== 0;
+    const length = buffer.readUIntBE(offset + 1, 3);
+    blocks.push({ type: header & 0x7f, data: buffer.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+
+  return { blocks, audioStart: offset };
+}
+
+/**
+ * Read the "fLaC" marker and metadata blocks at the start of a FLAC file, without the audio
+ */
+export async function readFlacMetadata(source: FileSource): Promise<Buffer> {
+  let offset = 4;
+  let last = false;
+  while (!last) {
+    const header = await source.read(offset, BLOCK_HEADER_SIZE);
+    if (header.length < BLOCK_HEADER_SIZE) {
+      throw new Error('truncated FLAC metadata');
+    }
+    last = (header[0] & LAST_BLOCK_FLAG) !== 0;
+    offset += BLOCK_HEADER_SIZE + header.readUIntBE(1, 3);
+  }
+  return source.read(0, offset);
+}
+
+export function hasFlacLyrics(buffer: Buffer): boolean {
+  const block = readBlocks(buffer).blocks.find(candidate => candidate.type === BLOCK_TYPE_VORBIS_COMMENT);
+  return !!block && hasVorbisLyrics(parseVorbisComment(block.data).comment);
+}
+
+/**
+ * Write lyrics into the FLAC Vorbis comment block.
+ * Other metadata blocks (stream info, pictures, padding) are copied unchanged.
+ */
+export function embedFlacLyrics(buffer: Buffer, lyrics: EmbeddedLyrics): Buffer {
+  const { blocks, audioStart } = readBlocks(buffer);
+
+  const existing = blocks.find(block => block.type === BLOCK_TYPE_VORBIS_COMMENT);
+  const comment: VorbisComment = existing
+    ? parseVorbisComment(existing.data).comment
+    : { vendor: Buffer.from('lrclib-fetcher-ts', 'utf8'), comments: [] };
+  const commentBlock: MetadataBlock = {
+    type: BLOCK_TYPE_VORBIS_COMMENT,
+    data: serializeVorbisComment(withVorbisLyrics(comment, lyrics))
+  };
+  if (commentBlock.data.length > MAX_BLOCK_SIZE) {
+    throw new Error('lyrics too large for a FLAC metadata block');
+  }
+
+  // STREAMINFO must stay first; a new comment block goes right after it
+  const newBlocks = existing
+    ? blocks.map(block => (block === existing ? commentBlock : block))
+    : [blocks[0], commentBlock, ...blocks.slice(1)];
+
+  const parts: Buffer[] = [Buffer.from('fLaC', 'latin1')];
+  newBlocks.forEach((block, index) => {
+    const header = Buffer.alloc(4);
+    header[0] = block.type | (index === newBlocks.length - 1 ? LAST_BLOCK_FLAG : 0);
+    header.writeUIntBE(block.data.length, 1, 3);
+    parts.push(header, block.data);
+  });
+  parts.push(buffer.subarray(audioStart));
+
+  return Buffer.concat(parts);
+}
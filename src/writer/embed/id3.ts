@@ -0,0 +1,173 @@
+import { EmbeddedLyrics, UnsupportedTagError } from './lyricsText';
+import { parseLrc } from '../../lyrics/lrc';
+import { FileSource } from '../../metadata/tags/fileSource';
+import { id3v2Size } from '../../metadata/tags/id3';
+
+const HEADER_SIZE = 10;
+const LYRICS_FRAME_IDS = ['USLT', 'SYLT'];
+
+// Tag header flags that change how the frame data must be read
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+const FLAG_FOOTER = 0x10;
+
+// ISO-639-2 code for "undetermined" language
+const LANGUAGE = 'XXX';
+
+function readSyncsafe(buffer: Buffer, offset: number): number {
+  return (buffer[offset] << 21) | (buffer[offset + 1] << 14) | (buffer[offset + 2] << 7) | buffer[offset + 3];
+}
+
+function writeSyncsafe(value: number): Buffer {
+  return Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+/**
+ * Encode text for a frame. ID3v2.4 supports UTF-8; v2.3 needs UTF-16 with BOM.
+ */
+function encodeText(text: string, version: number, terminated: boolean): { encoding: number; data: Buffer } {
+  if (version >= 4) {
+    const data = Buffer.from(text, 'utf8');
+    return { encoding: 3, data: terminated ? Buffer.concat([data, Buffer.from([0])]) : data };
+  }
+  const data = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+  return { encoding: 1, data: terminated ? Buffer.concat([data, Buffer.from([0, 0])]) : data };
+}
+
+function buildFrame(id: string, body: Buffer, version: number): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write(id, 0, 'latin1');
+  if (version >= 4) {
+    writeSyncsafe(body.length).copy(header, 4);
+  } else {
+    header.writeUInt32BE(body.length, 4);
+  }
+  return Buffer.concat([header, body]);
+}
+
+function buildUsltFrame(plain: string, version: number): Buffer {
+  const descriptor = encodeText('', version, true);
+  const text = encodeText(plain, version, false);
+  return buildFrame('USLT', Buffer.concat([
+    Buffer.from([descriptor.encoding]),
+    Buffer.from(LANGUAGE, 'latin1'),
+    descriptor.data,
+    text.data
+  ]), version);
+}
+
+function buildSyltFrame(synced: string, version: number): Buffer {
+  const descriptor = encodeText('', version, true);
+  const parts: Buffer[] = [
+    Buffer.from([descriptor.encoding]),
+    Buffer.from(LANGUAGE, 'latin1'),
+    Buffer.from([2, 1]), // timestamps in milliseconds, content type "lyrics"
+    descriptor.data
+  ];
+
+  const document = parseLrc(synced);
+  for (const line of document.lines) {
+    parts.push(encodeText(line.text, version, true).data);
+    const timestamp = Buffer.alloc(4);
+    timestamp.writeUInt32BE(Math.max(0, line.timeMs - document.offsetMs), 0);
+    parts.push(timestamp);
+  }
+
+  return buildFrame('SYLT', Buffer.concat(parts), version);
+}
+
+/**
+ * Split an existing tag into its raw frames, keeping each frame's bytes unchanged
+ */
+function readFrames(buffer: Buffer, version: number, tagEnd: number): Array<{ id: string; bytes: Buffer }> {
+  const frames: Array<{ id: string; bytes: Buffer }> = [];
+  let offset = HEADER_SIZE;
+
+  while (offset + HEADER_SIZE <= tagEnd) {
+    // Padding starts with a zero byte
+    if (buffer[offset] === 0) break;
+
+    const id = buffer.toString('latin1', offset, offset + 4);
+    const size = version >= 4 ? readSyncsafe(buffer, offset + 4) : buffer.readUInt32BE(offset + 4);
+    const end = offset + HEADER_SIZE + size;
+    if (end > tagEnd) {
+      throw new Error(`corrupt ID3v2 frame ${id}`);
+    }
+
+    frames.push({ id, bytes: buffer.subarray(offset, end) });
+    offset = end;
+  }
+
+  return frames;
+}
+
+/**
+ * Reject tags whose frames can't be rewritten as they are
+ */
+function checkSupported(version: number, flags: number): void {
+  if (version < 3 || version > 4) {
+    throw new UnsupportedTagError(`unsupported ID3v2.${version} tag`);
+  }
+  if (flags & (FLAG_UNSYNCHRONISATION | FLAG_EXTENDED_HEADER)) {
+    throw new UnsupportedTagError('unsupported ID3v2 tag with unsynchronisation or extended header');
+  }
+}
+
+/**
+ * Read the ID3v2 tag at the start of an MP3 file, or only its first bytes when it has none
+ */
+export async function readId3Tag(source: FileSource): Promise<Buffer> {
+  const header = await source.read(0, HEADER_SIZE);
+  const size = id3v2Size(header);
+  return size > 0 ? source.read(0, size) : header;
+}
+
+/**
+ * Check whether an MP3 file already has embedded lyrics
+ */
+export function hasId3Lyrics(buffer: Buffer): boolean {
+  if (buffer.toString('latin1', 0, 3) !== 'ID3') return false;
+
+  const version = buffer[3];
+  checkSupported(version, buffer[5]);
+
+  const tagEnd = HEADER_SIZE + readSyncsafe(buffer, 6);
+  return readFrames(buffer, version, tagEnd).some(frame => LYRICS_FRAME_IDS.includes(frame.id));
+}
+
+/**
+ * Write USLT (and SYLT for synced lyrics) frames into an MP3 file's ID3v2 tag.
+ * All other frames, including cover art, are copied unchanged.
+ */
+export function embedId3Lyrics(buffer: Buffer, lyrics: EmbeddedLyrics): Buffer {
+  let version = 3;
+  let frames: Array<{ id: string; bytes: Buffer }> = [];
+  let audioStart = 0;
+
+  if (buffer.toString('latin1', 0, 3) === 'ID3') {
+    version = buffer[3];
+    const flags = buffer[5];
+    checkSupported(version, flags);
+
+    const tagEnd = HEADER_SIZE + readSyncsafe(buffer, 6);
+    frames = readFrames(buffer, version, tagEnd);
+    audioStart = tagEnd + (flags & FLAG_FOOTER ? HEADER_SIZE : 0);
+  }
+
+  const newFrames: Buffer[] = frames
+    .filter(frame => !LYRICS_FRAME_IDS.includes(frame.id))
+    .map(frame => frame.bytes);
+
+  if (lyrics.plain) {
+    newFrames.push(buildUsltFrame(lyrics.plain, version));
+  }
+  if (lyrics.synced) {
+    newFrames.push(buildSyltFrame(lyrics.synced, version));
+  }
+
+  const body = Buffer.concat(newFrames);
+  const header = Buffer.from([0x49, 0x44, 0x33, version, 0, 0, 0, 0, 0, 0]);
+  writeSyncsafe(body.length).copy(header, 6);
+
+  return Buffer.concat([header, body, buffer.subarray(audioStart)]);
+}
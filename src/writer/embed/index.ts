@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { LyricResult } from '../../types';
+import { FileSource } from '../../metadata/tags/fileSource';
+import { readMoov } from '../../metadata/tags/mp4';
+import { EmbeddedLyrics, UnsupportedTagError, toEmbeddedLyrics } from './lyricsText';
+import { embedId3Lyrics, hasId3Lyrics, readId3Tag } from './id3';
+import { embedFlacLyrics, hasFlacLyrics, readFlacMetadata } from './flac';
+import { embedOggLyrics, hasOggLyrics, readOggHeaderPages } from './ogg';
+import { embedMp4Lyrics, hasMp4Lyrics } from './mp4';
+
+/**
+ * Tag format handlers for embedding lyrics, keyed by file extension
+ */
+interface TagEmbedder {
+  embed(buffer: Buffer, lyrics: EmbeddedLyrics): Buffer;
+  /** Read the part of a file holding its tags, which is all hasLyrics needs */
+  readTags(source: FileSource): Promise<Buffer>;
+  hasLyrics(tags: Buffer): boolean;
+}
+
+const ID3_EMBEDDER: TagEmbedder = { embed: embedId3Lyrics, readTags: readId3Tag, hasLyrics: hasId3Lyrics };
+const FLAC_EMBEDDER: TagEmbedder = { embed: embedFlacLyrics, readTags: readFlacMetadata, hasLyrics: hasFlacLyrics };
+const OGG_EMBEDDER: TagEmbedder = { embed: embedOggLyrics, readTags: readOggHeaderPages, hasLyrics: hasOggLyrics };
+const MP4_EMBEDDER: TagEmbedder = { embed: embedMp4Lyrics, readTags: readMoov, hasLyrics: hasMp4Lyrics };
+
+const EMBEDDERS: Record<string, TagEmbedder> = {
+  '.mp3': ID3_EMBEDDER,
+  '.flac': FLAC_EMBEDDER,
+  '.ogg': OGG_EMBEDDER,
+  '.opus': OGG_EMBEDDER,
+  '.m4a': MP4_EMBEDDER
+};
+
+function embedderFor(audioFilePath: string): TagEmbedder | undefined {
+  return EMBEDDERS[path.extname(audioFilePath).toLowerCase()];
+}
+
+/**
+ * Check whether lyrics can be embedded in this kind of file
+ */
+export function supportsEmbedding(audioFilePath: string): boolean {
+  return !!embedderFor(audioFilePath);
+}
+
+/**
+ * Whether an audio file carries embedded lyrics, has none yet, or has tags lyrics can't be embedded in
+ */
+export type EmbeddedLyricsStatus = 'present' | 'missing' | 'unsupported';
+
+/**
+ * Check an audio file's embedded lyrics, reading only its tags. A file whose tags can't be
+ * read counts as having no lyrics; embedding then reports what is wrong with it.
+ */
+export async function embeddedLyricsStatus(audioFilePath: string): Promise<EmbeddedLyricsStatus> {
+  const embedder = embedderFor(audioFilePath);
+  if (!embedder) return 'unsupported';
+
+  let source: FileSource | undefined;
+  try {
+    source = await FileSource.open(audioFilePath);
+    return embedder.hasLyrics(await embedder.readTags(source)) ? 'present' : 'missing';
+  } catch (error) {
+    return error instanceof UnsupportedTagError ? 'unsupported' : 'missing';
+  } finally {
+    await source?.close();
+  }
+}
+
+/**
+ * Check whether an audio file already carries embedded lyrics
+ */
+export async function hasEmbeddedLyrics(audioFilePath: string): Promise<boolean> {
+  return await embeddedLyricsStatus(audioFilePath) === 'present';
+}
+
+/**
+ * Embed lyrics into an audio file's tags. The file is replaced atomically.
+ * Returns false if there was nothing to embed.
+ */
+export async function embedLyrics(audioFilePath: string, lyrics: LyricResult): Promise<boolean> {
+  const embedder = embedderFor(audioFilePath);
+  if (!embedder) {
+    throw new Error(`embedding is not supported for ${path.extname(audioFilePath)} files`);
+  }
+
+  const embedded = toEmbeddedLyrics(lyrics);
+  if (!embedded) return false;
+
+  const original = await fs.promises.readFile(audioFilePath);
+  const updated = embedder.embed(original, embedded);
+  const { mode } = await fs.promises.stat(audioFilePath);
+
+  const tempPath = `${audioFilePath}.lrclib-tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, updated, { mode });
+    await fs.promises.rename(tempPath, audioFilePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+  return true;
+}
@@ -0,0 +1,33 @@
+import { LyricResult } from '../../types';
+import { parseLrc, INSTRUMENTAL_LRC } from '../../lyrics/lrc';
+
+/**
+ * Lyrics prepared for embedding: synced LRC text and plain text
+ */
+export interface EmbeddedLyrics {
+  synced?: string;
+  plain?: string;
+}
+
+/**
+ * A tag the embedders can't rewrite, so lyrics go to a sidecar file instead
+ */
+export class UnsupportedTagError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedTagError';
+  }
+}
+
+/**
+ * Decide what to embed for a lyrics result; plain text is derived from synced lyrics when missing
+ */
+export function toEmbeddedLyrics(lyrics: LyricResult): EmbeddedLyrics | null {
+  const synced = lyrics.syncedLyrics || (lyrics.instrumental && !lyrics.plainLyrics ? INSTRUMENTAL_LRC : undefined);
+  const plain = lyrics.plainLyrics || (synced ? parseLrc(synced).lines.map(line => line.text).join('\n') : undefined);
+
+  if (!synced && !plain) {
+    return null;
+  }
+  return { synced, plain };
+}
@@ -0,0 +1,186 @@
+import { EmbeddedLyrics } from './lyricsText';
+
+const LYRICS_ATOM = '©lyr';
+const DATA_TYPE_UTF8 = 1;
+
+// Containers on the path to the iTunes metadata list, and those holding chunk offset tables
+const META_PATH = ['moov', 'udta', 'meta', 'ilst'];
+const OFFSET_TABLE_PATH = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+
+interface Atom {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+function readAtoms(buffer: Buffer, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`corrupt MP4 atom ${type}`);
+    }
+
+    atoms.push({ type, start: offset, headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return atoms;
+}
+
+/**
+ * Offset of an atom's children; "meta" is a full box with 4 bytes of version and flags
+ */
+function childrenStart(atom: Atom): number {
+  return atom.start + atom.headerSize + (atom.type === 'meta' ? 4 : 0);
+}
+
+function buildAtom(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+function buildLyricsAtom(text: string): Buffer {
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.writeUInt32BE(DATA_TYPE_UTF8, 0); // version 0, type UTF-8; 4 bytes locale follow as zero
+  return buildAtom(LYRICS_ATOM, buildAtom('data', dataHeader, Buffer.from(text, 'utf8')));
+}
+
+/**
+ * Build the missing part of the udta/meta/ilst chain around the lyrics atom
+ */
+function buildMissingContainers(missing: string[], content: Buffer): Buffer {
+  let result = content;
+  for (const type of [...missing].reverse()) {
+    if (type === 'meta') {
+      const handler = buildAtom('hdlr', Buffer.alloc(8), Buffer.from('mdirappl', 'latin1'), Buffer.alloc(9));
+      result = buildAtom('meta', Buffer.alloc(4), handler, result);
+    } else {
+      result = buildAtom(type, result);
+    }
+  }
+  return result;
+}
+
+/**
+ * Rewrite a container atom, replacing the byte range [from, to) with new content
+ * and fixing up the size of every enclosing atom
+ */
+function resize(buffer: Buffer, chain: Atom[], from: number, to: number, content: Buffer): Buffer {
+  const result = Buffer.concat([buffer.subarray(0, from), content, buffer.subarray(to)]);
+  const delta = content.length - (to - from);
+
+  for (const atom of chain) {
+    const newSize = atom.end - atom.start + delta;
+    if (atom.headerSize === 16) {
+      result.writeBigUInt64BE(BigInt(newSize), atom.start + 8);
+    } else {
+      result.writeUInt32BE(newSize, atom.start);
+    }
+  }
+  return result;
+}
+
+/**
+ * Shift chunk offsets (stco/co64) after moov grows or shrinks in front of the media data
+ */
+function shiftChunkOffsets(buffer: Buffer, moov: Atom, delta: number): void {
+  const visit = (atom: Atom, depth: number) => {
+    if (atom.type === 'stco' || atom.type === 'co64') {
+      const count = buffer.readUInt32BE(atom.start + atom.headerSize + 4);
+      let position = atom.start + atom.headerSize + 8;
+      for (let i = 0; i < count; i++) {
+        if (atom.type === 'stco') {
+          buffer.writeUInt32BE(buffer.readUInt32BE(position) + delta, position);
+          position += 4;
+        } else {
+          buffer.writeBigUInt64BE(buffer.readBigUInt64BE(position) + BigInt(delta), position);
+          position += 8;
+        }
+      }
+      return;
+    }
+    if (depth < OFFSET_TABLE_PATH.length && atom.type === OFFSET_TABLE_PATH[depth]) {
+      readAtoms(buffer, childrenStart(atom), atom.end).forEach(child => visit(child, depth + 1));
+    }
+  };
+  visit(moov, 0);
+}
+
+/**
+ * Follow the moov/udta/meta/ilst path as far as it exists
+ */
+function findMetaChain(buffer: Buffer): Atom[] {
+  const chain: Atom[] = [];
+  let children = readAtoms(buffer, 0, buffer.length);
+
+  for (const type of META_PATH) {
+    const atom = children.find(child => child.type === type);
+    if (!atom) break;
+    chain.push(atom);
+    children = readAtoms(buffer, childrenStart(atom), atom.end);
+  }
+
+  if (chain.length === 0) {
+    throw new Error('no moov atom found');
+  }
+  return chain;
+}
+
+export function hasMp4Lyrics(buffer: Buffer): boolean {
+  const chain = findMetaChain(buffer);
+  if (chain.length < META_PATH.length) return false;
+  const ilst = chain[chain.length - 1];
+  return readAtoms(buffer, childrenStart(ilst), ilst.end).some(atom => atom.type === LYRICS_ATOM);
+}
+
+/**
+ * Write the lyrics into the iTunes "©lyr" atom.
+ * Other metadata atoms (including cover art) are copied unchanged.
+ */
+export function embedMp4Lyrics(buffer: Buffer, lyrics: EmbeddedLyrics): Buffer {
+  const text = lyrics.synced || lyrics.plain;
+  if (!text) return buffer;
+
+  const chain = findMetaChain(buffer);
+  const moov = chain[0];
+  const lyricsAtom = buildLyricsAtom(text);
+
+  let result: Buffer;
+  if (chain.length === META_PATH.length) {
+    const ilst = chain[chain.length - 1];
+    const existing = readAtoms(buffer, childrenStart(ilst), ilst.end).find(atom => atom.type === LYRICS_ATOM);
+    result = existing
+      ? resize(buffer, chain, existing.start, existing.end, lyricsAtom)
+      : resize(buffer, chain, ilst.end, ilst.end, lyricsAtom);
+  } else {
+    const parent = chain[chain.length - 1];
+    const content = buildMissingContainers(META_PATH.slice(chain.length), lyricsAtom);
+    result = resize(buffer, chain, parent.end, parent.end, content);
+  }
+
+  // Media data after moov moved by the size change, so its chunk offsets must follow
+  const delta = result.length - buffer.length;
+  const mediaAfterMoov = readAtoms(buffer, 0, buffer.length).some(atom => atom.type === 'mdat' && atom.start > moov.start);
+  if (delta !== 0 && mediaAfterMoov) {
+    const newMoov = readAtoms(result, 0, result.length).find(atom => atom.type === 'moov')!;
+    shiftChunkOffsets(result, newMoov, delta);
+  }
+
+  return result;
+}
@@ -0,0 +1,239 @@
+import { EmbeddedLyrics } from './lyricsText';
+import { FileSource } from '../../metadata/tags/fileSource';
+import { parseVorbisComment, serializeVorbisComment, withVorbisLyrics, hasVorbisLyrics } from './vorbisComment';
+
+const PAGE_HEADER_SIZE = 27;
+const MAX_SEGMENTS_PER_PAGE = 255;
+const FLAG_CONTINUED = 0x01;
+const GRANULE_NONE = Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const VORBIS_COMMENT_PREFIX = Buffer.from('\x03vorbis', 'latin1');
+const OPUS_COMMENT_PREFIX = Buffer.from('OpusTags', 'latin1');
+
+interface OggPage {
+  offset: number;
+  length: number;
+  serial: number;
+  sequence: number;
+  segments: number[];
+  dataOffset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(page: Buffer): number {
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ page[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function readPage(buffer: Buffer, offset: number): OggPage {
+  if (buffer.toString('latin1', offset, offset + 4) !== 'OggS') {
+    throw new Error(`invalid Ogg page at offset ${offset}`);
+  }
+  const segmentCount = buffer[offset + 26];
+  const segments = [...buffer.subarray(offset + PAGE_HEADER_SIZE, offset + PAGE_HEADER_SIZE + segmentCount)];
+  const dataOffset = offset + PAGE_HEADER_SIZE + segmentCount;
+  const dataLength = segments.reduce((sum, size) => sum + size, 0);
+
+  return {
+    offset,
+    length: dataOffset + dataLength - offset,
+    serial: buffer.readUInt32LE(offset + 14),
+    sequence: buffer.readUInt32LE(offset + 18),
+    segments,
+    dataOffset
+  };
+}
+
+/**
+ * Read the header packets of the (single) logical stream.
+ * Returns the packets and the offset of the first page after them.
+ */
+function readHeaderPackets(buffer: Buffer, packetCount: number): { packets: Buffer[]; pages: OggPage[]; end: number } {
+  const packets: Buffer[] = [];
+  const pages: OggPage[] = [];
+  let current: Buffer[] = [];
+  let offset = 0;
+
+  while (packets.length < packetCount) {
+    const page = readPage(buffer, offset);
+    if (pages.length > 0 && page.serial !== pages[0].serial) {
+      throw new Error('multiplexed Ogg streams are not supported');
+    }
+    pages.push(page);
+
+    let position = page.dataOffset;
+    for (const size of page.segments) {
+      current.push(buffer.subarray(position, position + size));
+      position += size;
+      if (size < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+      }
+    }
+    offset = page.offset + page.length;
+
+    if (packets.length > packetCount || (packets.length === packetCount && current.length > 0)) {
+      throw new Error('audio data shares a page with the Ogg headers');
+    }
+  }
+
+  return { packets, pages, end: offset };
+}
+
+/**
+ * Lay packets out over as many pages as needed
+ */
+function paginate(packets: Buffer[], serial: number, firstSequence: number): Buffer[] {
+  const pages: Buffer[] = [];
+  let segments: number[] = [];
+  let data: Buffer[] = [];
+  let continued = false;
+  let packetEnded = false;
+
+  const flush = (nextContinued: boolean) => {
+    const header = Buffer.alloc(PAGE_HEADER_SIZE);
+    header.write('OggS', 0, 'latin1');
+    header[5] = continued ? FLAG_CONTINUED : 0;
+    // Header pages carry granule 0, or "none" when no packet ends on the page
+    (packetEnded ? Buffer.alloc(8) : GRANULE_NONE).copy(header, 6);
+    header.writeUInt32LE(serial, 14);
+    header.writeUInt32LE(firstSequence + pages.length, 18);
+    header[26] = segments.length;
+
+    const page = Buffer.concat([header, Buffer.from(segments), ...data]);
+    page.writeUInt32LE(oggCrc(page), 22);
+    pages.push(page);
+
+    segments = [];
+    data = [];
+    continued = nextContinued;
+    packetEnded = false;
+  };
+
+  for (const packet of packets) {
+    let position = 0;
+    while (true) {
+      const size = Math.min(255, packet.length - position);
+      segments.push(size);
+      data.push(packet.subarray(position, position + size));
+      position += size;
+
+      const packetDone = size < 255;
+      if (packetDone) packetEnded = true;
+      if (segments.length === MAX_SEGMENTS_PER_PAGE) {
+        flush(!packetDone);
+      }
+      if (packetDone) break;
+    }
+  }
+  if (segments.length > 0) {
+    flush(false);
+  }
+
+  return pages;
+}
+
+/**
+ * Locate the comment packet and its codec-specific prefix
+ */
+function detectCodec(packets: Buffer[]): { headerCount: number; prefix: Buffer } {
+  const first = packets[0];
+  if (first.toString('latin1', 1, 7) === 'vorbis') {
+    return { headerCount: 3, prefix: VORBIS_COMMENT_PREFIX };
+  }
+  if (first.toString('latin1', 0, 8) === 'OpusHead') {
+    return { headerCount: 2, prefix: OPUS_COMMENT_PREFIX };
+  }
+  throw new Error('unsupported Ogg codec');
+}
+
+/**
+ * Read the pages holding the header packets at the start of an Ogg file, without the audio
+ */
+export async function readOggHeaderPages(source: FileSource): Promise<Buffer> {
+  let headerCount: number | undefined;
+  let packetCount = 0;
+  let offset = 0;
+
+  while (headerCount === undefined || packetCount < headerCount) {
+    const header = await source.read(offset, PAGE_HEADER_SIZE);
+    if (header.length < PAGE_HEADER_SIZE || header.toString('latin1', 0, 4) !== 'OggS') {
+      throw new Error(`invalid Ogg page at offset ${offset}`);
+    }
+    const segments = [...await source.read(offset + PAGE_HEADER_SIZE, header[26])];
+    const dataOffset = offset + PAGE_HEADER_SIZE + segments.length;
+    // The codec, and so the number of header packets, shows in the first bytes of the first packet
+    headerCount = headerCount ?? detectCodec([await source.read(dataOffset, 8)]).headerCount;
+    packetCount += segments.filter(size => size < MAX_SEGMENTS_PER_PAGE).length;
+    offset = dataOffset + segments.reduce((sum, size) => sum + size, 0);
+  }
+  return source.read(0, offset);
+}
+
+function readHeaders(buffer: Buffer) {
+  const probe = readHeaderPackets(buffer, 1);
+  const codec = detectCodec(probe.packets);
+  const headers = readHeaderPackets(buffer, codec.headerCount);
+
+  const commentPacket = headers.packets[1];
+  if (!commentPacket.subarray(0, codec.prefix.length).equals(codec.prefix)) {
+    throw new Error('missing Ogg comment header');
+  }
+  const parsed = parseVorbisComment(commentPacket, codec.prefix.length);
+  return { ...headers, codec, parsed, commentPacket };
+}
+
+export function hasOggLyrics(buffer: Buffer): boolean {
+  return hasVorbisLyrics(readHeaders(buffer).parsed.comment);
+}
+
+/**
+ * Write lyrics into the comment header of an Ogg Vorbis or Opus file.
+ * Other comments are copied unchanged; audio pages are only renumbered if the header grows by a page.
+ */
+export function embedOggLyrics(buffer: Buffer, lyrics: EmbeddedLyrics): Buffer {
+  const { packets, pages, end, codec, parsed, commentPacket } = readHeaders(buffer);
+
+  // Keep anything after the comment list (Vorbis framing bit, Opus padding) as it was
+  const newCommentPacket = Buffer.concat([
+    codec.prefix,
+    serializeVorbisComment(withVorbisLyrics(parsed.comment, lyrics)),
+    commentPacket.subarray(parsed.end)
+  ]);
+
+  // The identification header must sit alone on the first page, which is kept as-is
+  const firstPage = buffer.subarray(0, pages[0].length);
+  const serial = pages[0].serial;
+  const headerPages = paginate([newCommentPacket, ...packets.slice(2)], serial, pages[0].sequence + 1);
+  const sequenceShift = 1 + headerPages.length - pages.length;
+
+  const audioPages: Buffer[] = [];
+  let offset = end;
+  while (offset < buffer.length) {
+    const page = readPage(buffer, offset);
+    const bytes = Buffer.from(buffer.subarray(offset, offset + page.length));
+    if (sequenceShift !== 0) {
+      bytes.writeUInt32LE(page.sequence + sequenceShift, 18);
+      bytes.writeUInt32LE(0, 22);
+      bytes.writeUInt32LE(oggCrc(bytes), 22);
+    }
+    audioPages.push(bytes);
+    offset += page.length;
+  }
+
+  return Buffer.concat([firstPage, ...headerPages, ...audioPages]);
+}
@@ -0,0 +1,74 @@
+import { EmbeddedLyrics } from './lyricsText';
+
+const LYRICS_FIELDS = ['LYRICS', 'UNSYNCEDLYRICS'];
+
+/**
+ * A parsed Vorbis comment block: vendor string and raw "NAME=value" comments
+ */
+export interface VorbisComment {
+  vendor: Buffer;
+  comments: Buffer[];
+}
+
+function fieldName(comment: Buffer): string {
+  const separator = comment.indexOf(0x3d); // '='
+  return comment.toString('utf8', 0, separator === -1 ? comment.length : separator).toUpperCase();
+}
+
+/**
+ * Parse a Vorbis comment structure (without framing bit) starting at offset
+ */
+export function parseVorbisComment(data: Buffer, offset = 0): { comment: VorbisComment; end: number } {
+  const vendorLength = data.readUInt32LE(offset);
+  const vendor = data.subarray(offset + 4, offset + 4 + vendorLength);
+  let position = offset + 4 + vendorLength;
+
+  const count = data.readUInt32LE(position);
+  position += 4;
+
+  const comments: Buffer[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = data.readUInt32LE(position);
+    comments.push(data.subarray(position + 4, position + 4 + length));
+    position += 4 + length;
+  }
+
+  return { comment: { vendor, comments }, end: position };
+}
+
+export function serializeVorbisComment(comment: VorbisComment): Buffer {
+  const parts: Buffer[] = [];
+  const uint32 = (value: number): Buffer => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value, 0);
+    return buffer;
+  };
+
+  parts.push(uint32(comment.vendor.length), comment.vendor, uint32(comment.comments.length));
+  for (const entry of comment.comments) {
+    parts.push(uint32(entry.length), entry);
+  }
+  return Buffer.concat(parts);
+}
+
+export function hasVorbisLyrics(comment: VorbisComment): boolean {
+  return comment.comments.some(entry => LYRICS_FIELDS.includes(fieldName(entry)));
+}
+
+/**
+ * Replace LYRICS/UNSYNCEDLYRICS fields, keeping every other comment unchanged.
+ * LYRICS holds synced LRC text when available; UNSYNCEDLYRICS holds plain text.
+ */
+export function withVorbisLyrics(comment: VorbisComment, lyrics: EmbeddedLyrics): VorbisComment {
+  const comments = comment.comments.filter(entry => !LYRICS_FIELDS.includes(fieldName(entry)));
+
+  const lyricsText = lyrics.synced || lyrics.plain;
+  if (lyricsText) {
+    comments.push(Buffer.from(`LYRICS=${lyricsText}`, 'utf8'));
+  }
+  if (lyrics.plain) {
+    comments.push(Buffer.from(`UNSYNCEDLYRICS=${lyrics.plain}`, 'utf8'));
+  }
+
+  return { vendor: comment.vendor, comments };
+}
@@ -1,95 +1,325 @@
 import fs from 'fs';
 import path from 'path';
-import { LyricResult } from '../types';
+import { LyricResult, LyricsFormat, LyricsOutputMode, TrackMetadata } from '../types';
 import { logger } from '../utils/logger';
+import { ConfigurationError, FileWriteError, InvalidLyricsError, errnoOf } from '../utils/errorHandling';
+import { parseLrc, serializeLrc, lrcErrors, withMetadataTags } from '../lyrics/lrc';
+import { renderLyrics, formatExtensions, isLyricsFormat, LYRICS_FORMATS } from '../lyrics/formats';
+import { embedLyrics, embeddedLyricsStatus } from './embed';
+import {
+  resolvePathTemplate,
+  templateNeedsMetadata,
+  withExtensionPlaceholder,
+  DEFAULT_PATH_TEMPLATE
+} from './outputPath';
 
 /**
- * Writer for saving lyrics to files
+ * Options for the lyrics writer
+ */
+export interface LyricsWriterOptions {
+  mode: LyricsOutputMode;
+  /** Add [ar:], [ti:], [al:], [length:] and [by:] tags to synced lyrics */
+  lrcHeaders: boolean;
+  /** Sidecar formats to write */
+  formats: LyricsFormat[];
+  /** Path template for sidecar files, see resolvePathTemplate */
+  pathTemplate: string;
+  /** Path template per format, overriding pathTemplate */
+  pathTemplates: Partial<Record<LyricsFormat, string>>;
+  /** Root of a separate lyrics tree, for {lyricsRoot} */
+  lyricsRoot?: string;
+  /** Root of the music library, for {reldir} */
+  libraryRoot?: string;
+}
+
+/**
+ * Writer for saving lyrics to sidecar files and/or audio file tags
  */
 export class LyricsFileWriter {
+  private options: LyricsWriterOptions;
+
+  constructor(options: Partial<LyricsWriterOptions> = {}) {
+    this.options = {
+      mode: 'sidecar',
+      lrcHeaders: false,
+      formats: ['lrc'],
+      pathTemplate: DEFAULT_PATH_TEMPLATE,
+      pathTemplates: {},
+      ...options
+    };
+    this.validateFormats();
+  }
+
+  configure(options: Partial<LyricsWriterOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.validateFormats();
+  }
+
+  /**
+   * A summary of the settings deciding what is written where, to tell whether earlier output is still what would be written
+   */
+  outputFingerprint(): string {
+    const { mode, lrcHeaders, formats, lyricsRoot, libraryRoot } = this.options;
+    const templates = [...formats].sort().map(format => `${format}=${this.templateFor(format)}`);
+    return JSON.stringify({
+      mode,
+      lrcHeaders,
+      templates,
+      lyricsRoot: lyricsRoot && path.resolve(lyricsRoot),
+      // The library root only moves lyrics written under {reldir}
+      libraryRoot: templates.some(template => template.includes('{reldir}')) && libraryRoot ? path.resolve(libraryRoot) : undefined
+    });
+  }
+
   /**
-   * Write lyrics to file(s) based on the available content
-   * Returns the path to the created file, or undefined if no file was created
+   * Whether sidecar paths depend on the track's tags, so metadata is needed to find existing lyrics
+   */
+  needsMetadata(): boolean {
+    return this.options.formats.some(format => templateNeedsMetadata(this.templateFor(format)));
+  }
+
+  private validateFormats(): void {
+    const unknown = this.options.formats.filter(format => !isLyricsFormat(format));
+    if (unknown.length > 0) {
+      throw new ConfigurationError(`Unknown lyrics format: ${unknown.join(', ')} (available: ${LYRICS_FORMATS.join(', ')})`, { formats: unknown.join(',') });
+    }
+  }
+
+  /**
+   * Write lyrics according to the output mode, normalizing synced lyrics first.
+   * Returns the sidecar path, the audio file path when lyrics were only embedded,
+   * or undefined if nothing was written.
    */
   async writeLyrics(
     audioFilePath: string,
-    lyrics: LyricResult
+    result: LyricResult,
+    metadata?: TrackMetadata
   ): Promise<string | undefined> {
-    if (!lyrics) {
+    if (!result) {
       logger.warn('LyricsFileWriter', `No lyrics provided for: ${audioFilePath}`);
       return undefined;
     }
 
-    const baseFilePath = audioFilePath.substring(0, audioFilePath.lastIndexOf('.'));
-    
-    // If we have synchronized lyrics, save as .lrc
-    if (lyrics.syncedLyrics) {
-      const lrcFilePath = `${baseFilePath}.lrc`;
-      try {
-        await fs.promises.writeFile(lrcFilePath, lyrics.syncedLyrics, 'utf8');
-        logger.info('LyricsFileWriter', `Written synchronized lyrics to: ${path.basename(lrcFilePath)}`);
-        return lrcFilePath;
-      } catch (error) {
-        logger.error('LyricsFileWriter', `Error writing synchronized lyrics to ${lrcFilePath}: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
+    return this.writePreparedLyrics(audioFilePath, this.prepareLyrics(audioFilePath, result, metadata), metadata);
+  }
+
+  /**
+   * Write lyrics that already went through prepareLyrics according to the output mode
+   */
+  async writePreparedLyrics(
+    audioFilePath: string,
+    lyrics: LyricResult,
+    metadata?: TrackMetadata
+  ): Promise<string | undefined> {
+    const { mode } = this.options;
+    let writeSidecar = mode !== 'embed';
+    let embedded = false;
+
+    if (mode !== 'sidecar') {
+      if (await this.canEmbed(audioFilePath)) {
+        embedded = await this.embed(audioFilePath, lyrics);
+      } else {
+        logger.warn('LyricsFileWriter', `Embedding not supported for ${path.basename(audioFilePath)}, writing sidecar file instead`);
+        writeSidecar = true;
       }
     }
-    
-    // If we only have plain lyrics, save as .txt
-    if (lyrics.plainLyrics) {
-      const txtFilePath = `${baseFilePath}.txt`;
-      try {
-        await fs.promises.writeFile(txtFilePath, lyrics.plainLyrics, 'utf8');
-        logger.info('LyricsFileWriter', `Written plain lyrics to: ${path.basename(txtFilePath)}`);
-        return txtFilePath;
-      } catch (error) {
-        logger.error('LyricsFileWriter', `Error writing plain lyrics to ${txtFilePath}: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
+
+    const sidecarPath = writeSidecar ? await this.writeSidecars(audioFilePath, lyrics, metadata) : undefined;
+    return sidecarPath ?? (embedded ? audioFilePath : undefined);
+  }
+
+  /**
+   * Validate and normalize synced lyrics: lines are sorted, the offset is applied and,
+   * if configured, headers are added from the track metadata. Malformed synced lyrics
+   * are dropped in favour of plain lyrics, or rejected when there are none.
+   */
+  prepareLyrics(audioFilePath: string, lyrics: LyricResult, metadata?: TrackMetadata): LyricResult {
+    if (!lyrics.syncedLyrics) {
+      return lyrics;
+    }
+
+    let document = parseLrc(lyrics.syncedLyrics);
+    const errors = lrcErrors(document);
+    if (errors.length > 0) {
+      if (lyrics.plainLyrics) {
+        logger.warn('LyricsFileWriter', `Malformed synced lyrics for ${path.basename(audioFilePath)} (${errors.join('; ')}), using plain lyrics instead`);
+        return { ...lyrics, syncedLyrics: null };
       }
+      throw new InvalidLyricsError(audioFilePath, errors.join('; '));
+    }
+
+    if (this.options.lrcHeaders) {
+      document = withMetadataTags(document, {
+        artist: metadata?.artist || lyrics.artist,
+        title: metadata?.title || lyrics.title,
+        album: metadata?.album || lyrics.album,
+        duration: metadata?.duration
+      }, lyrics.source);
     }
-    
-    // If marked as instrumental, create an empty .lrc file with a comment
-    if (lyrics.instrumental) {
-      const lrcFilePath = `${baseFilePath}.lrc`;
+
+    return { ...lyrics, syncedLyrics: serializeLrc(document) };
+  }
+
+  /**
+   * Paths writeLyrics would write for prepared lyrics, without writing anything.
+   * The audio file path stands for lyrics embedded in its tags.
+   */
+  async outputPaths(audioFilePath: string, lyrics: LyricResult, metadata?: TrackMetadata): Promise<string[]> {
+    const { mode } = this.options;
+    const embeds = mode !== 'sidecar' && await this.canEmbed(audioFilePath);
+    const sidecars = mode !== 'embed' || !embeds
+      ? this.options.formats.flatMap(format => {
+          const rendered = renderLyrics(format, lyrics, metadata);
+          return rendered ? [this.sidecarPath(audioFilePath, format, rendered.extension, metadata)] : [];
+        })
+      : [];
+    return embeds ? [...sidecars, audioFilePath] : sidecars;
+  }
+
+  /**
+   * Whether lyrics can be embedded in the audio file: its format is supported and so are its tags
+   */
+  private async canEmbed(audioFilePath: string): Promise<boolean> {
+    return await embeddedLyricsStatus(audioFilePath) !== 'unsupported';
+  }
+
+  /**
+   * Embed lyrics into the audio file's tags
+   */
+  private async embed(audioFilePath: string, lyrics: LyricResult): Promise<boolean> {
+    try {
+      const embedded = await embedLyrics(audioFilePath, lyrics);
+      if (embedded) {
+        logger.info('LyricsFileWriter', `Embedded lyrics in: ${path.basename(audioFilePath)}`);
+      }
+      return embedded;
+    } catch (error) {
+      logger.error('LyricsFileWriter', `Error embedding lyrics in ${audioFilePath}: ${error instanceof Error ? error.message : String(error)}`);
+      throw new FileWriteError(audioFilePath, error instanceof Error ? error.message : String(error), errnoOf(error));
+    }
+  }
+
+  /**
+   * Write lyrics in every configured sidecar format.
+   * Returns the path of the first file written.
+   */
+  private async writeSidecars(audioFilePath: string, lyrics: LyricResult, metadata?: TrackMetadata): Promise<string | undefined> {
+    const written: string[] = [];
+
+    for (const format of this.options.formats) {
+      const rendered = renderLyrics(format, lyrics, metadata);
+      if (!rendered) {
+        logger.debug('LyricsFileWriter', `No ${format} output for ${path.basename(audioFilePath)}: lyrics are not synced`);
+        continue;
+      }
+
+      const outputPath = this.sidecarPath(audioFilePath, format, rendered.extension, metadata);
       try {
-        await fs.promises.writeFile(lrcFilePath, '[00:00.00]Instrumental\n', 'utf8');
-        logger.info('LyricsFileWriter', `Written instrumental marker to: ${path.basename(lrcFilePath)}`);
-        return lrcFilePath;
+        await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.promises.writeFile(outputPath, rendered.content, 'utf8');
+        logger.info('LyricsFileWriter', `Written ${format} lyrics to: ${path.basename(outputPath)}`);
+        written.push(outputPath);
       } catch (error) {
-        logger.error('LyricsFileWriter', `Error writing instrumental marker to ${lrcFilePath}: ${error instanceof Error ? error.message : String(error)}`);
-        throw error;
+        logger.error('LyricsFileWriter', `Error writing ${format} lyrics to ${outputPath}: ${error instanceof Error ? error.message : String(error)}`);
+        throw new FileWriteError(outputPath, error instanceof Error ? error.message : String(error), errnoOf(error));
       }
     }
-    
-    logger.warn('LyricsFileWriter', `No lyrics content available for: ${audioFilePath}`);
-    return undefined;
+
+    if (written.length === 0) {
+      logger.warn('LyricsFileWriter', `No lyrics content available for: ${audioFilePath}`);
+    }
+    return written[0];
+  }
+
+  private templateFor(format: LyricsFormat): string {
+    return withExtensionPlaceholder(this.options.pathTemplates[format] ?? this.options.pathTemplate, formatExtensions(format));
+  }
+
+  private sidecarPath(audioFilePath: string, format: LyricsFormat, extension: string, metadata?: TrackMetadata): string {
+    return resolvePathTemplate(this.templateFor(format), {
+      audioFilePath,
+      extension,
+      metadata,
+      lyricsRoot: this.options.lyricsRoot,
+      libraryRoot: this.options.libraryRoot
+    });
   }
 
   /**
-   * Check if lyrics file already exists for audio file
+   * Every sidecar path the configured formats can produce for an audio file.
+   * Templates that use tags resolve to nothing without metadata.
    */
-  lyricsFileExists(audioFilePath: string): boolean {
-    const baseFilePath = audioFilePath.substring(0, audioFilePath.lastIndexOf('.'));
-    const lrcFilePath = `${baseFilePath}.lrc`;
-    const txtFilePath = `${baseFilePath}.txt`;
-    
-    return fs.existsSync(lrcFilePath) || fs.existsSync(txtFilePath);
+  private sidecarPaths(audioFilePath: string, metadata?: TrackMetadata): string[] {
+    const paths = this.options.formats
+      .filter(format => metadata || !templateNeedsMetadata(this.templateFor(format)))
+      .flatMap(format =>
+        formatExtensions(format).map(extension => this.sidecarPath(audioFilePath, format, extension, metadata))
+      );
+    return [...new Set(paths)];
+  }
+
+  /**
+   * Check if lyrics already exist for an audio file in the configured output mode
+   */
+  async lyricsExist(audioFilePath: string, metadata?: TrackMetadata): Promise<boolean> {
+    const { mode } = this.options;
+    const sidecarExists = this.lyricsFileExists(audioFilePath, metadata);
+
+    if (mode === 'sidecar') {
+      return sidecarExists;
+    }
+
+    // Files lyrics can't be embedded in get a sidecar file instead
+    const status = await embeddedLyricsStatus(audioFilePath);
+    if (status === 'unsupported') {
+      return sidecarExists;
+    }
+
+    const embeddedExists = status === 'present';
+    return mode === 'embed' ? embeddedExists : embeddedExists && sidecarExists;
+  }
+
+  /**
+   * Check if a lyrics file in any of the configured formats already exists for an audio file
+   */
+  lyricsFileExists(audioFilePath: string, metadata?: TrackMetadata): boolean {
+    return this.existingLyricsFiles(audioFilePath, metadata).length > 0;
+  }
+
+  /**
+   * Existing lyrics files of an audio file in any of the configured formats
+   */
+  existingLyricsFiles(audioFilePath: string, metadata?: TrackMetadata): string[] {
+    return this.sidecarPaths(audioFilePath, metadata).filter(lyricPath => fs.existsSync(lyricPath));
   }
 
   /**
    * Delete existing lyrics files if they exist
    */
-  async deleteExistingLyrics(audioFilePath: string): Promise<void> {
-    const baseFilePath = audioFilePath.substring(0, audioFilePath.lastIndexOf('.'));
-    const lrcFilePath = `${baseFilePath}.lrc`;
-    const txtFilePath = `${baseFilePath}.txt`;
-    
-    if (fs.existsSync(lrcFilePath)) {
-      await fs.promises.unlink(lrcFilePath);
+  async deleteExistingLyrics(audioFilePath: string, metadata?: TrackMetadata): Promise<void> {
+    for (const lyricPath of this.existingLyricsFiles(audioFilePath, metadata)) {
+      await fs.promises.unlink(lyricPath);
     }
-    
-    if (fs.existsSync(txtFilePath)) {
-      await fs.promises.unlink(txtFilePath);
+  }
+
+  /**
+   * Move lyrics files along with an audio file that was moved or renamed.
+   * The track's tags are unchanged by a move, so one set of metadata resolves both paths.
+   * Returns the new paths of the moved files.
+   */
+  async moveLyrics(oldAudioFilePath: string, newAudioFilePath: string, metadata?: TrackMetadata): Promise<string[]> {
+    const newPaths = this.sidecarPaths(newAudioFilePath, metadata);
+    const moved: string[] = [];
+
+    for (const [index, oldLyricPath] of this.sidecarPaths(oldAudioFilePath, metadata).entries()) {
+      const newLyricPath = newPaths[index];
+      if (fs.existsSync(oldLyricPath) && !fs.existsSync(newLyricPath)) {
+        await fs.promises.mkdir(path.dirname(newLyricPath), { recursive: true });
+        await fs.promises.rename(oldLyricPath, newLyricPath);
+        moved.push(newLyricPath);
+      }
     }
+
+    return moved;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,129 @@
+import path from 'path';
+import { TrackMetadata } from '../types';
+import { ConfigurationError } from '../utils/errorHandling';
+
+// Lyrics files go next to the audio file, named after it, unless configured otherwise
+export const DEFAULT_PATH_TEMPLATE = '{dir}/{basename}.{ext}';
+
+// Placeholders that need the track's tags to resolve
+const METADATA_PLACEHOLDERS = ['artist', 'albumartist', 'album', 'title', 'track', 'disc', 'year', 'genre'];
+
+// Used for text placeholders whose tag is missing or sanitizes to nothing
+const UNKNOWN_VALUE = 'Unknown';
+
+const PLACEHOLDER = /\{(\w+)(?::(\d+))?\}/g;
+
+/**
+ * Everything a path template can refer to
+ */
+export interface PathTemplateContext {
+  audioFilePath: string;
+  extension: string;
+  metadata?: TrackMetadata;
+  /** Root of a separate lyrics tree, for {lyricsRoot} */
+  lyricsRoot?: string;
+  /** Root of the music library, for {reldir} */
+  libraryRoot?: string;
+}
+
+/**
+ * Make a tag value safe to use as a file or folder name
+ */
+export function sanitizePathSegment(value: string): string {
+  return value
+    .replace(/[/\\:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[. ]+$/, '');
+}
+
+/**
+ * Whether a template refers to the track's tags
+ */
+export function templateNeedsMetadata(template: string): boolean {
+  const pattern = new RegExp(PLACEHOLDER.source, 'g');
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(template)) !== null) {
+    if (METADATA_PLACEHOLDERS.includes(found[1].toLowerCase())) return true;
+  }
+  return false;
+}
+
+/**
+ * Give a template an {ext} placeholder, so one template works for every extension of a format.
+ * A literal extension of the format, such as ".lrc", is replaced by it.
+ */
+export function withExtensionPlaceholder(template: string, extensions: string[]): string {
+  if (template.includes('{ext}')) {
+    return template;
+  }
+  const literal = extensions.find(extension => template.toLowerCase().endsWith(`.${extension}`));
+  return literal ? `${template.slice(0, -(literal.length + 1))}.{ext}` : `${template}.{ext}`;
+}
+
+/**
+ * Resolve a path template for an audio file.
+ * Path placeholders ({lyricsRoot}, {dir}, {reldir}) are used as-is, tag placeholders are
+ * sanitized, and numbers can be zero-padded with {track:02} or {disc:02}. Relative results are
+ * resolved against the audio file's folder.
+ */
+export function resolvePathTemplate(template: string, context: PathTemplateContext): string {
+  const { metadata } = context;
+  // {dir} must be absolute, or a relative result would have the folder prepended twice
+  const audioFilePath = path.resolve(context.audioFilePath);
+  const dir = path.dirname(audioFilePath);
+
+  const text = (value: string | undefined) => sanitizePathSegment(value ?? '') || UNKNOWN_VALUE;
+  const number = (value: number | undefined, width?: string) => {
+    if (!value) return '';
+    return width ? String(value).padStart(parseInt(width, 10), '0') : String(value);
+  };
+
+  const resolvePlaceholder = (name: string, width?: string): string => {
+    switch (name.toLowerCase()) {
+      case 'lyricsroot':
+        if (!context.lyricsRoot) {
+          throw new ConfigurationError('The {lyricsRoot} placeholder needs a lyrics root (--lyrics-root)', { template });
+        }
+        return context.lyricsRoot;
+      case 'dir':
+        return dir;
+      case 'reldir':
+        return context.libraryRoot ? path.relative(context.libraryRoot, dir) : path.basename(dir);
+      case 'basename':
+        return path.basename(audioFilePath, path.extname(audioFilePath));
+      case 'ext':
+        return context.extension;
+      case 'artist':
+        return text(metadata?.artist);
+      case 'albumartist':
+        return text(metadata?.albumArtist || metadata?.artist);
+      case 'album':
+        return text(metadata?.album);
+      case 'title':
+        return text(metadata?.title);
+      case 'genre':
+        return text(metadata?.genre);
+      case 'track':
+        return number(metadata?.trackNumber, width);
+      case 'disc':
+        return number(metadata?.discNumber, width);
+      case 'year':
+        return number(metadata?.year, width);
+      default:
+        throw new ConfigurationError(`Unknown placeholder {${name}} in path template "${template}"`, { template, placeholder: name });
+    }
+  };
+
+  // Fill in tag values first and tidy the segments they affect, e.g. "{track:02} {title}"
+  // without a track number; path values are then inserted verbatim
+  const withTags = template
+    .replace(PLACEHOLDER, (placeholder, name: string, width?: string) =>
+      METADATA_PLACEHOLDERS.includes(name.toLowerCase()) ? resolvePlaceholder(name, width) : placeholder)
+    .split('/')
+    .map(segment => segment.replace(/\s+/g, ' ').trim())
+    .join('/');
+  const joined = withTags.replace(PLACEHOLDER, (_, name: string, width?: string) => resolvePlaceholder(name, width));
+
+  return path.resolve(dir, joined);
+}
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import { FilePlan, LyricResult, LyricsType, PlanAction, ProcessResult, TrackMetadata } from '../types';
+import { logger } from '../utils/logger';
+import { EXCLUDED_BY_OVERRIDE_REASON, QUEUED_FOR_REVIEW_REASON } from '../orchestrator/reasons';
+import { hasEmbeddedLyrics } from './embed';
+import { LyricsFileWriter } from './fileWriter';
+
+/**
+ * The changes processing a file makes to lyrics on disk. LyricsFileWriter carries them out;
+ * WriteIntentRecorder only records them for a dry run.
+ */
+export interface LyricsWriteIntents {
+  deleteExistingLyrics(audioFilePath: string, metadata?: TrackMetadata): Promise<void>;
+  /** Write lyrics already prepared by LyricsFileWriter.prepareLyrics */
+  writePreparedLyrics(audioFilePath: string, lyrics: LyricResult, metadata?: TrackMetadata): Promise<string | undefined>;
+}
+
+/**
+ * Writes recorded for one audio file
+ */
+interface RecordedWrite {
+  written: boolean;
+  paths: string[];
+  replaces: string[];
+}
+
+const ACTION_FOR_TYPE: Record<LyricsType, PlanAction> = {
+  synced: 'write-synced',
+  plain: 'write-plain',
+  instrumental: 'mark-instrumental'
+};
+
+/**
+ * Records lyrics writes instead of making them, resolving the paths that would be written
+ */
+export class WriteIntentRecorder implements LyricsWriteIntents {
+  private readonly writes = new Map<string, RecordedWrite>();
+
+  constructor(private readonly writer: LyricsFileWriter) {}
+
+  async deleteExistingLyrics(audioFilePath: string, metadata?: TrackMetadata): Promise<void> {
+    const existing = this.writer.existingLyricsFiles(audioFilePath, metadata);
+    this.recordFor(audioFilePath).replaces.push(...existing);
+    existing.forEach(lyricPath => logger.debug('WriteIntentRecorder', `Would delete: ${lyricPath}`));
+  }
+
+  async writePreparedLyrics(audioFilePath: string, lyrics: LyricResult, metadata?: TrackMetadata): Promise<string | undefined> {
+    const record = this.recordFor(audioFilePath);
+    const paths = await this.writer.outputPaths(audioFilePath, lyrics, metadata);
+
+    // Files written over in place are replaced too, not only those deleted first
+    for (const outputPath of paths) {
+      const exists = outputPath === audioFilePath
+        ? await hasEmbeddedLyrics(audioFilePath)
+        : fs.existsSync(outputPath);
+      if (exists && !record.replaces.includes(outputPath)) {
+        record.replaces.push(outputPath);
+      }
+    }
+
+    record.written = true;
+    record.paths = paths;
+    paths.forEach(outputPath => logger.debug('WriteIntentRecorder', `Would write: ${outputPath}`));
+    return paths[0];
+  }
+
+  /**
+   * The plan for a processed file, from its result and the writes recorded for it
+   */
+  planFor(result: ProcessResult): FilePlan {
+    if (result.skipped) {
+      return result.reason === EXCLUDED_BY_OVERRIDE_REASON
+        ? { action: 'excluded', paths: [], replaces: [], reason: result.reason }
+        : { action: 'skip-existing', paths: [], replaces: [] };
+    }
+
+    const record = this.writes.get(result.filePath);
+    if (record?.written) {
+      const { paths, replaces } = record;
+      const candidate = result.match;
+
+      if (paths.length === 0) {
+        return { action: 'no-match', paths, replaces, candidate, reason: 'nothing to write in the configured formats' };
+      }
+      return {
+        action: replaces.length > 0 ? 'overwrite' : ACTION_FOR_TYPE[result.lyricsType ?? 'plain'],
+        lyricsType: result.lyricsType,
+        paths,
+        replaces,
+        candidate
+      };
+    }
+
+    // Files that failed before anything was written only record why
+    if (result.reason === QUEUED_FOR_REVIEW_REASON) {
+      return { action: 'queue-review', paths: [], replaces: [], candidate: result.match, reason: result.reason };
+    }
+    return result.reason
+      ? { action: 'no-match', paths: [], replaces: [], reason: result.reason }
+      : { action: 'error', paths: [], replaces: [], reason: result.error?.message };
+  }
+
+  private recordFor(audioFilePath: string): RecordedWrite {
+    let record = this.writes.get(audioFilePath);
+    if (!record) {
+      record = { written: false, paths: [], replaces: [] };
+      this.writes.set(audioFilePath, record);
+    }
+    return record;
+  }
+}
+
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AUDIO_EXTENSIONS,
+  AUDIO_FORMATS,
+  audioFormatForExtension,
+  selectExtensions,
+  sniffAudioFormat,
+  validateExtensions
+} from '../../src/metadata/audioFormats';
+import { isAudioFile, scanDirectory } from '../../src/scanner/fileScanner';
+import { ConfigurationError } from '../../src/utils/errorHandling';
+import { flacFile, id3Tag, mpegFrames, oggOpusFile, oggVorbisFile, wavFile } from './fixtures/audio';
+
+describe('audio format registry', () => {
+  it('maps each extension to one format, ignoring case and the dot', () => {
+    expect(new Set(AUDIO_EXTENSIONS).size).toBe(AUDIO_EXTENSIONS.length);
+    expect(audioFormatForExtension('.FLAC')).toBe(AUDIO_FORMATS.find(format => format.name === 'flac'));
+    expect(audioFormatForExtension('oga')).toMatchObject({ name: 'ogg', container: 'ogg', tags: 'native' });
+    expect(audioFormatForExtension('aif')).toMatchObject({ name: 'aiff', tags: 'ffprobe' });
+    expect(audioFormatForExtension('lrc')).toBeUndefined();
+    expect(audioFormatForExtension('')).toBeUndefined();
+  });
+
+  it('selects the included extensions without the excluded ones', () => {
+    expect(selectExtensions()).toEqual(AUDIO_EXTENSIONS);
+    expect(selectExtensions(['.MP3', 'flac'])).toEqual(['mp3', 'flac']);
+    expect(selectExtensions([], ['wav', '.M4A'])).toEqual(AUDIO_EXTENSIONS.filter(extension => extension !== 'wav' && extension !== 'm4a'));
+    expect(selectExtensions(['mp3', 'flac'], ['flac'])).toEqual(['mp3']);
+  });
+
+  it('rejects extensions no format uses', () => {
+    expect(() => validateExtensions(['mp3', '.Opus'])).not.toThrow();
+    expect(() => validateExtensions(['mp3', 'doc', 'exe'])).toThrow(ConfigurationError);
+    expect(() => validateExtensions(['doc'])).toThrow('Unsupported audio extension: doc');
+  });
+
+  it('filters audio paths by the included and excluded extensions', () => {
+    expect(isAudioFile('/music/song.MP3')).toBe(true);
+    expect(isAudioFile('/music/song.lrc')).toBe(false);
+    expect(isAudioFile('/music/song.mp3', { extensions: ['flac'] })).toBe(false);
+    expect(isAudioFile('/music/song.flac', { extensions: ['flac'] })).toBe(true);
+    expect(isAudioFile('/music/song.flac', { excludeExtensions: ['flac'] })).toBe(false);
+  });
+});
+
+describe('sniffAudioFormat', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-formats-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: Buffer): string {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  async function sniff(name: string, content: Buffer): Promise<string | undefined> {
+    return (await sniffAudioFormat(write(name, content)))?.name;
+  }
+
+  it('recognizes formats by content whatever the extension', async () => {
+    expect(await sniff('song.mp3', flacFile())).toBe('flac');
+    expect(await sniff('song', mpegFrames(4))).toBe('mp3');
+    expect(await sniff('song.dat', wavFile({ dataSize: 16 }))).toBe('wav');
+    expect(await sniff('song.flac', Buffer.from([0xff, 0xf1, 0x50, 0x80, 0, 0, 0, 0]))).toBe('aac');
+    expect(await sniff('notes.mp3', Buffer.from('not audio at all'))).toBeUndefined();
+  });
+
+  it('looks past an ID3v2 tag, and takes an unknown stream behind one as MP3', async () => {
+    expect(await sniff('song.mp3', Buffer.concat([id3Tag({ TIT2: 'Song' }), flacFile()]))).toBe('flac');
+    expect(await sniff('song.bin', Buffer.concat([id3Tag({ TIT2: 'Song' }), Buffer.alloc(64)]))).toBe('mp3');
+  });
+
+  it('keeps the format the extension names when the container agrees', async () => {
+    expect(await sniff('song.opus', oggVorbisFile())).toBe('opus');
+    expect(await sniff('song.ogg', oggOpusFile())).toBe('ogg');
+    expect(await sniff('song.bin', oggOpusFile())).toBe('ogg');
+  });
+
+  it('lets a scan pick up audio with the wrong extension, within the selected extensions', async () => {
+    const misnamed = write('song.dat', flacFile());
+    write('cover.jpg', flacFile());
+    write('notes.bin', Buffer.from('not audio at all'));
+    const options = { recursive: true, skipExisting: false, extensions: [] };
+
+    expect(await scanDirectory(dir, options)).toEqual([misnamed]);
+    expect(await scanDirectory(dir, { ...options, extensions: ['flac'] })).toEqual([misnamed]);
+    expect(await scanDirectory(dir, { ...options, excludeExtensions: ['flac'] })).toEqual([]);
+  });
+});
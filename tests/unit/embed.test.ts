@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { embedLyrics, embeddedLyricsStatus } from '../../src/writer/embed';
+import { LyricsFileWriter } from '../../src/writer/fileWriter';
+import { FileSource } from '../../src/metadata/tags/fileSource';
+import { readNativeTags } from '../../src/metadata/tags';
+import { LyricResult } from '../../src/types';
+import { flacFile, id3Tag, mp4File, mp4TextItem, mpegFrames, oggOpusFile, oggVorbisFile } from './fixtures/audio';
+
+function lyrics(plainLyrics: string): LyricResult {
+  return { artist: 'Artist', title: 'Song', syncedLyrics: null, plainLyrics, source: 'lrclib', instrumental: false };
+}
+
+function occurrences(buffer: Buffer, text: string): number {
+  return buffer.toString('utf8').split(text).length - 1;
+}
+
+const FILES: Array<[string, () => Buffer, Buffer]> = [
+  ['song.mp3', () => Buffer.concat([id3Tag({ TIT2: 'Song' }), mpegFrames(20)]), mpegFrames(20)],
+  ['song.flac', () => flacFile({ comments: { TITLE: 'Song' }, audio: Buffer.alloc(4096, 0xaa) }), Buffer.alloc(4096, 0xaa)],
+  ['song.ogg', () => oggVorbisFile({ comments: { TITLE: 'Song' } }), Buffer.alloc(3000, 0xaa)],
+  ['song.opus', () => oggOpusFile({ comments: { TITLE: 'Song' } }), Buffer.alloc(3000, 0xaa)],
+  ['song.m4a', () => mp4File({ items: [mp4TextItem('©nam', 'Song')] }), Buffer.alloc(2048, 0xaa)]
+];
+
+describe('embedded lyrics', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-embed-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe.each(FILES)('%s', (name, build, audio) => {
+    it('embeds, detects and replaces lyrics, keeping the other tags and the audio', async () => {
+      const file = path.join(dir, name);
+      fs.writeFileSync(file, build());
+      expect(await embeddedLyricsStatus(file)).toBe('missing');
+
+      expect(await embedLyrics(file, lyrics('First words'))).toBe(true);
+      expect(await embeddedLyricsStatus(file)).toBe('present');
+      const embedded = fs.readFileSync(file);
+      const count = occurrences(embedded, 'First words');
+      expect(count).toBeGreaterThan(0);
+
+      await embedLyrics(file, lyrics('Second words'));
+      const replaced = fs.readFileSync(file);
+      expect(occurrences(replaced, 'First words')).toBe(0);
+      expect(occurrences(replaced, 'Second words')).toBe(count);
+      expect(replaced.includes(audio)).toBe(true);
+      expect((await readNativeTags(file))?.tags.title).toBe('Song');
+    });
+
+    it('reads only the tags to detect lyrics', async () => {
+      const file = path.join(dir, name);
+      fs.writeFileSync(file, build());
+      const read = jest.spyOn(FileSource.prototype, 'read');
+
+      await embeddedLyricsStatus(file);
+      const bytesRead = read.mock.calls.reduce((sum, [, length]) => sum + length, 0);
+      expect(bytesRead).toBeLessThan(audio.length / 2);
+    });
+  });
+
+  it('keeps chunk offsets pointing at media data stored after moov', async () => {
+    const file = path.join(dir, 'song.m4a');
+    fs.writeFileSync(file, mp4File({ items: [] }));
+    await embedLyrics(file, lyrics('Some words'));
+
+    const embedded = fs.readFileSync(file);
+    const stco = embedded.indexOf('stco');
+    const chunkOffset = embedded.readUInt32BE(stco + 12);
+    expect(embedded.subarray(chunkOffset, chunkOffset + 2048)).toEqual(Buffer.alloc(2048, 0xaa));
+  });
+
+  it('adds an ID3 tag to an MP3 file without one', async () => {
+    const file = path.join(dir, 'song.mp3');
+    fs.writeFileSync(file, mpegFrames(20));
+    expect(await embeddedLyricsStatus(file)).toBe('missing');
+
+    await embedLyrics(file, lyrics('Some words'));
+    expect(await embeddedLyricsStatus(file)).toBe('present');
+    expect((await readNativeTags(file))?.format).toBe('mp3');
+  });
+
+  it.each([
+    ['an extended header', id3Tag({ TIT2: 'Song' }, { flags: 0x40 })],
+    ['unsynchronisation', id3Tag({ TIT2: 'Song' }, { flags: 0x80 })],
+    ['ID3v2.2', Buffer.from([0x49, 0x44, 0x33, 2, 0, 0, 0, 0, 0, 0])]
+  ])('reports tags with %s as unsupported and writes a sidecar file once', async (_, tag) => {
+    const file = path.join(dir, 'song.mp3');
+    const original = Buffer.concat([tag, mpegFrames(20)]);
+    fs.writeFileSync(file, original);
+    expect(await embeddedLyricsStatus(file)).toBe('unsupported');
+
+    const writer = new LyricsFileWriter({ mode: 'embed', formats: ['lrc'] });
+    expect(await writer.lyricsExist(file)).toBe(false);
+    expect(await writer.outputPaths(file, lyrics('Some words'))).toEqual([path.join(dir, 'song.txt')]);
+
+    expect(await writer.writeLyrics(file, lyrics('Some words'))).toBe(path.join(dir, 'song.txt'));
+    expect(fs.readFileSync(file)).toEqual(original);
+    expect(await writer.lyricsExist(file)).toBe(true);
+  });
+
+  it('reports formats without an embedder as unsupported', async () => {
+    const file = path.join(dir, 'song.wav');
+    fs.writeFileSync(file, 'RIFF');
+    expect(await embeddedLyricsStatus(file)).toBe('unsupported');
+  });
+});
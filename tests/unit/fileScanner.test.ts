@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isScannedFile, scanDirectory, validateScanOptions } from '../../src/scanner/fileScanner';
+import { ConfigurationError, ScanError } from '../../src/utils/errorHandling';
+import { ScanOptions } from '../../src/types';
+
+describe('scanDirectory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-scan-')));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content = 'audio'): string {
+    const filePath = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  async function scan(options: Partial<ScanOptions> = {}, from = dir): Promise<string[]> {
+    const files = await scanDirectory(from, { recursive: true, skipExisting: false, extensions: [], ...options }, dir);
+    return files.map(file => path.relative(dir, file).split(path.sep).join('/')).sort();
+  }
+
+  it('finds audio files at every depth and leaves other files out', async () => {
+    write('a.mp3');
+    write('Artist/Album/01.flac');
+    write('Artist/Album/01.lrc');
+    write('Artist/Album/cover.jpg');
+    expect(await scan()).toEqual(['Artist/Album/01.flac', 'a.mp3']);
+  });
+
+  it('keeps files matching an include glob and drops those matching an exclude glob', async () => {
+    write('Rock/a.mp3');
+    write('Rock/Live/b.mp3');
+    write('Jazz/c.mp3');
+    write('Audiobooks/Book/d.mp3');
+
+    expect(await scan({ include: ['Rock/**'] })).toEqual(['Rock/Live/b.mp3', 'Rock/a.mp3']);
+    expect(await scan({ exclude: ['**/Live/**', '**/Audiobooks/**'] })).toEqual(['Jazz/c.mp3', 'Rock/a.mp3']);
+    expect(await scan({ include: ['**/*.mp3'], exclude: ['Jazz/*'] })).toEqual(['Audiobooks/Book/d.mp3', 'Rock/Live/b.mp3', 'Rock/a.mp3']);
+  });
+
+  it('stops at the maximum depth', async () => {
+    write('a.mp3');
+    write('One/b.mp3');
+    write('One/Two/c.mp3');
+
+    expect(await scan({ maxDepth: 0 })).toEqual(['a.mp3']);
+    expect(await scan({ maxDepth: 1 })).toEqual(['One/b.mp3', 'a.mp3']);
+    expect(await scan({ recursive: false, maxDepth: 5 })).toEqual(['a.mp3']);
+    // The depth counts from the root, not from the folder scanned
+    expect(await scan({ maxDepth: 1 }, path.join(dir, 'One'))).toEqual(['One/b.mp3']);
+    expect(await scan({ maxDepth: 0 }, path.join(dir, 'One'))).toEqual([]);
+  });
+
+  it('applies .lrclibignore files in nested folders, with negation', async () => {
+    write('.lrclibignore', '*.flac\nLive/\n');
+    write('a.flac');
+    write('a.mp3');
+    write('Live/b.mp3');
+    write('Album/.lrclibignore', '!keep.flac\n');
+    write('Album/keep.flac');
+    write('Album/drop.flac');
+    write('Album/Live/c.mp3');
+
+    expect(await scan()).toEqual(['Album/keep.flac', 'a.mp3']);
+    expect(await scan({ ignoreFiles: false })).toEqual([
+      'Album/Live/c.mp3', 'Album/drop.flac', 'Album/keep.flac', 'Live/b.mp3', 'a.flac', 'a.mp3'
+    ]);
+    // Ignore files above the scanned folder still apply
+    expect(await scan({}, path.join(dir, 'Album'))).toEqual(['Album/keep.flac']);
+    expect(await scan({}, path.join(dir, 'Live'))).toEqual([]);
+  });
+
+  it('skips symlinks unless asked to follow them, and follows each folder once', async () => {
+    write('Music/a.mp3');
+    fs.symlinkSync(path.join(dir, 'Music'), path.join(dir, 'Linked'));
+    // A link back to the root would loop forever
+    fs.symlinkSync(dir, path.join(dir, 'Music', 'loop'));
+    fs.symlinkSync(path.join(dir, 'missing'), path.join(dir, 'broken.mp3'));
+
+    expect(await scan()).toEqual(['Music/a.mp3']);
+
+    // Failures to follow the broken link are logged
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const followed = await scan({ followSymlinks: true });
+    expect(followed).toHaveLength(1);
+    expect(['Linked/a.mp3', 'Music/a.mp3']).toContain(followed[0]);
+  });
+
+  it('fails for a folder that cannot be read', async () => {
+    await expect(scanDirectory(path.join(dir, 'missing'), { recursive: true, skipExisting: false, extensions: [] })).rejects.toThrow(ScanError);
+  });
+});
+
+describe('isScannedFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-scan-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('agrees with a scan about globs, ignore files, depth and extensions', async () => {
+    const options: ScanOptions = { recursive: true, skipExisting: false, extensions: ['mp3'], exclude: ['Skip/**'], maxDepth: 1 };
+    fs.mkdirSync(path.join(dir, 'Ignored'));
+    fs.writeFileSync(path.join(dir, '.lrclibignore'), 'Ignored/\n');
+
+    expect(await isScannedFile(dir, path.join(dir, 'Album/a.mp3'), options)).toBe(true);
+    expect(await isScannedFile(dir, path.join(dir, 'Album/a.flac'), options)).toBe(false);
+    expect(await isScannedFile(dir, path.join(dir, 'Skip/a.mp3'), options)).toBe(false);
+    expect(await isScannedFile(dir, path.join(dir, 'Ignored/a.mp3'), options)).toBe(false);
+    expect(await isScannedFile(dir, path.join(dir, 'Album/Disc 1/a.mp3'), options)).toBe(false);
+    expect(await isScannedFile(dir, path.join(os.tmpdir(), 'a.mp3'), options)).toBe(false);
+  });
+});
+
+describe('validateScanOptions', () => {
+  it('rejects unknown extensions, empty globs and invalid depths', () => {
+    expect(() => validateScanOptions({ extensions: ['mp3'], include: ['**/*.mp3'], maxDepth: 0 })).not.toThrow();
+    expect(() => validateScanOptions({ extensions: ['doc'] })).toThrow(ConfigurationError);
+    expect(() => validateScanOptions({ exclude: [' '] })).toThrow(ConfigurationError);
+    expect(() => validateScanOptions({ maxDepth: -1 })).toThrow(ConfigurationError);
+    expect(() => validateScanOptions({ maxDepth: 1.5 })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LyricsFileWriter } from '../../src/writer/fileWriter';
+import { WriteIntentRecorder } from '../../src/writer/writeIntents';
+import { InvalidLyricsError } from '../../src/utils/errorHandling';
+import { LyricResult, TrackMetadata } from '../../src/types';
+
+const lyrics: LyricResult = {
+  artist: 'Artist',
+  title: 'Song',
+  syncedLyrics: '[00:02.00]Two\n[00:01.00]One',
+  plainLyrics: 'One\nTwo',
+  source: 'lrclib',
+  instrumental: false
+};
+
+describe('LyricsFileWriter', () => {
+  let dir: string;
+  let audioFile: string;
+  let metadata: TrackMetadata;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-writer-'));
+    audioFile = path.join(dir, 'song.flac');
+    metadata = { artist: 'Artist', title: 'Song', album: 'Album', duration: 200, filepath: audioFile };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sorts synced lines and adds headers once', async () => {
+    const writer = new LyricsFileWriter({ lrcHeaders: true });
+    const prepare = jest.spyOn(writer, 'prepareLyrics');
+
+    expect(await writer.writeLyrics(audioFile, lyrics, metadata)).toBe(path.join(dir, 'song.lrc'));
+    expect(prepare).toHaveBeenCalledTimes(1);
+    const written = fs.readFileSync(path.join(dir, 'song.lrc'), 'utf8');
+    expect(written.match(/\[ar:/g)).toHaveLength(1);
+    expect(written.indexOf('One')).toBeLessThan(written.indexOf('Two'));
+  });
+
+  it('falls back to plain lyrics when synced ones are malformed', () => {
+    const writer = new LyricsFileWriter();
+    const malformed = { ...lyrics, syncedLyrics: '[99:99.99' };
+    expect(writer.prepareLyrics(audioFile, malformed).syncedLyrics).toBeNull();
+    expect(() => writer.prepareLyrics(audioFile, { ...malformed, plainLyrics: null })).toThrow(InvalidLyricsError);
+  });
+
+  it('fingerprints the settings deciding what is written where', () => {
+    const fingerprint = (options: ConstructorParameters<typeof LyricsFileWriter>[0]) => new LyricsFileWriter(options).outputFingerprint();
+    const base = fingerprint({ formats: ['lrc', 'srt'], libraryRoot: dir });
+
+    expect(fingerprint({ formats: ['srt', 'lrc'], libraryRoot: path.join(dir, 'other') })).toBe(base);
+    expect(fingerprint({ formats: ['lrc'], libraryRoot: dir })).not.toBe(base);
+    expect(fingerprint({ formats: ['lrc', 'srt'], mode: 'embed' })).not.toBe(base);
+    expect(fingerprint({ formats: ['lrc', 'srt'], pathTemplates: { srt: '{dir}/{basename}.en.{ext}' } })).not.toBe(base);
+    expect(fingerprint({ formats: ['lrc', 'srt'], lyricsRoot: dir })).not.toBe(base);
+    const mirrored = { formats: ['lrc' as const], pathTemplate: '{lyricsRoot}/{reldir}/{basename}.{ext}', lyricsRoot: dir };
+    expect(fingerprint({ ...mirrored, libraryRoot: '/music' })).not.toBe(fingerprint({ ...mirrored, libraryRoot: '/music/Artist' }));
+  });
+
+  it('records prepared lyrics in a dry run without preparing them again', async () => {
+    const writer = new LyricsFileWriter({ lrcHeaders: true });
+    const recorder = new WriteIntentRecorder(writer);
+    const prepared = writer.prepareLyrics(audioFile, lyrics, metadata);
+    const prepare = jest.spyOn(writer, 'prepareLyrics');
+
+    expect(await recorder.writePreparedLyrics(audioFile, prepared, metadata)).toBe(path.join(dir, 'song.lrc'));
+    expect(prepare).not.toHaveBeenCalled();
+    expect(fs.existsSync(path.join(dir, 'song.lrc'))).toBe(false);
+  });
+});
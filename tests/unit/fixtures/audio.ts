@@ -0,0 +1,312 @@
+/**
+ * Generators for small but well-formed audio files, for the tag readers and embedders
+ */
+
+function syncsafe(value: number): Buffer {
+  return Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+}
+
+/**
+ * An ID3v2.3 or v2.4 tag of UTF-8/Latin-1 text frames, e.g. { TIT2: 'Song' }
+ */
+export function id3Tag(frames: Record<string, string>, options: { version?: number; flags?: number } = {}): Buffer {
+  const version = options.version ?? 4;
+  const body = Buffer.concat(Object.entries(frames).map(([id, text]) => {
+    const data = Buffer.concat([Buffer.from([version === 4 ? 3 : 0]), Buffer.from(text, version === 4 ? 'utf8' : 'latin1')]);
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'latin1');
+    if (version === 4) {
+      syncsafe(data.length).copy(header, 4);
+    } else {
+      header.writeUInt32BE(data.length, 4);
+    }
+    return Buffer.concat([header, data]);
+  }));
+  return Buffer.concat([Buffer.from([0x49, 0x44, 0x33, version, 0, options.flags ?? 0]), syncsafe(body.length), body]);
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, no padding: 417 bytes of 1152 samples each
+const MPEG_FRAME_HEADER = Buffer.from([0xff, 0xfb, 0x90, 0x00]);
+export const MPEG_FRAME_SIZE = 417;
+
+/**
+ * Constant bitrate MPEG audio frames of silence
+ */
+export function mpegFrames(count: number): Buffer {
+  const frame = Buffer.alloc(MPEG_FRAME_SIZE);
+  MPEG_FRAME_HEADER.copy(frame);
+  return Buffer.concat(Array.from({ length: count }, () => frame));
+}
+
+/**
+ * A Vorbis comment list, as used by FLAC and Ogg
+ */
+export function vorbisComment(comments: Record<string, string>): Buffer {
+  const vendor = Buffer.from('fixture', 'utf8');
+  const entries = Object.entries(comments).map(([name, value]) => Buffer.from(`${name}=${value}`, 'utf8'));
+  const parts = [uint32le(vendor.length), vendor, uint32le(entries.length)];
+  entries.forEach(entry => parts.push(uint32le(entry.length), entry));
+  return Buffer.concat(parts);
+}
+
+function uint32le(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+/**
+ * A FLAC stream with STREAMINFO, an optional comment block and some audio bytes
+ */
+export function flacFile(options: { comments?: Record<string, string>; sampleRate?: number; totalSamples?: number; audio?: Buffer } = {}): Buffer {
+  const streamInfo = Buffer.alloc(34);
+  const sampleRate = options.sampleRate ?? 44100;
+  const totalSamples = options.totalSamples ?? 0;
+  // 20 bits of sample rate, 3 of channels - 1, 5 of bits per sample - 1, then 36 of total samples
+  streamInfo[10] = sampleRate >> 12;
+  streamInfo[11] = (sampleRate >> 4) & 0xff;
+  streamInfo[12] = ((sampleRate & 0x0f) << 4) | (1 << 1);
+  streamInfo[13] = (15 << 4) | Math.floor(totalSamples / 2 ** 32);
+  streamInfo.writeUInt32BE(totalSamples % 2 ** 32, 14);
+
+  const blocks: Array<[number, Buffer]> = [[0, streamInfo]];
+  if (options.comments) {
+    blocks.push([4, vorbisComment(options.comments)]);
+  }
+  const parts: Buffer[] = [Buffer.from('fLaC', 'latin1')];
+  blocks.forEach(([type, data], index) => {
+    const header = Buffer.alloc(4);
+    header[0] = type | (index === blocks.length - 1 ? 0x80 : 0);
+    header.writeUIntBE(data.length, 1, 3);
+    parts.push(header, data);
+  });
+  return Buffer.concat([...parts, options.audio ?? Buffer.alloc(4096, 0xaa)]);
+}
+
+/**
+ * One Ogg page holding whole packets; the checksum is left at zero, which the readers don't check
+ */
+export function oggPage(packets: Buffer[], options: { sequence: number; granule?: number; first?: boolean; serial?: number }): Buffer {
+  const segments: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      segments.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const header = Buffer.alloc(27);
+  header.write('OggS', 0, 'latin1');
+  header[5] = options.first ? 0x02 : 0;
+  header.writeBigInt64LE(BigInt(options.granule ?? 0), 6);
+  header.writeUInt32LE(options.serial ?? 1, 14);
+  header.writeUInt32LE(options.sequence, 18);
+  header[26] = segments.length;
+  return Buffer.concat([header, Buffer.from(segments), ...packets]);
+}
+
+/**
+ * An Ogg Vorbis file: identification, comment and setup headers, then one audio page
+ */
+export function oggVorbisFile(options: { comments?: Record<string, string>; sampleRate?: number; granule?: number } = {}): Buffer {
+  const identification = Buffer.alloc(30);
+  identification.write('\x01vorbis', 0, 'latin1');
+  identification[11] = 2;
+  identification.writeUInt32LE(options.sampleRate ?? 44100, 12);
+  identification[29] = 1;
+  const comment = Buffer.concat([Buffer.from('\x03vorbis', 'latin1'), vorbisComment(options.comments ?? {}), Buffer.from([1])]);
+  const setup = Buffer.from('\x05vorbis setup', 'latin1');
+
+  return Buffer.concat([
+    oggPage([identification], { sequence: 0, first: true }),
+    oggPage([comment, setup], { sequence: 1 }),
+    oggPage([Buffer.alloc(3000, 0xaa)], { sequence: 2, granule: options.granule ?? 441000 })
+  ]);
+}
+
+/**
+ * An Ogg Opus file: identification and comment headers, then one audio page
+ */
+export function oggOpusFile(options: { comments?: Record<string, string>; preSkip?: number; granule?: number } = {}): Buffer {
+  const identification = Buffer.alloc(19);
+  identification.write('OpusHead', 0, 'latin1');
+  identification[8] = 1;
+  identification[9] = 2;
+  identification.writeUInt16LE(options.preSkip ?? 312, 10);
+  identification.writeUInt32LE(48000, 12);
+  const comment = Buffer.concat([Buffer.from('OpusTags', 'latin1'), vorbisComment(options.comments ?? {})]);
+
+  return Buffer.concat([
+    oggPage([identification], { sequence: 0, first: true }),
+    oggPage([comment], { sequence: 1 }),
+    oggPage([Buffer.alloc(3000, 0xaa)], { sequence: 2, granule: options.granule ?? 480312 })
+  ]);
+}
+
+/**
+ * An MP4 atom around its children
+ */
+export function atom(type: string, ...children: Buffer[]): Buffer {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * An iTunes metadata item holding UTF-8 text
+ */
+export function mp4TextItem(type: string, text: string): Buffer {
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.writeUInt32BE(1);
+  return atom(type, atom('data', dataHeader, Buffer.from(text, 'utf8')));
+}
+
+/**
+ * An M4A file whose one chunk of media data is referenced by an stco table,
+ * with an iTunes metadata list when items are given
+ */
+export function mp4File(options: { items?: Buffer[]; timescale?: number; length?: number; mediaFirst?: boolean } = {}): Buffer {
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(options.timescale ?? 1000, 12);
+  mvhd.writeUInt32BE(options.length ?? 10000, 16);
+  const hdlr = Buffer.concat([Buffer.alloc(8), Buffer.from('mdir', 'latin1'), Buffer.alloc(13)]);
+  const udta = options.items
+    ? [atom('udta', atom('meta', Buffer.alloc(4), atom('hdlr', hdlr), atom('ilst', ...options.items)))]
+    : [];
+  const ftyp = atom('ftyp', Buffer.from('M4A \0\0\0\0M4A isom', 'latin1'));
+  const mdat = atom('mdat', Buffer.alloc(2048, 0xaa));
+
+  const buildMoov = (chunkOffset: number) => {
+    const stco = Buffer.alloc(12);
+    stco.writeUInt32BE(1, 4);
+    stco.writeUInt32BE(chunkOffset, 8);
+    const trak = atom('trak', atom('mdia', atom('minf', atom('stbl', atom('stco', stco)))));
+    return atom('moov', atom('mvhd', mvhd), trak, ...udta);
+  };
+
+  if (options.mediaFirst) {
+    return Buffer.concat([ftyp, mdat, buildMoov(ftyp.length + 8)]);
+  }
+  const moovSize = buildMoov(0).length;
+  return Buffer.concat([ftyp, buildMoov(ftyp.length + moovSize + 8), mdat]);
+}
+
+/**
+ * An ID3v1.1 tag, for the last 128 bytes of an MP3 file
+ */
+export function id3v1Tag(fields: { title?: string; artist?: string; album?: string; year?: string; track?: number; genre?: number }): Buffer {
+  const tag = Buffer.alloc(128);
+  tag.write('TAG', 0, 'latin1');
+  tag.write(fields.title ?? '', 3, 30, 'latin1');
+  tag.write(fields.artist ?? '', 33, 30, 'latin1');
+  tag.write(fields.album ?? '', 63, 30, 'latin1');
+  tag.write(fields.year ?? '', 93, 4, 'latin1');
+  tag[126] = fields.track ?? 0;
+  tag[127] = fields.genre ?? 0xff;
+  return tag;
+}
+
+/**
+ * The on-disk bytes of an ASF GUID: the first three groups are little-endian
+ */
+function asfGuid(value: string): Buffer {
+  const bytes = Buffer.from(value.replace(/-/g, ''), 'hex');
+  return Buffer.concat([
+    Buffer.from(bytes.subarray(0, 4)).reverse(),
+    Buffer.from(bytes.subarray(4, 6)).reverse(),
+    Buffer.from(bytes.subarray(6, 8)).reverse(),
+    bytes.subarray(8)
+  ]);
+}
+
+function asfObject(id: string, body: Buffer): Buffer {
+  const size = Buffer.alloc(8);
+  size.writeBigUInt64LE(BigInt(body.length + 24));
+  return Buffer.concat([asfGuid(id), size, body]);
+}
+
+function utf16z(text: string): Buffer {
+  return Buffer.from(`${text}\0`, 'utf16le');
+}
+
+function uint16le(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+/**
+ * A WMA header with file properties, a content description and string or DWORD extended
+ * content descriptors, followed by an empty data object
+ */
+export function asfFile(options: { title?: string; artist?: string; descriptors?: Record<string, string | number>; durationMs?: number; prerollMs?: number } = {}): Buffer {
+  const properties = Buffer.alloc(80);
+  const prerollMs = options.prerollMs ?? 3000;
+  properties.writeBigUInt64LE(BigInt(((options.durationMs ?? 10000) + prerollMs) * 10000), 40);
+  properties.writeBigUInt64LE(BigInt(prerollMs), 56);
+
+  const title = utf16z(options.title ?? '');
+  const artist = utf16z(options.artist ?? '');
+  const description = Buffer.concat([uint16le(title.length), uint16le(artist.length), Buffer.alloc(6), title, artist]);
+
+  const descriptors = Object.entries(options.descriptors ?? {}).map(([name, value]) => {
+    const nameBytes = utf16z(name);
+    const valueBytes = typeof value === 'number' ? uint32le(value) : utf16z(value);
+    return Buffer.concat([uint16le(nameBytes.length), nameBytes, uint16le(typeof value === 'number' ? 3 : 0), uint16le(valueBytes.length), valueBytes]);
+  });
+  const extended = Buffer.concat([uint16le(descriptors.length), ...descriptors]);
+
+  const objects = [
+    asfObject('8CABDCA1-A947-11CF-8EE4-00C00C205365', properties),
+    asfObject('75B22633-668E-11CF-A6D9-00AA0062CE6C', description),
+    asfObject('D2D0A440-E307-11D2-97F0-00A0C95EA850', extended)
+  ];
+  const header = Buffer.alloc(30);
+  asfGuid('75B22630-668E-11CF-A6D9-00AA0062CE6C').copy(header);
+  header.writeBigUInt64LE(BigInt(30 + objects.reduce((sum, object) => sum + object.length, 0)), 16);
+  header.writeUInt32LE(objects.length, 24);
+  return Buffer.concat([header, ...objects, asfObject('75B22636-668E-11CF-A6D9-00AA0062CE6C', Buffer.alloc(26))]);
+}
+
+function riffChunk(id: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+/**
+ * A 16-bit stereo WAV file with an optional INFO list and ID3 chunk; the data chunk is left
+ * out when dataSize is 0
+ */
+export function wavFile(options: { sampleRate?: number; dataSize?: number; info?: Record<string, string>; id3?: Buffer } = {}): Buffer {
+  const sampleRate = options.sampleRate ?? 44100;
+  const format = Buffer.alloc(16);
+  format.writeUInt16LE(1, 0);
+  format.writeUInt16LE(2, 2);
+  format.writeUInt32LE(sampleRate, 4);
+  format.writeUInt32LE(sampleRate * 4, 8);
+  format.writeUInt16LE(4, 12);
+  format.writeUInt16LE(16, 14);
+
+  const chunks = [riffChunk('fmt ', format)];
+  if (options.info) {
+    const entries = Object.entries(options.info).map(([id, text]) => riffChunk(id, Buffer.from(`${text}\0`, 'utf8')));
+    chunks.push(riffChunk('LIST', Buffer.concat([Buffer.from('INFO', 'latin1'), ...entries])));
+  }
+  const dataSize = options.dataSize ?? sampleRate * 4;
+  if (dataSize > 0) {
+    chunks.push(riffChunk('data', Buffer.alloc(dataSize)));
+  }
+  if (options.id3) {
+    chunks.push(riffChunk('id3 ', options.id3));
+  }
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WAVE', 8, 'latin1');
+  return Buffer.concat([header, body]);
+}
@@ -0,0 +1,158 @@
+import { renderLyrics } from '../../src/lyrics/formats';
+import { LyricResult, TrackMetadata } from '../../src/types';
+
+function lyrics(fields: Partial<LyricResult>): LyricResult {
+  return { artist: 'Artist', title: 'Song', syncedLyrics: null, plainLyrics: null, source: 'lrclib', instrumental: false, ...fields };
+}
+
+function track(fields: Partial<TrackMetadata> = {}): TrackMetadata {
+  return { artist: 'Artist', title: 'Song', filepath: '/music/song.mp3', ...fields };
+}
+
+// An empty line at 6 s ends the second line and leaves a gap before the last one
+const SYNCED = '[00:01.00]Hello\n[00:03.50]World & <you>\n[00:06.00]\n[00:08.00]Last\n';
+
+describe('renderLyrics', () => {
+  describe('SRT', () => {
+    it('ends each line at the next one and the last at the end of the track', () => {
+      expect(renderLyrics('srt', lyrics({ syncedLyrics: SYNCED }), track({ duration: 10 }))).toEqual({
+        extension: 'srt',
+        content: [
+          '1',
+          '00:00:01,000 --> 00:00:03,500',
+          'Hello',
+          '',
+          '2',
+          '00:00:03,500 --> 00:00:06,000',
+          'World & <you>',
+          '',
+          '3',
+          '00:00:08,000 --> 00:00:10,000',
+          'Last',
+          ''
+        ].join('\n')
+      });
+    });
+
+    it('shows the last line for five seconds when the track duration is unknown or too short', () => {
+      const last = '3\n00:00:08,000 --> 00:00:13,000\nLast\n';
+      expect(renderLyrics('srt', lyrics({ syncedLyrics: SYNCED }))?.content.endsWith(last)).toBe(true);
+      expect(renderLyrics('srt', lyrics({ syncedLyrics: SYNCED }), track({ duration: 7 }))?.content.endsWith(last)).toBe(true);
+    });
+
+    it('applies the offset and keeps lines from starting before the track', () => {
+      const synced = '[offset:500]\n[00:00.20]Early\n[00:02.00]Later\n';
+      expect(renderLyrics('srt', lyrics({ syncedLyrics: synced }))?.content).toBe([
+        '1',
+        '00:00:00,000 --> 00:00:01,500',
+        'Early',
+        '',
+        '2',
+        '00:00:01,500 --> 00:00:06,500',
+        'Later',
+        ''
+      ].join('\n'));
+    });
+
+    it('renders nothing without synced lines', () => {
+      expect(renderLyrics('srt', lyrics({ plainLyrics: 'Hello' }))).toBeNull();
+      expect(renderLyrics('srt', lyrics({ syncedLyrics: '[00:01.00]\n' }))).toBeNull();
+    });
+  });
+
+  describe('WebVTT', () => {
+    it('writes the header and cues with dotted times', () => {
+      expect(renderLyrics('vtt', lyrics({ syncedLyrics: SYNCED }), track({ duration: 10 }))).toEqual({
+        extension: 'vtt',
+        content: [
+          'WEBVTT',
+          '',
+          '00:00:01.000 --> 00:00:03.500',
+          'Hello',
+          '',
+          '00:00:03.500 --> 00:00:06.000',
+          'World & <you>',
+          '',
+          '00:00:08.000 --> 00:00:10.000',
+          'Last',
+          ''
+        ].join('\n')
+      });
+    });
+  });
+
+  describe('TTML', () => {
+    it('writes line-timed paragraphs and escapes text and metadata', () => {
+      const metadata = track({ artist: 'Tom "T" <Jones>', title: 'Q&A', duration: 10 });
+      expect(renderLyrics('ttml', lyrics({ syncedLyrics: SYNCED }), metadata)).toEqual({
+        extension: 'ttml',
+        content: [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xmlns:itunes="http://music.apple.com/lyric-ttml-internal" itunes:timing="Line">',
+          '  <head>',
+          '    <metadata>',
+          '      <ttm:title>Q&amp;A</ttm:title>',
+          '      <ttm:agent type="person" xml:id="v1"><ttm:name type="full">Tom &quot;T&quot; &lt;Jones&gt;</ttm:name></ttm:agent>',
+          '    </metadata>',
+          '  </head>',
+          '  <body dur="00:00:10.000">',
+          '    <div begin="00:00:01.000" end="00:00:10.000">',
+          '      <p begin="00:00:01.000" end="00:00:03.500">Hello</p>',
+          '      <p begin="00:00:03.500" end="00:00:06.000">World &amp; &lt;you&gt;</p>',
+          '      <p begin="00:00:08.000" end="00:00:10.000">Last</p>',
+          '    </div>',
+          '  </body>',
+          '</tt>',
+          ''
+        ].join('\n')
+      });
+    });
+
+    it('writes a span per word of enhanced lines, ending at the next word or the end of the line', () => {
+      const synced = '[00:01.00]Hey <00:01.50>there\n[00:03.00]Bye\n';
+      const content = renderLyrics('ttml', lyrics({ syncedLyrics: synced }), track({ duration: 4 }))?.content ?? '';
+      expect(content).toContain('itunes:timing="Word"');
+      expect(content.split('\n').filter(line => line.includes('<p '))).toEqual([
+        '      <p begin="00:00:01.000" end="00:00:03.000"><span begin="00:00:01.000" end="00:00:01.500">Hey</span> <span begin="00:00:01.500" end="00:00:03.000">there</span></p>',
+        '      <p begin="00:00:03.000" end="00:00:04.000">Bye</p>'
+      ]);
+    });
+  });
+
+  describe('JSON', () => {
+    it('writes synced lines with their windows and words', () => {
+      const synced = '[offset:-1000]\n[00:01.00]Hey <00:01.50>there\n[00:03.00]\n';
+      const result = renderLyrics('json', lyrics({ album: 'Album', syncedLyrics: synced }), track({ duration: 10 }));
+      expect(result).toEqual({
+        extension: 'json',
+        content: JSON.stringify({
+          version: 1,
+          source: 'lrclib',
+          metadata: { artist: 'Artist', title: 'Song', album: 'Album', duration: 10 },
+          synced: true,
+          instrumental: false,
+          lines: [
+            { startMs: 2000, endMs: 4000, text: 'Hey there', words: [{ startMs: 2000, text: 'Hey' }, { startMs: 2500, text: 'there' }] }
+          ]
+        }, null, 2) + '\n'
+      });
+    });
+
+    it('falls back to plain lines without timing', () => {
+      const result = renderLyrics('json', lyrics({ plainLyrics: 'One\r\n\r\n  Two  \n' }));
+      expect(result?.content).toBe(JSON.stringify({
+        version: 1,
+        source: 'lrclib',
+        metadata: { artist: 'Artist', title: 'Song' },
+        synced: false,
+        instrumental: false,
+        lines: [{ text: 'One' }, { text: 'Two' }]
+      }, null, 2) + '\n');
+    });
+
+    it('marks instrumentals and renders nothing for empty lyrics', () => {
+      expect(JSON.parse(renderLyrics('json', lyrics({ instrumental: true }))?.content ?? '')).toMatchObject({ instrumental: true, lines: [] });
+      expect(renderLyrics('json', lyrics({}))).toBeNull();
+    });
+  });
+});
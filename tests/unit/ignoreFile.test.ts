@@ -0,0 +1,55 @@
+import path from 'path';
+import { IgnoreFile, isIgnored, parseIgnoreRules } from '../../src/scanner/ignoreFile';
+
+describe('parseIgnoreRules', () => {
+  it('reads gitignore-style lines', () => {
+    const content = [
+      '# comment',
+      '',
+      'Live*',
+      '/Singles/*.mp3  ',
+      'Audiobooks/',
+      '!Keep.flac',
+      '\\#hash.mp3',
+      '\\!bang.mp3',
+      'trailing\\ ',
+      '/'
+    ].join('\r\n');
+
+    expect(parseIgnoreRules(content)).toEqual([
+      { pattern: '**/Live*', negated: false, directoryOnly: false },
+      { pattern: 'Singles/*.mp3', negated: false, directoryOnly: false },
+      { pattern: '**/Audiobooks', negated: false, directoryOnly: true },
+      { pattern: '**/Keep.flac', negated: true, directoryOnly: false },
+      { pattern: '**/#hash.mp3', negated: false, directoryOnly: false },
+      { pattern: '**/!bang.mp3', negated: false, directoryOnly: false },
+      { pattern: '**/trailing\\ ', negated: false, directoryOnly: false }
+    ]);
+  });
+});
+
+describe('isIgnored', () => {
+  const root = path.resolve('/music');
+  const ignoreFile = (directory: string, content: string): IgnoreFile => ({ directory: path.join(root, directory), rules: parseIgnoreRules(content) });
+
+  it('matches names at any depth and anchored patterns from the ignore file folder', () => {
+    const files = [ignoreFile('', 'demo.mp3\n/Top/*.mp3\n')];
+    expect(isIgnored(files, path.join(root, 'A/B/demo.mp3'), false)).toBe(true);
+    expect(isIgnored(files, path.join(root, 'Top/a.mp3'), false)).toBe(true);
+    expect(isIgnored(files, path.join(root, 'A/Top/a.mp3'), false)).toBe(false);
+  });
+
+  it('matches folder-only patterns against folders alone', () => {
+    const files = [ignoreFile('', 'Live/\n')];
+    expect(isIgnored(files, path.join(root, 'Artist/Live'), true)).toBe(true);
+    expect(isIgnored(files, path.join(root, 'Artist/Live'), false)).toBe(false);
+  });
+
+  it('lets the last matching rule win, with deeper ignore files overriding shallower ones', () => {
+    const files = [ignoreFile('', '*.flac\n!best.flac\n'), ignoreFile('Album', '!*.flac\nbest.flac\n')];
+    expect(isIgnored(files, path.join(root, 'a.flac'), false)).toBe(true);
+    expect(isIgnored(files, path.join(root, 'best.flac'), false)).toBe(false);
+    expect(isIgnored(files, path.join(root, 'Album/a.flac'), false)).toBe(false);
+    expect(isIgnored(files, path.join(root, 'Album/best.flac'), false)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LibraryWatcher } from '../../src/watcher/libraryWatcher';
+import { LyricsFetcherOrchestrator } from '../../src/orchestrator/index';
+
+const DEBOUNCE_MS = 5000;
+
+describe('LibraryWatcher', () => {
+  let dir: string;
+  let emit: (filename: string) => void;
+  let orchestrator: { processFiles: jest.Mock; moveLyrics: jest.Mock; removeLyrics: jest.Mock };
+  let watcher: LibraryWatcher;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-watch-')));
+    // File events are fed to the watcher by hand
+    jest.spyOn(fs, 'watch').mockImplementation(((_directory: string, _options: unknown, listener: (event: string, filename: string) => void) => {
+      emit = filename => listener('rename', filename);
+      return Object.assign(new EventEmitter(), { close: jest.fn() });
+    }) as unknown as typeof fs.watch);
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+    orchestrator = { processFiles: jest.fn(async () => []), moveLyrics: jest.fn(), removeLyrics: jest.fn() };
+    watcher = new LibraryWatcher(orchestrator as unknown as LyricsFetcherOrchestrator, {}, { debounceMs: DEBOUNCE_MS });
+    watcher.start(dir);
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(relativePath: string, content = 'audio'): string {
+    const filePath = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  /**
+   * Let the quiet period pass and wait for the pass it starts
+   */
+  async function settle(): Promise<void> {
+    jest.advanceTimersByTime(DEBOUNCE_MS);
+    await (watcher as unknown as { processing: Promise<void> }).processing;
+  }
+
+  it('processes a burst of events in one pass after a quiet period', async () => {
+    const first = write('a.mp3');
+    const second = write('b.flac');
+    write('cover.jpg');
+
+    emit('a.mp3');
+    jest.advanceTimersByTime(DEBOUNCE_MS - 1000);
+    emit('b.flac');
+    emit('cover.jpg');
+    jest.advanceTimersByTime(DEBOUNCE_MS - 1);
+    expect(orchestrator.processFiles).not.toHaveBeenCalled();
+
+    await settle();
+    expect(orchestrator.processFiles).toHaveBeenCalledTimes(1);
+    expect(orchestrator.processFiles.mock.calls[0][0].sort()).toEqual([first, second]);
+    expect(orchestrator.processFiles.mock.calls[0][1]).toEqual({});
+  });
+
+  it('processes every audio file of a folder copied in', async () => {
+    const files = [write('Album/01.mp3'), write('Album/Disc 2/01.mp3')];
+    emit('Album');
+    await settle();
+    expect(orchestrator.processFiles.mock.calls[0][0].sort()).toEqual(files);
+  });
+
+  it('moves the lyrics of moved and renamed files and removes those of deleted ones', async () => {
+    const moved = write('Artist/song.mp3');
+    emit('Artist/song.mp3');
+    await settle();
+
+    fs.mkdirSync(path.join(dir, 'Other'));
+    fs.renameSync(moved, path.join(dir, 'Other/song.mp3'));
+    emit('Artist/song.mp3');
+    emit('Other/song.mp3');
+    await settle();
+    expect(orchestrator.moveLyrics).toHaveBeenCalledWith(moved, path.join(dir, 'Other/song.mp3'), {});
+
+    fs.renameSync(path.join(dir, 'Other/song.mp3'), path.join(dir, 'Other/renamed.mp3'));
+    emit('Other/song.mp3');
+    emit('Other/renamed.mp3');
+    await settle();
+    expect(orchestrator.moveLyrics).toHaveBeenLastCalledWith(path.join(dir, 'Other/song.mp3'), path.join(dir, 'Other/renamed.mp3'), {});
+
+    fs.rmSync(path.join(dir, 'Other/renamed.mp3'));
+    emit('Other/renamed.mp3');
+    await settle();
+    expect(orchestrator.removeLyrics).toHaveBeenCalledWith(path.join(dir, 'Other/renamed.mp3'), {});
+    expect(orchestrator.moveLyrics).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores the events of lyrics it embedded itself, but not later changes', async () => {
+    const song = write('song.mp3');
+    // Embedding rewrites the audio file, which fires another event
+    orchestrator.processFiles.mockImplementationOnce(async () => {
+      fs.appendFileSync(song, 'lyrics');
+      emit('song.mp3');
+      return [];
+    });
+
+    emit('song.mp3');
+    await settle();
+    await settle();
+    expect(orchestrator.processFiles).toHaveBeenCalledTimes(1);
+
+    fs.appendFileSync(song, ' retagged');
+    emit('song.mp3');
+    await settle();
+    expect(orchestrator.processFiles).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalLyricsProvider, parseLyricsFile } from '../../src/providers/localLyricsProvider';
+import { TrackMetadata } from '../../src/types';
+
+const track: TrackMetadata = {
+  artist: 'Artist',
+  title: 'Song',
+  album: 'Album',
+  duration: 200,
+  filepath: '/music/Artist/Album/01 Song.mp3'
+};
+
+describe('LocalLyricsProvider', () => {
+  let dir: string;
+
+  function writeLyrics(relativePath: string, content: string): string {
+    const filePath = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-local-'));
+    writeLyrics('Artist/Album/01. Song.lrc', '[length: 3:20]\n[00:01.00]Some words');
+    writeLyrics('Artist - Song (Live).lrc', '[00:01.00]Live words');
+    writeLyrics('Other/Record/01. Tune.lrc', '[ar: Someone]\n[00:01.00]Other words');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('finds lyrics by tags, file name and folders, best first', async () => {
+    writeLyrics('Artist - Song.lrc', 'Plain words');
+    const results = await new LocalLyricsProvider({ directory: dir }).search(track);
+    expect(results.map(result => [result.title, result.score, result.plainLyrics])).toEqual([
+      ['Song', 1, 'Some words'],
+      ['Song', 0.85, 'Plain words']
+    ]);
+    expect(results[0]).toMatchObject({ artist: 'Artist', album: 'Album', matchStage: 'exact', durationDelta: 0 });
+  });
+
+  it('scores only files sharing a word with a fuzzy title or the artist', async () => {
+    const provider = new LocalLyricsProvider({ directory: dir });
+    const scored = jest.spyOn(provider as any, 'candidateEntries');
+
+    const results = await provider.search({ ...track, title: 'Song (Remastered)' });
+    expect(results.map(result => result.title)).toEqual(['Song']);
+    const pool = scored.mock.results[0].value as Array<{ filePath: string }>;
+    expect(pool.map(entry => path.basename(entry.filePath)).sort()).toEqual(['01. Song.lrc', 'Artist - Song (Live).lrc']);
+  });
+
+  it('reads matched files best first, only until enough candidates are found', async () => {
+    writeLyrics('Artist - Song.lrc', 'Plain words');
+    const provider = new LocalLyricsProvider({ directory: dir });
+    await provider.search({ ...track, title: 'Unknown' });
+    const readFile = jest.spyOn(fs.promises, 'readFile');
+
+    const results = await provider.search(track, { maxCandidates: 1 });
+    expect(results.map(result => result.title)).toEqual(['Song']);
+    expect(readFile).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips empty files in favour of the next best one', async () => {
+    writeLyrics('Artist/Album/01. Song.lrc', '[length: 3:20]\n');
+    writeLyrics('Artist - Song.lrc', 'Plain words');
+    const results = await new LocalLyricsProvider({ directory: dir }).search(track, { maxCandidates: 1 });
+    expect(results.map(result => [result.score, result.plainLyrics])).toEqual([[0.85, 'Plain words']]);
+  });
+});
+
+describe('parseLyricsFile', () => {
+  it('reads synced and plain lyrics', () => {
+    expect(parseLyricsFile('[ar: Artist]\n[00:01.00]One\n[00:02.00]Two')).toEqual({
+      syncedLyrics: '[ar: Artist]\n[00:01.00]One\n[00:02.00]Two',
+      plainLyrics: 'One\nTwo',
+      instrumental: false
+    });
+    expect(parseLyricsFile('﻿[ti: Song]\nOne\n\nTwo\n')).toEqual({ syncedLyrics: null, plainLyrics: 'One\nTwo', instrumental: false });
+  });
+
+  it('marks instrumental tracks and rejects files without lyrics', () => {
+    expect(parseLyricsFile('[00:00.00]Instrumental')).toMatchObject({ plainLyrics: null, instrumental: true });
+    expect(parseLyricsFile('[ar: Artist]\n')).toBeNull();
+  });
+});
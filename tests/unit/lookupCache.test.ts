@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LookupCache } from '../../src/cache/lookupCache';
+import { LrcLibClient, HttpClient, LrcLibRecord } from '../../src/api/lrclib';
+import { TrackMetadata } from '../../src/types';
+
+const track: TrackMetadata = { artist: 'Artist', title: 'Song', duration: 200, filepath: '/music/Song.mp3' };
+
+function record(id: number, trackName: string): LrcLibRecord {
+  return {
+    id,
+    trackName,
+    artistName: 'Artist',
+    albumName: null,
+    duration: 200,
+    instrumental: false,
+    plainLyrics: null,
+    syncedLyrics: `[00:01.00]${trackName}`
+  };
+}
+
+describe('LookupCache', () => {
+  let directory: string;
+  let cachePath: string;
+  let http: HttpClient & { get: jest.Mock };
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'lookup-cache-'));
+    cachePath = path.join(directory, 'lookup-cache.json');
+    const records = [record(1, 'Song'), record(2, 'Song (Live)'), record(3, 'Song (Demo Version)')];
+    http = { get: jest.fn(async (url: string) => ({ status: 200, data: url.includes('/api/search') ? records : null })) };
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  function client(): LrcLibClient {
+    return new LrcLibClient(http, { rateLimit: { requestsPerSecond: 0 }, cache: new LookupCache({ path: cachePath }) });
+  }
+
+  it('returns every cached candidate on a hit', async () => {
+    const lrclib = client();
+    const found = await lrclib.search(track, { maxCandidates: 2 });
+    expect(found.map(result => result.title)).toEqual(['Song', 'Song (Live)']);
+    const requests = http.get.mock.calls.length;
+
+    expect(await lrclib.search(track, { maxCandidates: 2 })).toEqual(found);
+    expect(http.get).toHaveBeenCalledTimes(requests);
+  });
+
+  it('searches again when the search options change', async () => {
+    const lrclib = client();
+    expect(await lrclib.search(track, { minConfidence: 0.9 })).toHaveLength(1);
+    const requests = http.get.mock.calls.length;
+
+    const loosened = await lrclib.search(track, { minConfidence: 0.6 });
+    expect(loosened.map(result => result.title)).toEqual(['Song', 'Song (Live)', 'Song (Demo Version)']);
+    expect(http.get.mock.calls.length).toBeGreaterThan(requests);
+  });
+
+  it('keeps a cached miss apart from lookups with other options', async () => {
+    const cache = new LookupCache({ path: cachePath });
+    await cache.set(track, { minConfidence: 0.9 }, []);
+
+    expect(await cache.get(track, { minConfidence: 0.9 })).toEqual([]);
+    expect(await cache.get(track, { minConfidence: 0.5 })).toBeUndefined();
+    expect(await cache.get(track)).toBeUndefined();
+  });
+
+  it('keeps lookups against LRCLIB\'s cache or another server apart', async () => {
+    http.get.mockResolvedValue({ status: 200, data: [] });
+    const cache = new LookupCache({ path: cachePath });
+    const lrclib = new LrcLibClient(http, { rateLimit: { requestsPerSecond: 0 }, api: { cachedOnly: true }, cache });
+    expect(await lrclib.search(track)).toEqual([]);
+    expect(await lrclib.search(track)).toEqual([]);
+    const requests = http.get.mock.calls.length;
+
+    lrclib.configureApi({ cachedOnly: false });
+    await lrclib.search(track);
+    expect(http.get.mock.calls.length).toBeGreaterThan(requests);
+
+    const mirror = new LrcLibClient(http, { rateLimit: { requestsPerSecond: 0 }, api: { baseUrl: 'https://mirror.example' }, cache });
+    await mirror.search(track);
+    expect(http.get.mock.calls.slice(-1)[0][0]).toMatch(/^https:\/\/mirror\.example\//);
+  });
+
+  it('persists entries between runs', async () => {
+    const lrclib = client();
+    const found = await lrclib.search(track, { maxCandidates: 3 });
+    await lrclib.flushCache();
+
+    const requests = http.get.mock.calls.length;
+    expect(await client().search(track, { maxCandidates: 3 })).toEqual(found);
+    expect(http.get).toHaveBeenCalledTimes(requests);
+    expect(await new LookupCache({ path: cachePath }).stats()).toMatchObject({ hits: 1, misses: 0, expired: 0 });
+  });
+
+  it('ignores a cache file from an older version', async () => {
+    await fs.promises.writeFile(cachePath, JSON.stringify({
+      version: 1,
+      entries: { [LookupCache.keyFor(track)]: { storedAt: Date.now(), result: null } }
+    }));
+
+    expect(await new LookupCache({ path: cachePath }).get(track)).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { formatLrcTimestamp, lrcErrors, parseLrc, serializeLrc, withMetadataTags } from '../../src/lyrics/lrc';
+
+describe('parseLrc', () => {
+  it('reads ID tags and timed lines, sorted by time', () => {
+    const document = parseLrc('\uFEFF[ar: Artist]\r\n[ti:Song]\r\n[00:05.00]Second\r\n[00:01.50]First\r\n');
+    expect(document.tags).toEqual([{ key: 'ar', value: 'Artist' }, { key: 'ti', value: 'Song' }]);
+    expect(document.lines).toEqual([{ timeMs: 1500, text: 'First' }, { timeMs: 5000, text: 'Second' }]);
+    expect(document.issues).toEqual([]);
+  });
+
+  it('repeats a line for each of its timestamps', () => {
+    const document = parseLrc('[00:10.00][00:30.00]Chorus\n[00:20.00]Verse\n');
+    expect(document.lines.map(line => [line.timeMs, line.text])).toEqual([[10000, 'Chorus'], [20000, 'Verse'], [30000, 'Chorus']]);
+  });
+
+  it('reads fractions of one, two or three digits and keeps thousandths', () => {
+    expect(parseLrc('[00:01.5]a\n[00:02.25]b\n[00:03]c\n').lines.map(line => line.timeMs)).toEqual([1500, 2250, 3000]);
+    expect(parseLrc('[00:01.50]a\n').fractionDigits).toBe(2);
+    const precise = parseLrc('[00:01.50]a\n[00:02.125]b\n');
+    expect(precise.fractionDigits).toBe(3);
+    expect(precise.lines[1].timeMs).toBe(2125);
+  });
+
+  it('splits enhanced lines into timed words', () => {
+    const [line] = parseLrc('[00:01.00]Hey <00:01.50>there <00:02.00>you\n').lines;
+    expect(line).toEqual({
+      timeMs: 1000,
+      text: 'Hey there you',
+      words: [{ timeMs: 1000, text: 'Hey ' }, { timeMs: 1500, text: 'there ' }, { timeMs: 2000, text: 'you' }]
+    });
+  });
+
+  it('moves the word times of each copy of a line with several timestamps', () => {
+    const document = parseLrc('[00:02.00][00:04.000]b <00:02.50>c\n');
+    expect(document.lines.map(line => line.words)).toEqual([
+      [{ timeMs: 2000, text: 'b ' }, { timeMs: 2500, text: 'c' }],
+      [{ timeMs: 4000, text: 'b ' }, { timeMs: 4500, text: 'c' }]
+    ]);
+  });
+
+  it('reads the offset tag', () => {
+    expect(parseLrc('[offset:+250]\n[00:01.00]a\n').offsetMs).toBe(250);
+    expect(parseLrc('[offset:-100]\n[00:01.00]a\n').offsetMs).toBe(-100);
+  });
+
+  it('reports invalid timestamps as errors and untimed lines as warnings', () => {
+    const document = parseLrc('[00:75.00]a\n[00:1x]b\njust text\n[00:01.00]ok\n');
+    expect(lrcErrors(document)).toEqual(['line 1: invalid timestamp [00:75.00]', 'line 2: malformed timestamp [00:1x]']);
+    expect(document.issues.filter(issue => issue.severity === 'warning')).toEqual([{ line: 3, severity: 'warning', message: 'line has no timestamp' }]);
+    expect(lrcErrors(parseLrc('[ar:Artist]\n'))).toEqual(['no timed lines']);
+  });
+});
+
+describe('serializeLrc', () => {
+  it('round-trips a normalized document', () => {
+    const content = '[ar:Artist]\n[ti:Song]\n[al:Album]\n[00:01.00]One\n[00:02.50]<00:02.50>Two <00:03.00>words\n[00:04.00]\n';
+    expect(serializeLrc(parseLrc(content))).toBe(content);
+  });
+
+  it('writes known tags first, one timestamp per line, in the source precision', () => {
+    const content = '[by:Someone]\n[ti:Song]\n[ar:Artist]\n[00:02.000][00:04.000]b <00:02.500>c\n[00:01.000]a\n';
+    expect(serializeLrc(parseLrc(content))).toBe([
+      '[ar:Artist]',
+      '[ti:Song]',
+      '[by:Someone]',
+      '[00:01.000]a',
+      '[00:02.000]<00:02.000>b <00:02.500>c',
+      '[00:04.000]<00:04.000>b <00:04.500>c',
+      ''
+    ].join('\n'));
+  });
+
+  it('applies the offset to lines and words, or keeps the offset tag', () => {
+    const document = parseLrc('[offset:500]\n[00:01.00]a <00:01.50>b\n[00:00.20]start\n');
+    expect(serializeLrc(document)).toBe('[00:00.00]start\n[00:00.50]<00:00.50>a <00:01.00>b\n');
+    expect(serializeLrc(document, { applyOffset: false })).toBe('[offset:500]\n[00:00.20]start\n[00:01.00]<00:01.00>a <00:01.50>b\n');
+  });
+
+  it('adds missing metadata tags without replacing existing ones', () => {
+    const document = withMetadataTags(parseLrc('[ti:Own title]\n[00:01.00]a\n'), { artist: 'Artist', title: 'Song', duration: 201.6 });
+    expect(serializeLrc(document)).toBe('[ar:Artist]\n[ti:Own title]\n[length:03:22]\n[00:01.00]a\n');
+  });
+});
+
+describe('formatLrcTimestamp', () => {
+  it('rounds to hundredths or thousandths', () => {
+    expect(formatLrcTimestamp(61234)).toBe('01:01.23');
+    expect(formatLrcTimestamp(61236)).toBe('01:01.24');
+    expect(formatLrcTimestamp(61236, 3)).toBe('01:01.236');
+    expect(formatLrcTimestamp(-20)).toBe('00:00.00');
+  });
+});
@@ -0,0 +1,118 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import {
+  LrcLibClient,
+  HttpClient,
+  HttpPostConfig,
+  HttpPostResponse,
+  LrcLibChallenge,
+  LrcLibRecord,
+  LrcLibPublishRequest
+} from '../../src/api/lrclib';
+import { ConfigurationError } from '../../src/utils/errorHandling';
+import { LrcLibApiOptions } from '../../src/types';
+
+const record: LrcLibRecord = {
+  id: 42,
+  trackName: 'Song',
+  artistName: 'Artist',
+  albumName: 'Album',
+  duration: 201,
+  instrumental: false,
+  plainLyrics: 'Some lyrics',
+  syncedLyrics: '[00:01.00]Some lyrics'
+};
+
+const signature = { trackName: 'Song', artistName: 'Artist', albumName: 'Album', duration: 200.6 };
+
+function notFound(): AxiosError {
+  return new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, { status: 404 } as AxiosResponse);
+}
+
+/**
+ * A client whose GET requests answer with the given body, or fail with a 404 for undefined
+ */
+function clientFor(body: unknown, api: Partial<LrcLibApiOptions> = {}) {
+  const get = jest.fn(async (_url: string) => {
+    if (body === undefined) throw notFound();
+    return { status: 200, data: body };
+  });
+  const client = new LrcLibClient({ get }, { rateLimit: { requestsPerSecond: 0 }, network: { maxRetries: 0 }, api });
+  return { client, get };
+}
+
+describe('LrcLibClient record endpoint', () => {
+  it('fetches a record by id', async () => {
+    const { client, get } = clientFor(record);
+    expect(await client.getRecord(42)).toEqual(record);
+    expect(get.mock.calls[0][0]).toBe('https://lrclib.net/api/get/42');
+  });
+
+  it('returns null for a missing record or a body that is not one', async () => {
+    expect(await clientFor(undefined).client.getRecord(42)).toBeNull();
+    expect(await clientFor({ id: '42' }).client.getRecord(42)).toBeNull();
+  });
+
+  it('converts a record to lyrics pinned by id', async () => {
+    const lyrics = await clientFor(record).client.getLyricsById(42, { artist: 'Artist', title: 'Song', filepath: '/music/song.mp3' });
+    expect(lyrics).toMatchObject({ artist: 'Artist', title: 'Song', album: 'Album', syncedLyrics: record.syncedLyrics, matchReasons: ['lrclib id: 42'] });
+  });
+});
+
+describe('LrcLibClient signature endpoints', () => {
+  it('looks up the exact signature with a rounded duration', async () => {
+    const { client, get } = clientFor(record, { baseUrl: 'https://mirror.example/' });
+    expect(await client.getRecordBySignature(signature)).toEqual(record);
+    expect(get.mock.calls[0][0]).toBe('https://mirror.example/api/get?track_name=Song&artist_name=Artist&album_name=Album&duration=201');
+  });
+
+  it('uses the cached-only endpoint when configured or asked to', async () => {
+    const { client, get } = clientFor(record, { cachedOnly: true });
+    await client.getRecordBySignature(signature);
+    await client.getRecordBySignature(signature, { cachedOnly: false });
+    client.configureApi({ cachedOnly: false });
+    await client.getRecordBySignature(signature, { cachedOnly: true });
+    expect(get.mock.calls.map(([url]) => new URL(url).pathname)).toEqual(['/api/get-cached', '/api/get', '/api/get-cached']);
+  });
+
+  it('returns null when no record matches', async () => {
+    expect(await clientFor(undefined).client.getRecordBySignature(signature, { cachedOnly: true })).toBeNull();
+  });
+});
+
+describe('LrcLibClient publish endpoints', () => {
+  const body: LrcLibPublishRequest = {
+    trackName: 'Song',
+    artistName: 'Artist',
+    albumName: 'Album',
+    duration: 201,
+    plainLyrics: 'Some lyrics',
+    syncedLyrics: '[00:01.00]Some lyrics'
+  };
+
+  function publishingClient(challenge: Partial<LrcLibChallenge>) {
+    const post = jest.fn(async (url: string, _data: LrcLibPublishRequest | undefined, _config: HttpPostConfig): Promise<HttpPostResponse> =>
+      url.endsWith('/api/publish') ? { status: 201, data: null } : { status: 200, data: challenge });
+    const httpClient: HttpClient = { get: jest.fn(), post };
+    return { client: new LrcLibClient(httpClient, { rateLimit: { requestsPerSecond: 0 }, network: { timeoutMs: 5000 } }), post };
+  }
+
+  it('requests a challenge and publishes with its token', async () => {
+    const { client, post } = publishingClient({ prefix: 'abc', target: '00ff' });
+    expect(await client.requestChallenge()).toEqual({ prefix: 'abc', target: '00ff' });
+    await client.publishLyrics(body, 'abc:123');
+
+    expect(post.mock.calls).toEqual([
+      ['https://lrclib.net/api/request-challenge', undefined, { headers: {}, timeout: 5000 }],
+      ['https://lrclib.net/api/publish', body, { headers: { 'X-Publish-Token': 'abc:123' }, timeout: 5000 }]
+    ]);
+  });
+
+  it('rejects a malformed challenge', async () => {
+    await expect(publishingClient({ prefix: 'abc', target: 'xyz' }).client.requestChallenge()).rejects.toThrow('Unexpected publish challenge response');
+  });
+
+  it('needs an HTTP client that can POST', async () => {
+    const client = new LrcLibClient({ get: jest.fn() }, { rateLimit: { requestsPerSecond: 0 } });
+    await expect(client.publishLyrics(body, 'abc:123')).rejects.toBeInstanceOf(ConfigurationError);
+  });
+});
@@ -0,0 +1,186 @@
+import { scoreCandidate, applyDurationTolerance, scoreAgainstTrack, searchArtists, textSimilarity } from '../../src/api/matching';
+import { LrcLibClient, HttpClient, LrcLibRecord } from '../../src/api/lrclib';
+import { DurationMismatchError } from '../../src/utils/errorHandling';
+import { LyricResult, TrackMetadata } from '../../src/types';
+
+const track: TrackMetadata = {
+  artist: 'Artist',
+  title: 'Song',
+  album: 'Album',
+  duration: 200,
+  filepath: '/music/Artist/Album/01 Song.mp3'
+};
+
+function record(id: number, fields: Partial<LrcLibRecord>): LrcLibRecord {
+  return {
+    id,
+    trackName: 'Song',
+    artistName: 'Artist',
+    albumName: null,
+    duration: 200,
+    instrumental: false,
+    plainLyrics: 'Some lyrics',
+    syncedLyrics: null,
+    ...fields
+  };
+}
+
+/**
+ * An HTTP client whose search endpoint returns the given records
+ */
+function searchResults(records: LrcLibRecord[]): HttpClient {
+  return {
+    get: async (url: string) => ({ status: 200, data: url.includes('/api/search') ? records : null })
+  };
+}
+
+function client(records: LrcLibRecord[]): LrcLibClient {
+  return new LrcLibClient(searchResults(records), { rateLimit: { requestsPerSecond: 0 } });
+}
+
+describe('textSimilarity', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(textSimilarity('Beyoncé', 'beyonce')).toBe(1);
+    expect(textSimilarity('Hello, World!', 'hello world')).toBe(1);
+    expect(textSimilarity('Simon & Garfunkel', 'Simon and Garfunkel')).toBe(1);
+  });
+
+  it('scores containment above token overlap', () => {
+    expect(textSimilarity('Song (Live)', 'Song')).toBe(0.8);
+    expect(textSimilarity('Red Song', 'Blue Song')).toBeCloseTo(0.7 / 3);
+    expect(textSimilarity('', 'Song')).toBe(0);
+  });
+});
+
+describe('searchArtists', () => {
+  it('adds a different album artist after the track artist', () => {
+    expect(searchArtists({ ...track, artist: 'Singer feat. Guest', albumArtist: 'Singer' })).toEqual(['Singer feat. Guest', 'Singer']);
+  });
+
+  it('skips compilation and duplicate album artists', () => {
+    expect(searchArtists({ ...track, albumArtist: 'Various Artists' })).toEqual(['Artist']);
+    expect(searchArtists({ ...track, albumArtist: 'ARTIST' })).toEqual(['Artist']);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('scores an identical record as an exact match', () => {
+    const score = scoreCandidate(record(1, { albumName: 'Album', duration: 201 }), track);
+    expect(score.total).toBe(1);
+    expect(score.exact).toBe(true);
+    expect(score.durationDelta).toBe(1);
+  });
+
+  it('gives unknown album and duration a neutral score', () => {
+    const score = scoreCandidate(record(1, { duration: null }), track);
+    expect(score.total).toBe(0.85);
+    expect(score.exact).toBe(true);
+    expect(score.reasons).toEqual(['title: exact match', 'artist: exact match', 'album: unknown', 'duration: unknown']);
+  });
+
+  it('lowers the duration score linearly between 2 and 10 seconds', () => {
+    expect(scoreCandidate(record(1, { albumName: 'Album', duration: 206 }), track)).toMatchObject({ total: 0.9, exact: false, durationDelta: 6 });
+    expect(scoreCandidate(record(1, { albumName: 'Album', duration: 215 }), track).total).toBe(0.8);
+  });
+
+  it('matches a record credited to the album artist', () => {
+    const featuring = { ...track, artist: 'Singer feat. Guest', albumArtist: 'Singer' };
+    const score = scoreCandidate(record(1, { artistName: 'Singer', albumName: 'Album' }), featuring);
+    expect(score.total).toBe(1);
+    expect(score.reasons).toContain('album artist: exact match');
+  });
+
+  it('scores a different track low', () => {
+    expect(scoreCandidate(record(1, { trackName: 'Other', artistName: 'Someone' }), track).total).toBe(0.25);
+  });
+});
+
+describe('applyDurationTolerance', () => {
+  const candidates = [190, 199, 203].map(duration => ({ score: scoreCandidate(record(duration, { duration }), track) }));
+
+  it('rejects candidates outside the tolerance', () => {
+    const { kept, rejected } = applyDurationTolerance(candidates, 2, 'reject');
+    expect(kept.map(candidate => candidate.score.durationDelta)).toEqual([1]);
+    expect(rejected.map(candidate => candidate.score.durationDelta)).toEqual([10, 3]);
+  });
+
+  it('halves the score of mismatched candidates when down-ranking', () => {
+    const { kept, rejected } = applyDurationTolerance(candidates, 2, 'downrank');
+    expect(rejected).toEqual([]);
+    expect(kept.map(candidate => candidate.score.total)).toEqual([0.375, 0.95, 0.463]);
+    expect(kept[0].score.reasons).toContain('duration: exceeds ±2s tolerance, down-ranked');
+  });
+
+  it('keeps candidates without a duration', () => {
+    const unknown = [{ score: scoreCandidate(record(1, { duration: null }), track) }];
+    expect(applyDurationTolerance(unknown, 0, 'reject').kept).toHaveLength(1);
+  });
+});
+
+describe('scoreAgainstTrack', () => {
+  const tagged: TrackMetadata = {
+    artist: 'Earth, Wind & Fire',
+    title: 'Boogie Wonderland (feat. The Emotions) [Remastered]',
+    duration: 288,
+    filepath: '/music/ewf.mp3'
+  };
+  const found: LyricResult = {
+    artist: 'Earth, Wind & Fire',
+    title: 'Boogie Wonderland',
+    syncedLyrics: null,
+    plainLyrics: 'Some lyrics',
+    source: 'lrclib',
+    instrumental: false,
+    score: 1,
+    matchStage: 'exact',
+    durationDelta: 1,
+    matchReasons: ['query: artist-title', 'title: exact match']
+  };
+
+  it('scores lyrics found by a variant against the track tags, keeping the variant score', () => {
+    expect(scoreAgainstTrack(found, tagged)).toMatchObject({
+      score: 0.87,
+      variantScore: 1,
+      matchStage: 'artist-title',
+      durationDelta: 1,
+      matchReasons: ['title: partial match (0.80)', 'artist: exact match', 'album: unknown', 'duration: 1.0s difference', 'variant query: artist-title', 'variant title: exact match']
+    });
+  });
+
+  it('keeps down-ranking and the title-only stage', () => {
+    expect(scoreAgainstTrack({ ...found, durationDelta: 30, score: 0.4 }, tagged).score).toBe(0.335);
+    expect(scoreAgainstTrack({ ...found, matchStage: 'title-only' }, tagged).matchStage).toBe('title-only');
+  });
+});
+
+describe('LrcLibClient candidate ranking', () => {
+  const untagged = { ...track, album: undefined };
+  const plain = record(1, {});
+  const synced = record(2, { trackName: 'Song (Live)', duration: 201, plainLyrics: null, syncedLyrics: '[00:01.00]Some lyrics' });
+  const unrelated = record(3, { trackName: 'Other', artistName: 'Someone', syncedLyrics: '[00:01.00]Other lyrics' });
+  const empty = record(4, { plainLyrics: null });
+
+  it('ranks synced lyrics ahead of better plain ones and drops weak or empty candidates', async () => {
+    const results = await client([plain, synced, unrelated, empty]).search(untagged);
+    expect(results.map(result => [result.title, result.score])).toEqual([['Song (Live)', 0.87], ['Song', 0.95]]);
+    expect(results[1].matchReasons).toContain('query: artist-title');
+  });
+
+  it('ranks by score alone when synced lyrics are not preferred', async () => {
+    const results = await client([plain, synced]).search(untagged, { preferSynced: false });
+    expect(results.map(result => result.score)).toEqual([0.95, 0.87]);
+  });
+
+  it('honours the confidence threshold', async () => {
+    const results = await client([plain, synced]).search(untagged, { minConfidence: 0.9 });
+    expect(results.map(result => result.score)).toEqual([0.95]);
+  });
+
+  it('fails with a duration mismatch when only other recordings are found', async () => {
+    const longer = record(5, { duration: 230 });
+    await expect(client([longer]).search(untagged)).rejects.toBeInstanceOf(DurationMismatchError);
+
+    const results = await client([longer]).search(untagged, { durationMismatch: 'downrank', minConfidence: 0.3 });
+    expect(results.map(result => [result.score, result.durationDelta])).toEqual([[0.375, 30]]);
+  });
+});
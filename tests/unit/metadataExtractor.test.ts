@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { MetadataExtractor } from '../../src/metadata/extractor';
+import { MetadataExtractionError, NoAudioStreamError, UnsupportedFormatError } from '../../src/utils/errorHandling';
+import { flacFile, id3Tag, mpegFrames, wavFile } from './fixtures/audio';
+
+// ffprobe is replaced by a callback that answers with the output set by each test
+jest.mock('child_process', () => ({ ...jest.requireActual('child_process'), execFile: jest.fn() }));
+
+const execFileMock = execFile as unknown as jest.Mock;
+
+function probeOutput(output: object): void {
+  execFileMock.mockImplementation((_file: string, _args: string[], callback: (error: Error | null, result: { stdout: string }) => void) => {
+    callback(null, { stdout: JSON.stringify(output) });
+  });
+}
+
+const PROBED = {
+  streams: [{ codec_type: 'audio' }],
+  format: { duration: '123.4', tags: { artist: 'Probed Artist', title: 'Probed Song', album: 'Probed Album', track: '5/10' } }
+};
+
+describe('MetadataExtractor', () => {
+  const extractor = new MetadataExtractor();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-extractor-'));
+    probeOutput(PROBED);
+    // Failed extractions are logged as errors
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    execFileMock.mockReset();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: Buffer): string {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('reads supported formats natively without running ffprobe', async () => {
+    const filePath = write('song.flac', flacFile({ comments: { ARTIST: 'Artist', TITLE: 'Song', TRACKNUMBER: '3/12' }, totalSamples: 44100 * 200 }));
+    expect(await extractor.extractMetadata(filePath)).toMatchObject({ artist: 'Artist', title: 'Song', trackNumber: 3, duration: 200, filepath: filePath });
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to ffprobe when the native reader fails', async () => {
+    const filePath = write('song.mp3', Buffer.concat([id3Tag({ TIT2: 'Song' }), Buffer.alloc(2048)]));
+    expect(await extractor.extractMetadata(filePath)).toMatchObject({
+      artist: 'Probed Artist',
+      title: 'Probed Song',
+      album: 'Probed Album',
+      trackNumber: 5,
+      duration: 123.4
+    });
+    expect(execFileMock).toHaveBeenCalledTimes(1);
+    expect(execFileMock.mock.calls[0][1]).toEqual(expect.arrayContaining(['-show_format', '-show_streams', filePath]));
+  });
+
+  it('falls back to ffprobe when the native reader finds no duration', async () => {
+    const filePath = write('song.wav', wavFile({ dataSize: 0, info: { INAM: 'Song' } }));
+    expect(await extractor.extractMetadata(filePath)).toMatchObject({ title: 'Probed Song', duration: 123.4 });
+    expect(execFileMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('probes formats without a native reader directly', async () => {
+    const aiff = Buffer.concat([Buffer.from('FORM', 'latin1'), Buffer.alloc(4), Buffer.from('AIFF', 'latin1'), Buffer.alloc(64)]);
+    const filePath = write('Band - Tune.aiff', aiff);
+    probeOutput({ streams: [{ codec_type: 'audio' }], format: { duration: '61' } });
+    expect(await extractor.extractMetadata(filePath)).toMatchObject({ artist: 'Band', title: 'Tune', duration: 61 });
+  });
+
+  it('rejects probed files without an audio stream', async () => {
+    const filePath = write('song.mp3', Buffer.concat([id3Tag({ TIT2: 'Song' }), Buffer.alloc(2048)]));
+    probeOutput({ streams: [{ codec_type: 'video' }], format: {} });
+    await expect(extractor.extractMetadata(filePath)).rejects.toBeInstanceOf(NoAudioStreamError);
+  });
+
+  it('wraps ffprobe failures', async () => {
+    const filePath = write('song.mp3', Buffer.concat([id3Tag({ TIT2: 'Song' }), Buffer.alloc(2048)]));
+    execFileMock.mockImplementation((_file: string, _args: string[], callback: (error: Error) => void) => callback(new Error('ffprobe crashed')));
+    await expect(extractor.extractMetadata(filePath)).rejects.toBeInstanceOf(MetadataExtractionError);
+  });
+
+  it('rejects files that are not audio', async () => {
+    const filePath = write('notes.txt', Buffer.from('not audio at all'));
+    await expect(extractor.extractMetadata(filePath)).rejects.toBeInstanceOf(UnsupportedFormatError);
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+
+  it('reads an MP3 natively once its frames are found', async () => {
+    const filePath = write('song.mp3', Buffer.concat([id3Tag({ TIT2: 'Song', TPE1: 'Artist' }), mpegFrames(20)]));
+    expect(await extractor.extractMetadata(filePath)).toMatchObject({ artist: 'Artist', title: 'Song' });
+    expect(execFileMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  stripVersionSuffixes,
+  moveFeaturing,
+  primaryArtist,
+  foldUnicode,
+  searchVariants,
+  validateNormalizationOptions
+} from '../../src/metadata/normalization';
+import { ConfigurationError } from '../../src/utils/errorHandling';
+import { NormalizationStep, TrackMetadata } from '../../src/types';
+
+describe('stripVersionSuffixes', () => {
+  it('drops bracketed and dashed release details', () => {
+    expect(stripVersionSuffixes('Back in Black (Remastered 2003)')).toBe('Back in Black');
+    expect(stripVersionSuffixes('September [Live]')).toBe('September');
+    expect(stripVersionSuffixes('Highway to Hell - Live at Donington')).toBe('Highway to Hell');
+    expect(stripVersionSuffixes('Song - 2011 Remaster (Deluxe Edition)')).toBe('Song');
+  });
+
+  it('keeps brackets and dashes that are part of the title', () => {
+    expect(stripVersionSuffixes('(Don\'t Fear) The Reaper')).toBe('(Don\'t Fear) The Reaper');
+    expect(stripVersionSuffixes('Shine On You Crazy Diamond (Pts. 1-5)')).toBe('Shine On You Crazy Diamond (Pts. 1-5)');
+    expect(stripVersionSuffixes('T.N.T. - Bon Scott')).toBe('T.N.T. - Bon Scott');
+    expect(stripVersionSuffixes('(Live)')).toBe('(Live)');
+  });
+});
+
+describe('moveFeaturing', () => {
+  it('moves a featured artist from the title to the artist', () => {
+    expect(moveFeaturing({ artist: 'Earth, Wind & Fire', title: 'Boogie Wonderland (feat. The Emotions)' }))
+      .toEqual({ artist: 'Earth, Wind & Fire feat. The Emotions', title: 'Boogie Wonderland' });
+    expect(moveFeaturing({ artist: 'A', title: 'Song ft. B' })).toEqual({ artist: 'A feat. B', title: 'Song' });
+    expect(moveFeaturing({ artist: 'A', title: 'Song [with B] (Live)' })).toEqual({ artist: 'A feat. B', title: 'Song (Live)' });
+  });
+
+  it('does not credit a guest twice', () => {
+    expect(moveFeaturing({ artist: 'A feat. B', title: 'Song (feat. B)' })).toEqual({ artist: 'A feat. B', title: 'Song' });
+  });
+
+  it('leaves titles without a credit alone', () => {
+    expect(moveFeaturing({ artist: 'AC/DC', title: 'Back in Black' })).toEqual({ artist: 'AC/DC', title: 'Back in Black' });
+    expect(moveFeaturing({ artist: 'A', title: 'With or Without You' })).toEqual({ artist: 'A', title: 'With or Without You' });
+  });
+});
+
+describe('primaryArtist', () => {
+  it('keeps the first of several artists', () => {
+    expect(primaryArtist('A; B')).toBe('A');
+    expect(primaryArtist('A / B')).toBe('A');
+    expect(primaryArtist('A & B')).toBe('A');
+    expect(primaryArtist('A x B')).toBe('A');
+    expect(primaryArtist('A feat. B & C')).toBe('A');
+    expect(primaryArtist('A vs. B')).toBe('A');
+  });
+
+  it('keeps band names with a slash or a list whole', () => {
+    expect(primaryArtist('AC/DC')).toBe('AC/DC');
+    expect(primaryArtist('Earth, Wind & Fire')).toBe('Earth, Wind & Fire');
+    expect(primaryArtist('Crosby, Stills, Nash & Young')).toBe('Crosby, Stills, Nash & Young');
+    expect(primaryArtist('Earth, Wind & Fire feat. The Emotions')).toBe('Earth, Wind & Fire');
+    expect(primaryArtist('Xzibit')).toBe('Xzibit');
+  });
+});
+
+describe('foldUnicode', () => {
+  it('removes diacritics and folds typographic punctuation', () => {
+    expect(foldUnicode('Beyoncé – “Halo”… Don’t')).toBe('Beyonce - "Halo"... Don\'t');
+  });
+});
+
+describe('searchVariants', () => {
+  const track: TrackMetadata = {
+    artist: 'Earth, Wind & Fire',
+    title: 'Boogie Wonderland (feat. The Emotions) [Remastered]',
+    duration: 288,
+    filepath: '/music/ewf.mp3'
+  };
+
+  it('applies the steps cumulatively, skipping those that change nothing', () => {
+    expect(searchVariants(track).map(variant => [variant.label, variant.metadata.artist, variant.metadata.title])).toEqual([
+      ['original', 'Earth, Wind & Fire', 'Boogie Wonderland (feat. The Emotions) [Remastered]'],
+      ['move-featuring', 'Earth, Wind & Fire feat. The Emotions', 'Boogie Wonderland [Remastered]'],
+      ['move-featuring+strip-suffixes', 'Earth, Wind & Fire feat. The Emotions', 'Boogie Wonderland'],
+      ['move-featuring+strip-suffixes+split-artists', 'Earth, Wind & Fire', 'Boogie Wonderland']
+    ]);
+    expect(searchVariants({ ...track, artist: 'AC/DC', title: 'Back in Black' })).toHaveLength(1);
+  });
+
+  it('searches only the tags as they are when disabled', () => {
+    expect(searchVariants(track, { enabled: false, steps: ['strip-suffixes'] })).toHaveLength(1);
+  });
+
+  it('rejects unknown steps', () => {
+    expect(() => validateNormalizationOptions({ enabled: true, steps: ['nope' as NormalizationStep] })).toThrow(ConfigurationError);
+  });
+});
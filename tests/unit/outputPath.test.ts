@@ -0,0 +1,68 @@
+import path from 'path';
+import { resolvePathTemplate, withExtensionPlaceholder, DEFAULT_PATH_TEMPLATE } from '../../src/writer/outputPath';
+import { LyricsFileWriter } from '../../src/writer/fileWriter';
+import { ConfigurationError } from '../../src/utils/errorHandling';
+import { TrackMetadata } from '../../src/types';
+
+const metadata: TrackMetadata = {
+  artist: 'AC/DC',
+  title: 'Back in Black',
+  album: 'Back in Black',
+  trackNumber: 6,
+  filepath: '/music/AC_DC/Back in Black/06.flac'
+};
+
+describe('resolvePathTemplate', () => {
+  it('puts lyrics next to the audio file by default', () => {
+    const resolved = resolvePathTemplate(DEFAULT_PATH_TEMPLATE, { audioFilePath: '/music/A/01.flac', extension: 'lrc' });
+    expect(resolved).toBe(path.resolve('/music/A/01.lrc'));
+  });
+
+  it('resolves a relative library path once', () => {
+    const context = { audioFilePath: 'music/A/01.flac', extension: 'lrc', libraryRoot: 'music' };
+    expect(resolvePathTemplate(DEFAULT_PATH_TEMPLATE, context)).toBe(path.resolve('music/A/01.lrc'));
+    expect(resolvePathTemplate('{basename}.{ext}', context)).toBe(path.resolve('music/A/01.lrc'));
+    expect(resolvePathTemplate('lyrics/{reldir}/{basename}.{ext}', context)).toBe(path.resolve('music/A/lyrics/A/01.lrc'));
+  });
+
+  it('sanitizes tags and pads numbers', () => {
+    const resolved = resolvePathTemplate('{lyricsRoot}/{artist}/{album}/{track:02} {title}.{ext}', {
+      audioFilePath: metadata.filepath,
+      extension: 'lrc',
+      metadata,
+      lyricsRoot: '/lyrics'
+    });
+    expect(resolved).toBe(path.resolve('/lyrics/AC_DC/Back in Black/06 Back in Black.lrc'));
+  });
+
+  it('tidies segments with missing tags', () => {
+    const resolved = resolvePathTemplate('/lyrics/{track:02} {title}.{ext}', {
+      audioFilePath: metadata.filepath,
+      extension: 'lrc',
+      metadata: { ...metadata, trackNumber: undefined, title: '' }
+    });
+    expect(resolved).toBe(path.resolve('/lyrics/Unknown.lrc'));
+  });
+
+  it('rejects unknown placeholders and a missing lyrics root', () => {
+    const context = { audioFilePath: '/music/01.flac', extension: 'lrc' };
+    expect(() => resolvePathTemplate('{nope}.{ext}', context)).toThrow(ConfigurationError);
+    expect(() => resolvePathTemplate('{lyricsRoot}/{basename}.{ext}', context)).toThrow(ConfigurationError);
+  });
+});
+
+describe('withExtensionPlaceholder', () => {
+  it('replaces a literal extension of the format', () => {
+    expect(withExtensionPlaceholder('{dir}/{basename}.lrc', ['lrc', 'txt'])).toBe('{dir}/{basename}.{ext}');
+    expect(withExtensionPlaceholder('{dir}/{basename}', ['srt'])).toBe('{dir}/{basename}.{ext}');
+    expect(withExtensionPlaceholder('{dir}/{basename}.{ext}', ['lrc'])).toBe('{dir}/{basename}.{ext}');
+  });
+});
+
+describe('LyricsFileWriter with a relative library path', () => {
+  it('writes sidecar files next to the audio file', async () => {
+    const writer = new LyricsFileWriter({ libraryRoot: 'music' });
+    const lyrics = { artist: 'A', title: 'B', syncedLyrics: '[00:01.00]Words', plainLyrics: 'Words', source: 'lrclib', instrumental: false };
+    expect(await writer.outputPaths('music/A/01.flac', lyrics)).toEqual([path.resolve('music/A/01.lrc')]);
+  });
+});
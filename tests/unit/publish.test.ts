@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LrcLibClient } from '../../src/api/lrclib';
+import { solveChallenge, publishToken } from '../../src/publish/challenge';
+import { LyricsPublisher } from '../../src/publish/lyricsPublisher';
+import { InsufficientMetadataError } from '../../src/utils/errorHandling';
+
+function hash(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+describe('solveChallenge', () => {
+  it('finds the first nonce whose hash is at most the target', async () => {
+    const challenge = { prefix: 'lrclib-fetcher', target: '00ff' + 'f'.repeat(60) };
+    const target = Buffer.from(challenge.target, 'hex');
+
+    const nonce = await solveChallenge(challenge);
+    expect(Buffer.compare(hash(`${challenge.prefix}${nonce}`), target)).toBeLessThanOrEqual(0);
+    for (let earlier = 0; earlier < Number(nonce); earlier++) {
+      expect(Buffer.compare(hash(`${challenge.prefix}${earlier}`), target)).toBeGreaterThan(0);
+    }
+    expect(publishToken(challenge, nonce)).toBe(`lrclib-fetcher:${nonce}`);
+  });
+
+  it('accepts nonce 0 for a target no hash exceeds', async () => {
+    expect(await solveChallenge({ prefix: 'abc', target: 'f'.repeat(64) })).toBe('0');
+  });
+});
+
+describe('LyricsPublisher', () => {
+  let dir: string;
+  const get = jest.fn();
+  const post = jest.fn();
+  const publisher = new LyricsPublisher(new LrcLibClient({ get, post }, { rateLimit: { requestsPerSecond: 0 } }));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-publish-'));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('builds the payload of a .lrc with no audio file from its tags in a dry run', async () => {
+    const lyricsPath = path.join(dir, 'song.lrc');
+    fs.writeFileSync(lyricsPath, [
+      '[ar:Artist]',
+      '[ti:Song]',
+      '[al:Album]',
+      '[length:03:20.60]',
+      '[00:01.00]One',
+      '[00:02.50]Two',
+      ''
+    ].join('\n'));
+
+    const result = await publisher.publishFile(lyricsPath, { dryRun: true });
+    expect(result).toMatchObject({ filePath: lyricsPath, status: 'would-publish', lyricsPath });
+    expect(result.payload).toEqual({
+      trackName: 'Song',
+      artistName: 'Artist',
+      albumName: 'Album',
+      duration: 201,
+      plainLyrics: 'One\nTwo',
+      syncedLyrics: '[00:01.00]One\n[00:02.50]Two\n'
+    });
+    expect((await publisher.prepare(lyricsPath)).audioPath).toBeUndefined();
+    expect(get).not.toHaveBeenCalled();
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('reports the signature fields a .lrc is missing', async () => {
+    const lyricsPath = path.join(dir, 'song.lrc');
+    fs.writeFileSync(lyricsPath, '[ar:Artist]\n[ti:Song]\n[00:01.00]One\n');
+
+    await expect(publisher.prepare(lyricsPath)).rejects.toThrow(InsufficientMetadataError);
+    expect(await publisher.publishFile(lyricsPath, { dryRun: true })).toMatchObject({ status: 'failed' });
+    expect(post).not.toHaveBeenCalled();
+  });
+});
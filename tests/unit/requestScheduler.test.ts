@@ -0,0 +1,100 @@
+import { RequestScheduler } from '../../src/api/requestScheduler';
+
+/**
+ * A task that records when it starts and finishes once released
+ */
+function trackedTasks() {
+  const started: number[] = [];
+  const releases: Array<() => void> = [];
+  let running = 0;
+  let peak = 0;
+  const task = (id: number) => () => {
+    started.push(id);
+    running++;
+    peak = Math.max(peak, running);
+    return new Promise<number>(resolve => releases.push(() => {
+      running--;
+      resolve(id);
+    }));
+  };
+  return { started, releases, task, peak: () => peak };
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('limits the number of requests in flight', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 0, maxConcurrent: 2 });
+    const { started, releases, task, peak } = trackedTasks();
+    const results = [1, 2, 3, 4].map(id => scheduler.schedule(task(id)));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    releases[0]();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2, 3]);
+
+    releases.slice(1).forEach(release => release());
+    await jest.advanceTimersByTimeAsync(0);
+    releases[3]();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3, 4]);
+    expect(peak()).toBe(2);
+  });
+
+  it('starts requests at the configured rate once the bucket is empty', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 2, maxConcurrent: 10 });
+    const started: number[] = [];
+    [1, 2, 3, 4].forEach(id => scheduler.schedule(async () => started.push(id)));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([1, 2]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1, 2, 3]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([1, 2, 3, 4]);
+  });
+
+  it('spaces request starts by the minimum interval', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 0, maxConcurrent: 10, minIntervalMs: 100 });
+    const started: number[] = [];
+    [1, 2, 3].forEach(id => scheduler.schedule(async () => started.push(Date.now())));
+
+    await jest.advanceTimersByTimeAsync(250);
+    expect(started).toHaveLength(3);
+    expect(started[1] - started[0]).toBe(100);
+    expect(started[2] - started[1]).toBe(100);
+  });
+
+  it('applies new limits to queued requests', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 0, maxConcurrent: 1 });
+    const { started, task } = trackedTasks();
+    [1, 2, 3].forEach(id => scheduler.schedule(task(id)));
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1]);
+    scheduler.configure({ maxConcurrent: 3 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2, 3]);
+  });
+
+  it('keeps going after a task throws synchronously', async () => {
+    const scheduler = new RequestScheduler({ requestsPerSecond: 0, maxConcurrent: 1 });
+    const failing = scheduler.schedule((): Promise<string> => {
+      throw new Error('no request');
+    });
+    const next = scheduler.schedule(async () => 'done');
+
+    await expect(failing).rejects.toThrow('no request');
+    await expect(next).resolves.toBe('done');
+  });
+});
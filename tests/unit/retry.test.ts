@@ -0,0 +1,123 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { HttpClient, LrcLibClient } from '../../src/api/lrclib';
+import { toFetchError, withRetry } from '../../src/api/retry';
+import { LyricsFetchError, NetworkError, RateLimitedError } from '../../src/utils/errorHandling';
+import { NetworkOptions } from '../../src/types';
+
+const NETWORK: NetworkOptions = { timeoutMs: 1000, maxRetries: 2, baseDelayMs: 100, maxBackoffMs: 1000 };
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, { status, headers } as unknown as AxiosResponse);
+}
+
+function timeout(): AxiosError {
+  return new AxiosError('timeout of 1000ms exceeded', 'ECONNABORTED');
+}
+
+describe('withRetry', () => {
+  const get = jest.fn();
+  const http: HttpClient = { get };
+  const fetch = () => withRetry(() => http.get('https://lrclib.net/api/get/42'), NETWORK, 'record 42');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    // Backoff without jitter: 100 ms, then 200 ms
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    // Retries are logged as warnings
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    get.mockReset();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('retries server errors and timeouts with exponential backoff', async () => {
+    get.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(timeout()).mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const result = fetch();
+    await jest.advanceTimersByTimeAsync(99);
+    expect(get).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ status: 200, data: 'ok' });
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After asks, in seconds or until an HTTP date', async () => {
+    get
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3' }))
+      .mockRejectedValueOnce(httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:00:08 GMT' }))
+      .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const result = fetch();
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(get).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(get).toHaveBeenCalledTimes(2);
+    // The date is 5 seconds after the second attempt
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(get).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await result).toEqual({ status: 200, data: 'ok' });
+  });
+
+  it('gives up after maxRetries retries', async () => {
+    const error = httpError(500);
+    get.mockRejectedValue(error);
+
+    const result = expect(fetch()).rejects.toBe(error);
+    await jest.advanceTimersByTimeAsync(10000);
+    await result;
+    expect(get).toHaveBeenCalledTimes(NETWORK.maxRetries + 1);
+  });
+
+  it('fails at once on client errors', async () => {
+    const error = httpError(400);
+    get.mockRejectedValue(error);
+    await expect(fetch()).rejects.toBe(error);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LrcLibClient requests', () => {
+  it('treat a 404 as a clean miss without retrying', async () => {
+    const get = jest.fn(async () => { throw httpError(404); });
+    const client = new LrcLibClient({ get }, { rateLimit: { requestsPerSecond: 0 }, network: NETWORK });
+
+    expect(await client.getRecord(42)).toBeNull();
+    expect(await client.searchRecords({ q: 'Song' })).toEqual([]);
+    expect(await client.getLyricsById(42, { artist: 'Artist', title: 'Song', filepath: '/music/song.mp3' })).toBeNull();
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('toFetchError', () => {
+  it('reports rate limiting with the time to wait', () => {
+    const error = toFetchError(httpError(429, { 'retry-after': '7' }), 'Artist', 'Song');
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', retryable: true, context: { artist: 'Artist', title: 'Song', status: 429, retryAfterMs: 7000 } });
+  });
+
+  it('reports network failures with their error code', () => {
+    const error = toFetchError(timeout(), 'Artist', 'Song');
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ code: 'NETWORK_ERROR', retryable: true, context: { errorCode: 'ECONNABORTED' } });
+    expect(error.message).toBe('Failed to fetch lyrics for "Artist - Song": ECONNABORTED');
+  });
+
+  it('marks server errors retryable and other failures not', () => {
+    expect(toFetchError(httpError(502), 'Artist', 'Song')).toMatchObject({ code: 'FETCH_FAILED', retryable: true, context: { status: 502 } });
+    expect(toFetchError(httpError(400), 'Artist', 'Song')).toMatchObject({ code: 'FETCH_FAILED', retryable: false, context: { status: 400 } });
+    expect(toFetchError(new Error('bad body'), 'Artist', 'Song')).toMatchObject({ code: 'FETCH_FAILED', retryable: false });
+  });
+
+  it('passes fetch errors through', () => {
+    const error = new LyricsFetchError('Artist', 'Song', 'already classified');
+    expect(toFetchError(error, 'Other', 'Track')).toBe(error);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { needsReview, ReviewQueue } from '../../src/review/reviewQueue';
+import { LyricResult, TrackMetadata } from '../../src/types';
+
+function candidate(fields: Partial<LyricResult> = {}): LyricResult {
+  return { artist: 'Artist', title: 'Song', syncedLyrics: '[00:01.00]Hello\n', plainLyrics: 'Hello', source: 'lrclib', instrumental: false, ...fields };
+}
+
+describe('needsReview', () => {
+  it('flags title-only matches and scores below the threshold', () => {
+    expect(needsReview(candidate({ matchStage: 'title-only', score: 0.99 }), { threshold: 0.8 })).toBe(true);
+    expect(needsReview(candidate({ matchStage: 'artist-title', score: 0.79 }), { threshold: 0.8 })).toBe(true);
+    expect(needsReview(candidate({ matchStage: 'artist-title', score: 0.8 }), { threshold: 0.8 })).toBe(false);
+    expect(needsReview(candidate({ matchStage: 'exact' }), { threshold: 0.8 })).toBe(false);
+  });
+});
+
+describe('ReviewQueue', () => {
+  let dir: string;
+  let queuePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-review-'));
+    queuePath = path.join(dir, 'review-queue.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function track(name: string, fields: Partial<TrackMetadata> = {}): [string, TrackMetadata] {
+    const filePath = path.join(dir, name);
+    return [filePath, { artist: 'Artist', title: 'Song', filepath: filePath, ...fields }];
+  }
+
+  it('lists undecided tracks oldest first and keeps decisions across runs', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    const [first, firstMetadata] = track('first.mp3');
+    const [second, secondMetadata] = track('second.mp3');
+    jest.spyOn(Date, 'now').mockReturnValueOnce(2000).mockReturnValueOnce(1000);
+    await queue.enqueue(first, firstMetadata, [candidate()]);
+    await queue.enqueue(second, secondMetadata, [candidate()]);
+    expect((await queue.pending()).map(entry => entry.filePath)).toEqual([second, first]);
+
+    await queue.decide(second, { action: 'instrumental', decidedAt: 3000 });
+    await queue.flush();
+
+    const reloaded = new ReviewQueue({ path: queuePath });
+    expect((await reloaded.pending()).map(entry => entry.filePath)).toEqual([first]);
+    expect(await reloaded.decisionFor(second, secondMetadata)).toMatchObject({ source: 'review', instrumental: true });
+  });
+
+  it('returns the accepted candidate while the tags stay the same', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    const [filePath, metadata] = track('song.mp3');
+    const picked = candidate({ title: 'Song (Live)', matchReasons: ['title similarity 0.80'] });
+    await queue.enqueue(filePath, metadata, [candidate(), picked]);
+    expect(await queue.decisionFor(filePath, metadata)).toBeUndefined();
+
+    await queue.decide(filePath, { action: 'accept', candidate: picked, decidedAt: 1 });
+    expect(await queue.decisionFor(filePath, { ...metadata, artist: ' ARTIST ' })).toEqual({
+      ...picked,
+      matchReasons: ['review: accepted', 'title similarity 0.80']
+    });
+  });
+
+  it('ignores a decision once the artist or title tag changes', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    const [filePath, metadata] = track('song.mp3');
+    await queue.enqueue(filePath, metadata, [candidate()]);
+    await queue.decide(filePath, { action: 'instrumental', decidedAt: 1 });
+
+    expect(await queue.decisionFor(filePath, { ...metadata, title: 'Other Song' })).toBeUndefined();
+    expect(await queue.decisionFor(filePath, { ...metadata, artist: 'Other Artist' })).toBeUndefined();
+    expect(await queue.decisionFor(filePath, metadata)).toBeDefined();
+  });
+
+  it('forgets removed tracks', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    const [filePath, metadata] = track('song.mp3');
+    await queue.enqueue(filePath, metadata, [candidate()]);
+    await queue.remove(filePath);
+    await queue.flush();
+    expect(await new ReviewQueue({ path: queuePath }).pending()).toEqual([]);
+  });
+
+  it('ignores a queue file of another version', async () => {
+    const [filePath, metadata] = track('song.mp3');
+    const entry = { filePath, metadata, candidates: [candidate()], queuedAt: 1 };
+    fs.writeFileSync(queuePath, JSON.stringify({ version: 99, entries: { [filePath]: entry } }));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(await new ReviewQueue({ path: queuePath }).pending()).toEqual([]);
+  });
+});
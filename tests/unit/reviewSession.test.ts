@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { ReviewQueue } from '../../src/review/reviewQueue';
+import { runReviewSession } from '../../src/review/reviewSession';
+import { LyricResult, TrackMetadata } from '../../src/types';
+
+function candidate(title: string, fields: Partial<LyricResult> = {}): LyricResult {
+  return { artist: 'Artist', title, syncedLyrics: `[00:01.00]${title} line\n`, plainLyrics: null, source: 'lrclib', instrumental: false, ...fields };
+}
+
+describe('runReviewSession', () => {
+  let dir: string;
+  let queuePath: string;
+  let queuedAt: number;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-session-'));
+    queuePath = path.join(dir, 'review-queue.json');
+    queuedAt = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Queue a track, creating its audio file unless it should be missing
+   */
+  async function enqueue(queue: ReviewQueue, name: string, candidates: LyricResult[], exists = true): Promise<[string, TrackMetadata]> {
+    const filePath = path.join(dir, name);
+    if (exists) fs.writeFileSync(filePath, 'audio');
+    const metadata = { artist: 'Artist', title: name, filepath: filePath };
+    // Queue in the order of the calls
+    jest.spyOn(Date, 'now').mockReturnValueOnce(++queuedAt);
+    await queue.enqueue(filePath, metadata, candidates);
+    return [filePath, metadata];
+  }
+
+  /**
+   * Run a session answering each prompt with one of the lines, and return its summary and output
+   */
+  async function review(queue: ReviewQueue, answers: string[]) {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let printed = '';
+    output.on('data', chunk => { printed += chunk; });
+    input.end(answers.map(answer => `${answer}\n`).join(''));
+    const summary = await runReviewSession(queue, { input, output });
+    return { summary, printed };
+  }
+
+  it('accepts, picks, marks instrumental, skips and quits, keeping each decision', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    await enqueue(queue, 'gone.mp3', [candidate('Gone')], false);
+    const [accepted, acceptedMetadata] = await enqueue(queue, 'accepted.mp3', [candidate('First'), candidate('Second')]);
+    const [picked, pickedMetadata] = await enqueue(queue, 'picked.mp3', [candidate('First'), candidate('Second')]);
+    const [instrumental, instrumentalMetadata] = await enqueue(queue, 'instrumental.mp3', [candidate('First')]);
+    const [skipped] = await enqueue(queue, 'skipped.mp3', [candidate('First')]);
+    const [quit] = await enqueue(queue, 'quit.mp3', [candidate('First')]);
+    const [unseen] = await enqueue(queue, 'unseen.mp3', [candidate('First')]);
+
+    const { summary, printed } = await review(queue, ['', '9', '2', 'i', 's', 'q', '1']);
+    expect(summary).toEqual({ decided: [accepted, picked, instrumental], skipped: 1, remaining: 3 });
+    expect(printed).toContain(`Dropping ${path.join(dir, 'gone.mp3')}: file no longer exists`);
+    expect(printed).toContain('Unknown choice: 9');
+    expect(printed).toContain('1. Artist - First');
+    expect(printed).toContain('First line');
+
+    const saved = new ReviewQueue({ path: queuePath });
+    expect(await saved.decisionFor(accepted, acceptedMetadata)).toMatchObject({ title: 'First', matchReasons: ['review: accepted'] });
+    expect(await saved.decisionFor(picked, pickedMetadata)).toMatchObject({ title: 'Second' });
+    expect(await saved.decisionFor(instrumental, instrumentalMetadata)).toMatchObject({ instrumental: true, source: 'review' });
+    expect((await saved.pending()).map(entry => entry.filePath)).toEqual([skipped, quit, unseen]);
+  });
+
+  it('ends the session when the input ends', async () => {
+    const queue = new ReviewQueue({ path: queuePath });
+    const [first] = await enqueue(queue, 'first.mp3', [candidate('First')]);
+    await enqueue(queue, 'second.mp3', [candidate('First')]);
+
+    const { summary } = await review(queue, ['a']);
+    expect(summary).toEqual({ decided: [first], skipped: 0, remaining: 1 });
+  });
+});
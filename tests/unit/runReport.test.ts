@@ -0,0 +1,168 @@
+import { buildRunReport, renderRunReport } from '../../src/report/runReport';
+import { ProcessResult, TrackMetadata } from '../../src/types';
+import { EXCLUDED_BY_OVERRIDE_REASON, NOT_FOUND_REASON, QUEUED_FOR_REVIEW_REASON } from '../../src/orchestrator/reasons';
+import { LyricsNotFoundError, NetworkError, ReviewPendingError } from '../../src/utils/errorHandling';
+
+const NOW = '2026-01-02T03:04:05.000Z';
+
+function metadata(filePath: string, fields: Partial<TrackMetadata> = {}): TrackMetadata {
+  return { artist: 'Artist', title: 'Song', filepath: filePath, ...fields };
+}
+
+const FOUND: ProcessResult = {
+  filePath: '/music/Artist/Album/01 Song.flac',
+  metadata: metadata('/music/Artist/Album/01 Song.flac', { artist: 'Artist, The', title: 'Say "Hi"', album: 'Side A\nSide B', duration: 200 }),
+  success: true,
+  lyricsType: 'synced',
+  lyricPath: '/music/Artist/Album/01 Song.lrc',
+  match: { source: 'lrclib', artist: 'Artist, The', title: 'Say "Hi"', score: 0.95, matchStage: 'exact', durationDelta: 0.5, searchVariant: 'original' },
+  timings: { metadataMs: 5, searchMs: 100, writeMs: 2, totalMs: 107 }
+};
+
+const INSTRUMENTAL: ProcessResult = { filePath: '/music/inst.mp3', metadata: metadata('/music/inst.mp3'), success: true, lyricsType: 'instrumental' };
+
+const NOT_FOUND: ProcessResult = {
+  filePath: '/music/missing.mp3',
+  metadata: metadata('/music/missing.mp3', { title: 'Missing' }),
+  success: false,
+  reason: NOT_FOUND_REASON,
+  error: new LyricsNotFoundError('Artist', 'Missing')
+};
+
+const FAILED: ProcessResult = {
+  filePath: '/music/broken.mp3',
+  metadata: metadata('/music/broken.mp3', { title: 'Broken' }),
+  success: false,
+  error: new NetworkError('Artist', 'Broken', 'timeout', 'ECONNABORTED')
+};
+
+const SKIPPED: ProcessResult = { filePath: '/music/done.mp3', metadata: metadata('/music/done.mp3'), success: true, skipped: true };
+
+const EXCLUDED: ProcessResult = {
+  filePath: '/music/excluded.mp3',
+  metadata: metadata('/music/excluded.mp3'),
+  success: true,
+  skipped: true,
+  reason: EXCLUDED_BY_OVERRIDE_REASON,
+  override: { action: 'exclude', match: 'path: excluded.mp3' }
+};
+
+const QUEUED: ProcessResult = {
+  filePath: '/music/queued.mp3',
+  metadata: metadata('/music/queued.mp3'),
+  success: false,
+  reason: QUEUED_FOR_REVIEW_REASON,
+  error: new ReviewPendingError('Artist', 'Song', 2)
+};
+
+const CRASHED: ProcessResult = {
+  filePath: '/music/crashed.mp3',
+  metadata: metadata('/music/crashed.mp3'),
+  success: false,
+  error: new Error('disk, "full"'),
+  timings: { totalMs: 3 }
+};
+
+const ALL = [FOUND, INSTRUMENTAL, NOT_FOUND, FAILED, SKIPPED, EXCLUDED, QUEUED, CRASHED];
+
+describe('run reports', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(NOW) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('buildRunReport', () => {
+    it('counts the files of each status and the failures of each error code', () => {
+      const report = buildRunReport(ALL, { directory: '/music', durationMs: 1500 });
+      expect(report).toMatchObject({ version: 1, generatedAt: NOW, directory: '/music', durationMs: 1500 });
+      expect(report.summary).toEqual({ total: 8, found: 1, instrumental: 1, 'not-found': 1, error: 2, queued: 1, skipped: 2 });
+      expect(report.errors).toEqual({ NOT_FOUND: 1, NETWORK_ERROR: 1, REVIEW_PENDING: 1, UNKNOWN_ERROR: 1 });
+      expect(report.files.map(file => file.status)).toEqual(['found', 'instrumental', 'not-found', 'error', 'skipped', 'skipped', 'queued', 'error']);
+    });
+
+    it('reports the match, output and timings of a file, with its path once', () => {
+      const [entry] = buildRunReport([FOUND]).files;
+      expect(JSON.parse(JSON.stringify(entry))).toEqual({
+        filePath: '/music/Artist/Album/01 Song.flac',
+        status: 'found',
+        metadata: { artist: 'Artist, The', title: 'Say "Hi"', album: 'Side A\nSide B', duration: 200 },
+        source: 'lrclib',
+        matchStage: 'exact',
+        searchVariant: 'original',
+        score: 0.95,
+        lyricsType: 'synced',
+        durationDelta: 0.5,
+        outputPath: '/music/Artist/Album/01 Song.lrc',
+        timings: { metadataMs: 5, searchMs: 100, writeMs: 2, totalMs: 107 }
+      });
+    });
+
+    it('describes failures with their code, retryability and context', () => {
+      const [failed, crashed] = buildRunReport([FAILED, CRASHED]).files;
+      expect(failed.error).toEqual({
+        code: 'NETWORK_ERROR',
+        message: 'Failed to fetch lyrics for "Artist - Broken": timeout',
+        retryable: true,
+        context: { artist: 'Artist', title: 'Broken', errorCode: 'ECONNABORTED' }
+      });
+      expect(crashed.error).toEqual({ code: 'UNKNOWN_ERROR', message: 'disk, "full"', retryable: false, context: undefined });
+    });
+  });
+
+  describe('renderRunReport', () => {
+    it('renders JSON without unset fields', () => {
+      const report = buildRunReport([INSTRUMENTAL]);
+      expect(renderRunReport(report, 'json')).toBe(JSON.stringify({
+        version: 1,
+        generatedAt: NOW,
+        summary: { total: 1, found: 0, instrumental: 1, 'not-found': 0, error: 0, queued: 0, skipped: 0 },
+        errors: {},
+        files: [{ filePath: '/music/inst.mp3', status: 'instrumental', metadata: { artist: 'Artist', title: 'Song' }, lyricsType: 'instrumental' }]
+      }, null, 2) + '\n');
+    });
+
+    it('renders CSV, quoting fields with commas, quotes and newlines', () => {
+      const csv = renderRunReport(buildRunReport([FOUND, CRASHED]), 'csv');
+      expect(csv).toBe([
+        'path,status,artist,title,album,duration,source,match_stage,search_variant,score,variant_score,lyrics_type,duration_delta,' +
+          'output_path,planned_action,override,metadata_ms,search_ms,write_ms,total_ms,error_code,error_message,retryable',
+        '/music/Artist/Album/01 Song.flac,found,"Artist, The","Say ""Hi""","Side A',
+        'Side B",200,lrclib,exact,original,0.95,,synced,0.5,/music/Artist/Album/01 Song.lrc,,,5,100,2,107,,,',
+        ['/music/crashed.mp3', 'error', 'Artist', 'Song', ...Array(15).fill(''), '3', 'UNKNOWN_ERROR', '"disk, ""full"""', 'false'].join(','),
+        ''
+      ].join('\n'));
+    });
+
+    it('renders JUnit XML with missing lyrics as failures, errors as errors and skipped files as skipped', () => {
+      const report = buildRunReport(ALL.slice(0, -1), { directory: '/music', durationMs: 1500 });
+      expect(renderRunReport(report, 'junit')).toBe([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuites>',
+        `  <testsuite name="lrclib" tests="7" failures="1" errors="1" skipped="3" time="1.500" timestamp="${NOW}">`,
+        '    <testcase classname="Artist.Album" name="Artist/Album/01 Song.flac" time="0.107"/>',
+        '    <testcase classname="." name="inst.mp3" time="0.000"/>',
+        '    <testcase classname="." name="missing.mp3" time="0.000">',
+        '      <failure type="NOT_FOUND" message="No lyrics found for: Artist - Missing"/>',
+        '    </testcase>',
+        '    <testcase classname="." name="broken.mp3" time="0.000">',
+        '      <error type="NETWORK_ERROR" message="Failed to fetch lyrics for &quot;Artist - Broken&quot;: timeout"/>',
+        '    </testcase>',
+        '    <testcase classname="." name="done.mp3" time="0.000">',
+        '      <skipped message="lyrics already exist"/>',
+        '    </testcase>',
+        '    <testcase classname="." name="excluded.mp3" time="0.000">',
+        '      <skipped message="excluded by override"/>',
+        '    </testcase>',
+        '    <testcase classname="." name="queued.mp3" time="0.000">',
+        '      <skipped message="queued for review"/>',
+        '    </testcase>',
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ScanStateStore } from '../../src/state/scanState';
+import { ProcessResult } from '../../src/types';
+
+describe('ScanStateStore', () => {
+  let directory: string;
+  let statePath: string;
+  let audioPath: string;
+  let lyricPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'scan-state-'));
+    statePath = path.join(directory, 'scan-state.json');
+    audioPath = path.join(directory, 'music', '01 Song.mp3');
+    lyricPath = path.join(directory, 'music', '01 Song.lrc');
+    await fs.promises.mkdir(path.dirname(audioPath));
+    await fs.promises.writeFile(audioPath, 'audio');
+    await fs.promises.writeFile(lyricPath, '[00:01.00]Song');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  function found(filePath: string, lyrics: string): ProcessResult {
+    return {
+      filePath,
+      metadata: { artist: 'Artist', title: 'Song', filepath: filePath },
+      success: true,
+      lyricPath: lyrics,
+      lyricsType: 'synced'
+    };
+  }
+
+  it('recognizes a file recorded under a relative path by its absolute path, and back', async () => {
+    const relativeAudio = path.relative(process.cwd(), audioPath);
+    const store = new ScanStateStore({ path: statePath });
+    await store.record(found(relativeAudio, path.relative(process.cwd(), lyricPath)), 'found');
+    await store.flush();
+
+    const reloaded = new ScanStateStore({ path: statePath });
+    expect(await reloaded.check(audioPath)).toEqual({ process: false, reason: 'unchanged (found)' });
+    expect(await reloaded.check(relativeAudio)).toEqual({ process: false, reason: 'unchanged (found)' });
+    expect(await reloaded.knownMetadata(relativeAudio)).toMatchObject({ title: 'Song' });
+  });
+
+  it('stores absolute paths', async () => {
+    const store = new ScanStateStore({ path: statePath });
+    await store.record(found(path.relative(process.cwd(), audioPath), path.relative(process.cwd(), lyricPath)), 'found');
+    await store.flush();
+
+    const { files } = JSON.parse(await fs.promises.readFile(statePath, 'utf8'));
+    expect(Object.keys(files)).toEqual([audioPath]);
+    expect(files[audioPath].lyricPath).toBe(lyricPath);
+  });
+
+  it('forgets a removed file whichever way its path is given', async () => {
+    const store = new ScanStateStore({ path: statePath });
+    await store.record(found(audioPath, lyricPath), 'found');
+    await store.remove(path.relative(process.cwd(), audioPath));
+    expect(await store.check(audioPath)).toEqual({ process: true, reason: 'new' });
+  });
+
+  it('reprocesses found lyrics when the output settings change', async () => {
+    const store = new ScanStateStore({ path: statePath });
+    await store.record(found(audioPath, lyricPath), 'found', 'lrc');
+    expect(await store.check(audioPath, 'lrc')).toEqual({ process: false, reason: 'unchanged (found)' });
+    expect(await store.check(audioPath, 'lrc+srt')).toMatchObject({ process: true, reason: 'output settings changed', metadata: { title: 'Song' } });
+  });
+
+  it('reprocesses a file whose lyrics were deleted', async () => {
+    const store = new ScanStateStore({ path: statePath });
+    await store.record(found(audioPath, lyricPath), 'found');
+    await fs.promises.rm(lyricPath);
+    expect(await store.check(audioPath)).toMatchObject({ process: true, reason: 'lyrics missing' });
+  });
+});
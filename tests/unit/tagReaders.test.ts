@@ -0,0 +1,208 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { readNativeTags } from '../../src/metadata/tags';
+import {
+  asfFile,
+  atom,
+  flacFile,
+  id3Tag,
+  id3v1Tag,
+  mp4File,
+  mp4TextItem,
+  mpegFrames,
+  MPEG_FRAME_SIZE,
+  oggOpusFile,
+  oggVorbisFile,
+  wavFile
+} from './fixtures/audio';
+
+// 20 frames of 128 kbps MPEG audio
+const MPEG_DURATION = 20 * MPEG_FRAME_SIZE * 8 / 128000;
+
+/**
+ * A first frame carrying a Xing header that counts the frames of a VBR stream
+ */
+function xingFrame(frames: number): Buffer {
+  const frame = mpegFrames(1);
+  // After the 4-byte header and 32 bytes of MPEG-1 stereo side info
+  frame.write('Xing', 36, 'latin1');
+  frame.writeUInt32BE(0x01, 40);
+  frame.writeUInt32BE(frames, 44);
+  return frame;
+}
+
+function mp4DataItem(type: string, value: Buffer): Buffer {
+  return atom(type, atom('data', Buffer.alloc(8), value));
+}
+
+function mp4FreeformItem(name: string, text: string): Buffer {
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.writeUInt32BE(1);
+  return atom('----',
+    atom('mean', Buffer.alloc(4), Buffer.from('com.apple.iTunes', 'utf8')),
+    atom('name', Buffer.alloc(4), Buffer.from(name, 'utf8')),
+    atom('data', dataHeader, Buffer.from(text, 'utf8')));
+}
+
+describe('native tag readers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-tags-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function read(name: string, content: Buffer) {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return readNativeTags(filePath);
+  }
+
+  describe('MP3', () => {
+    it('reads ID3v2 frames and the constant bitrate duration', async () => {
+      const tag = id3Tag({ TIT2: 'Song', TPE1: 'Artist', TALB: 'Album', TRCK: '3/12', TCON: '(17)', TDRC: '2004-05-17' });
+      const native = await read('song.mp3', Buffer.concat([tag, mpegFrames(20)]));
+      expect(native).toEqual({
+        format: 'mp3',
+        duration: MPEG_DURATION,
+        tags: { title: 'Song', artist: 'Artist', album: 'Album', track: '3/12', genre: 'Rock', date: '2004-05-17' }
+      });
+    });
+
+    it('reads ID3v2.3 tags, user text frames and several values of one field', async () => {
+      const tag = id3Tag({ TIT2: 'Song', TPE1: 'A', TXXX: 'MusicBrainz Track Id\0abc-123' }, { version: 3 });
+      expect((await read('song.mp3', Buffer.concat([tag, mpegFrames(20)])))?.tags)
+        .toEqual({ title: 'Song', artist: 'A', musicBrainzRecordingId: 'abc-123' });
+      const several = id3Tag({ TPE1: 'A\0B' });
+      expect((await read('several.mp3', Buffer.concat([several, mpegFrames(20)])))?.tags.artist).toBe('A; B');
+    });
+
+    it('fills fields missing from ID3v2 with ID3v1 and leaves it out of the duration', async () => {
+      const content = Buffer.concat([
+        id3Tag({ TIT2: 'Song' }),
+        mpegFrames(20),
+        id3v1Tag({ title: 'Old title', artist: 'Artist', album: 'Album', year: '1999', track: 7, genre: 0 })
+      ]);
+      expect(await read('song.mp3', content)).toEqual({
+        format: 'mp3',
+        duration: MPEG_DURATION,
+        tags: { title: 'Song', artist: 'Artist', album: 'Album', date: '1999', track: '7', genre: 'Blues' }
+      });
+    });
+
+    it('takes the duration of a VBR stream from its Xing header', async () => {
+      const native = await read('vbr.mp3', Buffer.concat([xingFrame(1000), mpegFrames(19)]));
+      expect(native?.duration).toBeCloseTo(1000 * 1152 / 44100);
+    });
+
+    it('fails on a file without audio frames', async () => {
+      await expect(read('broken.mp3', Buffer.concat([id3Tag({ TIT2: 'Song' }), Buffer.alloc(2048)]))).rejects.toThrow('no MPEG audio frame found');
+    });
+  });
+
+  describe('FLAC', () => {
+    it('reads Vorbis comments and the STREAMINFO duration', async () => {
+      const content = flacFile({
+        comments: { TITLE: 'Song', artist: 'A', ARTIST: 'B', 'ALBUM ARTIST': 'Band', TRACKNUMBER: '2', MUSICBRAINZ_ALBUMID: 'rel-1' },
+        sampleRate: 48000,
+        totalSamples: 48000 * 180
+      });
+      expect(await read('song.flac', content)).toEqual({
+        format: 'flac',
+        duration: 180,
+        tags: { title: 'Song', artist: 'A; B', albumArtist: 'Band', track: '2', musicBrainzReleaseId: 'rel-1' }
+      });
+    });
+
+    it('skips an ID3v2 tag in front of the stream and leaves the duration unset without a sample count', async () => {
+      const content = Buffer.concat([id3Tag({ TIT2: 'Ignored' }), flacFile({ comments: { TITLE: 'Song' } })]);
+      expect(await read('song.flac', content)).toEqual({ format: 'flac', duration: undefined, tags: { title: 'Song' } });
+    });
+  });
+
+  describe('Ogg', () => {
+    it('reads Vorbis comments and the duration from the last granule position', async () => {
+      const content = oggVorbisFile({ comments: { TITLE: 'Song', DATE: '2001' }, sampleRate: 44100, granule: 44100 * 90 });
+      expect(await read('song.ogg', content)).toEqual({ format: 'ogg', duration: 90, tags: { title: 'Song', date: '2001' } });
+    });
+
+    it('subtracts the Opus pre-skip from the duration', async () => {
+      const content = oggOpusFile({ comments: { ARTIST: 'Artist' }, preSkip: 312, granule: 48000 * 60 + 312 });
+      expect(await read('song.opus', content)).toEqual({ format: 'opus', duration: 60, tags: { artist: 'Artist' } });
+    });
+  });
+
+  describe('MP4', () => {
+    it('reads iTunes items and the mvhd duration, wherever the moov atom is', async () => {
+      const track = Buffer.from([0, 0, 0, 4, 0, 10, 0, 0]);
+      const items = [
+        mp4TextItem('©nam', 'Song'),
+        mp4TextItem('©ART', 'Artist'),
+        mp4TextItem('aART', 'Band'),
+        mp4DataItem('trkn', track),
+        mp4DataItem('gnre', Buffer.from([0, 18])),
+        mp4FreeformItem('ISRC', 'usabc0000001'),
+        mp4FreeformItem('MusicBrainz Track Id', 'rec-1')
+      ];
+      const expected = {
+        format: 'mp4',
+        duration: 245.5,
+        tags: { title: 'Song', artist: 'Artist', albumArtist: 'Band', track: '4', genre: 'Rock', isrc: 'usabc0000001', musicBrainzRecordingId: 'rec-1' }
+      };
+      expect(await read('song.m4a', mp4File({ items, timescale: 44100, length: 44100 * 245.5 }))).toEqual(expected);
+      expect(await read('late.m4a', mp4File({ items, timescale: 44100, length: 44100 * 245.5, mediaFirst: true }))).toEqual(expected);
+    });
+
+    it('reads a file without metadata', async () => {
+      expect(await read('bare.m4a', mp4File())).toEqual({ format: 'mp4', duration: 10, tags: {} });
+    });
+  });
+
+  describe('ASF', () => {
+    it('reads the content descriptions and the duration without the preroll', async () => {
+      const content = asfFile({
+        title: 'Song',
+        artist: 'Artist',
+        descriptors: { 'WM/AlbumTitle': 'Album', 'WM/Year': '1999', 'WM/Track': 4, 'WM/Genre': 'Jazz' },
+        durationMs: 215000,
+        prerollMs: 3000
+      });
+      expect(await read('song.wma', content)).toEqual({
+        format: 'asf',
+        duration: 215,
+        tags: { title: 'Song', artist: 'Artist', album: 'Album', date: '1999', genre: 'Jazz', track: '5' }
+      });
+    });
+
+    it('prefers WM/TrackNumber to the zero-based WM/Track', async () => {
+      const content = asfFile({ title: 'Song', descriptors: { 'WM/Track': 4, 'WM/TrackNumber': '9' } });
+      expect((await read('song.wma', content))?.tags).toEqual({ title: 'Song', track: '9' });
+    });
+  });
+
+  describe('WAV', () => {
+    it('reads the INFO list and the duration from the byte rate', async () => {
+      const content = wavFile({ sampleRate: 8000, dataSize: 8000 * 4 * 3, info: { INAM: 'Song', IART: 'Artist', ICRD: '2010' } });
+      expect(await read('song.wav', content)).toEqual({ format: 'wav', duration: 3, tags: { title: 'Song', artist: 'Artist', date: '2010' } });
+    });
+
+    it('prefers an ID3 chunk to the INFO list', async () => {
+      const content = wavFile({ sampleRate: 8000, dataSize: 8000 * 4, info: { INAM: 'Info title', IPRD: 'Album' }, id3: id3Tag({ TIT2: 'Song' }) });
+      expect((await read('song.wav', content))?.tags).toEqual({ title: 'Song', album: 'Album' });
+    });
+
+    it('leaves the duration unset without a data chunk', async () => {
+      expect((await read('empty.wav', wavFile({ dataSize: 0 })))?.duration).toBeUndefined();
+    });
+  });
+
+  it('returns null for containers without a native reader', async () => {
+    const aiff = Buffer.concat([Buffer.from('FORM', 'latin1'), Buffer.alloc(4), Buffer.from('AIFF', 'latin1'), Buffer.alloc(64)]);
+    expect(await read('song.aiff', aiff)).toBeNull();
+    expect(await read('notes.txt', Buffer.from('not audio at all'))).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadTrackOverrides } from '../../src/overrides/trackOverrides';
+import { ConfigurationError } from '../../src/utils/errorHandling';
+import { TrackMetadata } from '../../src/types';
+
+describe('track overrides', () => {
+  let dir: string;
+  let library: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lrclib-overrides-'));
+    library = path.join(dir, 'Music');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(content: string, name = 'overrides.yaml'): string {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function track(relativePath: string, fields: Partial<TrackMetadata> = {}): [string, TrackMetadata] {
+    const filePath = path.join(library, relativePath);
+    return [filePath, { artist: 'Artist', title: 'Song', filepath: filePath, ...fields }];
+  }
+
+  describe('find', () => {
+    it('prefers a path match to an artist/title match, and that to a glob', async () => {
+      const overrides = await loadTrackOverrides(write([
+        '- glob: "**/*.flac"',
+        '  exclude: true',
+        '- artist: ARTIST',
+        '  title: "Song!"',
+        '  instrumental: true',
+        '- path: Album/01 Song.flac',
+        '  lrclibId: 42'
+      ].join('\n')));
+
+      expect(overrides.find(...track('Album/01 Song.flac'), library)).toEqual({ action: 'lrclib-id', match: 'path: Album/01 Song.flac', lrclibId: 42 });
+      expect(overrides.find(...track('Album/02 Song.flac'), library)).toEqual({ action: 'instrumental', match: 'artist/title: ARTIST - Song!' });
+      expect(overrides.find(...track('Album/02 Song.flac', { artist: 'Other' }), library)).toEqual({ action: 'exclude', match: 'glob: **/*.flac' });
+      expect(overrides.find(...track('Album/02 Song.mp3', { artist: 'Other' }), library)).toBeUndefined();
+    });
+
+    it('takes the first matching entry of a kind, and matches a title alone for any artist', async () => {
+      const overrides = await loadTrackOverrides(write(JSON.stringify({
+        overrides: [
+          { title: 'Intro', instrumental: true },
+          { artist: 'Artist', title: 'Intro', exclude: true }
+        ]
+      }), 'overrides.json'));
+      expect(overrides.size).toBe(2);
+      expect(overrides.find(...track('intro.mp3', { title: 'intro' }), library)?.action).toBe('instrumental');
+      expect(overrides.find(...track('intro.mp3', { artist: 'Someone', title: 'Intro' }), library)?.action).toBe('instrumental');
+    });
+
+    it('resolves paths and globs against the library root, and lyrics files against the overrides file', async () => {
+      const absolute = path.join(library, 'Live/song.mp3');
+      const overrides = await loadTrackOverrides(write([
+        `- path: ${JSON.stringify(absolute)}`,
+        '  lyricsFile: lyrics/song.lrc',
+        `- glob: ${JSON.stringify(path.join(library, 'Other', '*').split(path.sep).join('/'))}`,
+        '  exclude: true',
+        '- glob: "Album/*"',
+        `  lyricsFile: ${JSON.stringify(path.join(dir, 'elsewhere.lrc'))}`
+      ].join('\n')));
+
+      expect(overrides.find(...track('Live/song.mp3'), library)).toEqual({
+        action: 'lyrics-file',
+        match: `path: ${absolute}`,
+        lyricsFile: path.join(dir, 'lyrics/song.lrc')
+      });
+      expect(overrides.find(...track('Other/song.mp3'), library)?.action).toBe('exclude');
+      expect(overrides.find(...track('Album/song.mp3'), library)?.lyricsFile).toBe(path.join(dir, 'elsewhere.lrc'));
+      // Relative globs don't match the path relative to another root
+      expect(overrides.find(...track('Album/song.mp3'), dir)).toBeUndefined();
+    });
+  });
+
+  describe('loadTrackOverrides', () => {
+    async function loadError(content: string): Promise<ConfigurationError> {
+      const error = await loadTrackOverrides(write(content)).catch(caught => caught);
+      expect(error).toBeInstanceOf(ConfigurationError);
+      return error;
+    }
+
+    it('rejects values of the wrong type', async () => {
+      const error = await loadError('- title: 1999\n  instrumental: true\n');
+      expect(error.message).toContain('Override 1');
+      expect(error.message).toContain('has an invalid title: 1999 (expected a string)');
+      expect(error.context).toEqual({ overridesFile: path.join(dir, 'overrides.yaml'), entry: 1 });
+
+      expect((await loadError('- title: Song\n  exclude: "yes"\n')).message).toContain('has an invalid exclude: "yes" (expected a boolean)');
+      expect((await loadError('- path: a.mp3\n  lrclibId: "12"\n')).message).toContain('has an invalid lrclibId: "12" (expected a number)');
+      expect((await loadError('- path:\n  exclude: true\n')).message).toContain('has an invalid path: null');
+    });
+
+    it('rejects entries that match nothing or take no single action', async () => {
+      expect((await loadError('- exclude: true\n')).message).toContain('needs a path, glob or title');
+      expect((await loadError('- artist: Artist\n  glob: "*"\n  exclude: true\n')).message).toContain('matches an artist without a title');
+      expect((await loadError('- title: Song\n')).message).toContain('must set exactly one of');
+      expect((await loadError('- title: Song\n  lrclibId: 1\n  exclude: true\n')).message).toContain('must set exactly one of');
+      expect((await loadError('- title: Song\n  lrclibId: 1.5\n')).message).toContain('has an invalid lrclibId: 1.5');
+      expect((await loadError('- title: Song\n  exclude: true\n  note: live\n')).message).toContain('has unknown keys: note');
+      expect((await loadError('- Song\n')).message).toContain('is not an object');
+    });
+
+    it('rejects unreadable files and files without a list', async () => {
+      expect((await loadError('overrides: true\n')).message).toContain('must contain a list of overrides');
+      expect((await loadError('- [unclosed\n')).message).toContain('Cannot read overrides file');
+      await expect(loadTrackOverrides(path.join(dir, 'missing.yaml'))).rejects.toThrow(ConfigurationError);
+    });
+
+    it('accepts an empty file', async () => {
+      expect((await loadTrackOverrides(write(''))).size).toBe(0);
+    });
+  });
+});